@@ -3,32 +3,71 @@ import React, { type JSX } from "react";
 import { Routes, Route } from "react-router-dom";
 import HomePage from "./pages/HomePage";
 import CategoryPage from "./pages/CategoryPage";
+import FullMenuPage from "./pages/FullMenuPage";
+import SearchPage from "./pages/SearchPage";
 import DoodleJumpReact from "./pages/DoodleJumpReact";
 import LoginPage from "./pages/Login";
 import SignupPage from "./pages/Signup";
+import ForgotPasswordPage from "./pages/ForgotPassword";
+import ResetPasswordPage from "./pages/ResetPassword";
 import CabinetPage from "./pages/Cabinet";
+import CartPage from "./pages/Cart";
+import CheckoutPage from "./pages/Checkout";
+import OrderPage from "./pages/OrderPage";
+import TableEntry from "./pages/TableEntry";
+import TableQrPage from "./pages/TableQrPage";
 import { AuthProvider } from "./context/AuthContext";
+import { CartProvider } from "./context/CartContext";
+import { FavoritesProvider } from "./context/FavoritesContext";
+import { TableProvider } from "./context/TableContext";
+import { LanguageProvider } from "./context/LanguageContext";
 import ProtectedRoute from "./components/ProtectedRoute";
+import { ROUTES } from "./routes";
 
 export default function App(): JSX.Element {
   return (
-    <AuthProvider>
-      <Routes>
-        <Route path="/" element={<HomePage />} />
-        <Route path="/category" element={<CategoryPage />} />
-        <Route path="/doodle-jump" element={
-          <ProtectedRoute>
-            <DoodleJumpReact />
-          </ProtectedRoute>
-        } />
-        <Route path="/login" element={<LoginPage />} />
-        <Route path="/signup" element={<SignupPage />} />
-        <Route path="/cabinet" element={
-          <ProtectedRoute>
-            <CabinetPage />
-          </ProtectedRoute>
-        } />
-      </Routes>
-    </AuthProvider>
+    <LanguageProvider>
+      <AuthProvider>
+        <FavoritesProvider>
+          <TableProvider>
+            <CartProvider>
+              <Routes>
+                <Route path={ROUTES.home} element={<HomePage />} />
+                <Route path={ROUTES.category} element={<CategoryPage />} />
+                <Route path={ROUTES.menu} element={<FullMenuPage />} />
+                <Route path={ROUTES.search} element={<SearchPage />} />
+                <Route path={ROUTES.games} element={
+                  <ProtectedRoute>
+                    <DoodleJumpReact />
+                  </ProtectedRoute>
+                } />
+                <Route path={ROUTES.login} element={<LoginPage />} />
+                <Route path={ROUTES.signup} element={<SignupPage />} />
+                <Route path={ROUTES.forgotPassword} element={<ForgotPasswordPage />} />
+                <Route path={ROUTES.resetPassword} element={<ResetPasswordPage />} />
+                <Route path={ROUTES.cabinet} element={
+                  <ProtectedRoute>
+                    <CabinetPage />
+                  </ProtectedRoute>
+                } />
+                <Route path={ROUTES.order} element={
+                  <ProtectedRoute>
+                    <OrderPage />
+                  </ProtectedRoute>
+                } />
+                <Route path={ROUTES.cart} element={<CartPage />} />
+                <Route path={ROUTES.checkout} element={<CheckoutPage />} />
+                <Route path={ROUTES.table} element={<TableEntry />} />
+                <Route path={ROUTES.tableQr} element={
+                  <ProtectedRoute>
+                    <TableQrPage />
+                  </ProtectedRoute>
+                } />
+              </Routes>
+            </CartProvider>
+          </TableProvider>
+        </FavoritesProvider>
+      </AuthProvider>
+    </LanguageProvider>
   );
 }
@@ -0,0 +1,160 @@
+// src/api/client.ts
+// Low-level fetch wrapper: base URL from Vite env, timeouts, retry with
+// exponential backoff, response validation and a single ApiError type.
+import { ApiError, toApiError } from "./errors";
+import type { Validator } from "./validate";
+
+const env = import.meta.env;
+
+export const API_CONFIG = {
+  baseUrl: (env.VITE_API_URL || "http://localhost:3000").replace(/\/+$/, ""),
+  timeoutMs: Number(env.VITE_API_TIMEOUT_MS) || 10_000,
+  retries: env.VITE_API_RETRIES !== undefined ? Number(env.VITE_API_RETRIES) : 2,
+  backoffMs: 300,
+  useMocks: env.VITE_USE_MOCKS === "true" || env.VITE_USE_MOCKS === "1",
+};
+
+export type RequestOptions<T> = {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  body?: unknown;
+  query?: Record<string, string | number | undefined>;
+  headers?: Record<string, string>;
+  validate?: Validator<T>;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // defaults to API_CONFIG.retries for GET and 0 otherwise (non-idempotent)
+  retries?: number;
+  // send the access token and refresh on 401; off for the auth endpoints themselves
+  auth?: boolean;
+};
+
+export type AuthHooks = {
+  // current access token, refreshed first if it is about to expire; null for guests
+  getAccessToken: () => Promise<string | null>;
+  // called after a 401; resolves true if the session was refreshed and the request can be retried
+  onUnauthorized: () => Promise<boolean>;
+};
+
+let authHooks: AuthHooks | null = null;
+
+export function setAuthHooks(hooks: AuthHooks | null) {
+  authHooks = hooks;
+}
+
+export function buildUrl(path: string, query?: RequestOptions<unknown>["query"]) {
+  const url = new URL(API_CONFIG.baseUrl + (path.startsWith("/") ? path : `/${path}`));
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  }
+  return url.toString();
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    reject(new DOMException("Aborted", "AbortError"));
+  }, { once: true });
+});
+
+type Fetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+let mockFetch: Promise<Fetch> | undefined;
+
+// The mock backend is loaded on demand so it stays out of production bundles
+function transport(): Promise<Fetch> {
+  if (!API_CONFIG.useMocks) return Promise.resolve(fetch);
+  mockFetch ??= import("./mock/server").then(m => m.mockFetch);
+  return mockFetch;
+}
+
+async function attempt<T>(path: string, options: RequestOptions<T>): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs ?? API_CONFIG.timeoutMs);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      const send = await transport();
+      response = await send(buildUrl(path, options.query), {
+        method: options.method ?? "GET",
+        headers: {
+          Accept: "application/json",
+          ...(options.body !== undefined ? { "Content-Type": "application/json" } : {}),
+          ...options.headers,
+        },
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (timedOut) throw new ApiError("timeout", path, "Request timed out");
+      throw toApiError(error, path);
+    }
+
+    if (!response.ok) {
+      let message = response.statusText || `HTTP ${response.status}`;
+      let code: string | undefined;
+      try {
+        const body = await response.json();
+        if (body && typeof body.message === "string") message = body.message;
+        if (body && typeof body.code === "string") code = body.code;
+      } catch {
+        // non-JSON error body; keep the status text
+      }
+      throw new ApiError("http", path, message, response.status, code);
+    }
+
+    if (response.status === 204) return undefined as T;
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch {
+      throw new ApiError("validation", path, "Response is not valid JSON", response.status);
+    }
+    if (options.validate && !options.validate(data)) {
+      throw new ApiError("validation", path, "Unexpected response shape", response.status);
+    }
+    return data as T;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+export async function request<T>(path: string, options: RequestOptions<T> = {}): Promise<T> {
+  const method = options.method ?? "GET";
+  const retries = options.retries ?? (method === "GET" ? API_CONFIG.retries : 0);
+  const useAuth = options.auth !== false && authHooks !== null;
+  let reauthenticated = false;
+
+  for (let i = 0; ; i++) {
+    try {
+      const token = useAuth ? await authHooks?.getAccessToken() : null;
+      return await attempt(path, token
+        ? { ...options, headers: { Authorization: `Bearer ${token}`, ...options.headers } }
+        : options);
+    } catch (error) {
+      const apiError = toApiError(error, path);
+      // one refresh-and-replay per request; a second 401 means the session is really gone
+      if (apiError.status === 401 && useAuth && !reauthenticated) {
+        reauthenticated = true;
+        if (await authHooks?.onUnauthorized()) {
+          i--;
+          continue;
+        }
+        throw apiError;
+      }
+      if (i >= retries || !apiError.isRetryable || options.signal?.aborted) throw apiError;
+      // 300ms, 600ms, 1200ms ... with a little jitter
+      await sleep(API_CONFIG.backoffMs * 2 ** i + Math.random() * 100, options.signal)
+        .catch(abort => { throw toApiError(abort, path); });
+    }
+  }
+}
@@ -0,0 +1,38 @@
+// src/api/errors.ts
+
+export type ApiErrorKind =
+  | "network" // request never reached the server
+  | "timeout"
+  | "http" // server answered with a non-2xx status
+  | "validation" // response body did not match the expected shape
+  | "aborted";
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly path: string;
+  readonly code?: string; // machine-readable `code` from the error body, if any
+
+  constructor(kind: ApiErrorKind, path: string, message: string, status?: number, code?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.path = path;
+    this.status = status;
+    this.code = code;
+  }
+
+  // network hiccups, timeouts and 5xx/429 are worth another attempt; 4xx are not
+  get isRetryable(): boolean {
+    if (this.kind === "network" || this.kind === "timeout") return true;
+    return this.kind === "http" && (this.status === 429 || (this.status ?? 0) >= 500);
+  }
+}
+
+export function toApiError(error: unknown, path = ""): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof DOMException && error.name === "AbortError") {
+    return new ApiError("aborted", path, "Request aborted");
+  }
+  return new ApiError("network", path, error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,271 @@
+// src/api/index.ts
+// Typed endpoints. Pages import from here, never call fetch directly.
+import type {
+  AuthResponse,
+  Banner,
+  Category,
+  DailyRiddle,
+  Item,
+  JumpRunResult,
+  JumpRunStart,
+  Leaderboard,
+  LeaderboardPeriod,
+  LoyaltyWallet,
+  Order,
+  OrderLine,
+  RiddleSolveResult,
+  WalletClaim,
+} from "../types";
+import { API_CONFIG, request } from "./client";
+import { parsePrice } from "../utils/price";
+import type { JumpReplay } from "../utils/jumpReplay";
+import {
+  arrayOf,
+  isBanner,
+  isCategory,
+  isDailyRiddle,
+  isItem,
+  isLeaderboard,
+  isLoyaltyWallet,
+  isOrder,
+  objectWith,
+  type RawItem,
+} from "./validate";
+
+export { ApiError, toApiError, type ApiErrorKind } from "./errors";
+export { API_CONFIG, setAuthHooks, type AuthHooks } from "./client";
+
+type Options = { signal?: AbortSignal };
+
+const isAuthUser = objectWith<AuthResponse["user"]>(v =>
+  typeof v.username === "string" && typeof v.email === "string");
+
+const isAuthResponse = objectWith<AuthResponse>(v =>
+  typeof v.accessToken === "string"
+  && typeof v.refreshToken === "string"
+  && typeof v.expiresIn === "number"
+  && isAuthUser(v.user));
+
+export function getCategories({ signal }: Options = {}) {
+  return request<Category[]>("/categories", { validate: arrayOf(isCategory), signal });
+}
+
+// Everything past the API layer can rely on a numeric price (or none at all)
+function normalizeItem({ price, ...item }: RawItem): Item {
+  const amount = parsePrice(price);
+  return amount > 0 ? { ...item, price: amount } : item;
+}
+
+export async function getItems(categoryId: Category["id"], lang: string, { signal }: Options = {}): Promise<Item[]> {
+  const items = await request<RawItem[]>(`/items/${encodeURIComponent(String(categoryId))}`, {
+    query: { lang },
+    validate: arrayOf(isItem),
+    signal,
+  });
+  return items.map(normalizeItem);
+}
+
+export type MenuSection = { category: Category; items: Item[] };
+
+// The whole catalogue in one go, for views that work across categories (search)
+export async function getFullMenu(lang: string, { signal }: Options = {}): Promise<MenuSection[]> {
+  const categories = await getCategories({ signal });
+  return Promise.all(categories.map(async category => ({
+    category,
+    items: await getItems(category.id, lang, { signal }),
+  })));
+}
+
+export function getBanners({ signal }: Options = {}) {
+  return request<Banner[]>("/banners", { validate: arrayOf(isBanner), signal });
+}
+
+// Auth endpoints never carry the access token themselves (auth: false)
+export function login(usernameOrEmail: string, password: string) {
+  return request<AuthResponse>("/auth/login", {
+    method: "POST",
+    body: { usernameOrEmail, password },
+    validate: isAuthResponse,
+    auth: false,
+  });
+}
+
+export function signup(username: string, email: string, password: string) {
+  return request<AuthResponse>("/auth/signup", {
+    method: "POST",
+    body: { username, email, password },
+    validate: isAuthResponse,
+    auth: false,
+  });
+}
+
+export function refreshTokens(refreshToken: string) {
+  return request<AuthResponse>("/auth/refresh", {
+    method: "POST",
+    body: { refreshToken },
+    validate: isAuthResponse,
+    auth: false,
+  });
+}
+
+export function logout(refreshToken: string) {
+  return request<void>("/auth/logout", {
+    method: "POST",
+    body: { refreshToken },
+    auth: false,
+  });
+}
+
+// Account management; these carry the access token like any other call
+export function changePassword(currentPassword: string, newPassword: string) {
+  return request<void>("/auth/password", {
+    method: "POST",
+    body: { currentPassword, newPassword },
+  });
+}
+
+export function changeEmail(email: string, password: string) {
+  return request<Pick<AuthResponse, "user">>("/auth/email", {
+    method: "POST",
+    body: { email, password },
+    validate: objectWith(v => isAuthUser(v.user)),
+  });
+}
+
+export function deleteAccount(password: string) {
+  return request<void>("/auth/account", {
+    method: "DELETE",
+    body: { password },
+  });
+}
+
+export function requestPasswordReset(email: string) {
+  return request<{ resetToken?: string }>("/auth/forgot", {
+    method: "POST",
+    body: { email },
+    validate: objectWith(v => v.resetToken === undefined || typeof v.resetToken === "string"),
+    auth: false,
+  });
+}
+
+export function resetPassword(token: string, password: string) {
+  return request<void>("/auth/reset", {
+    method: "POST",
+    body: { token, password },
+    auth: false,
+  });
+}
+
+export type FavoritesBody = { itemIds: string[] };
+
+const isFavoritesBody = objectWith<FavoritesBody>(v =>
+  Array.isArray(v.itemIds) && v.itemIds.every(id => typeof id === "string"));
+
+export function getFavorites({ signal }: Options = {}) {
+  return request<FavoritesBody>("/favorites", { validate: isFavoritesBody, signal });
+}
+
+// Replaces the whole list; the server answers with what it stored
+export function putFavorites(itemIds: string[]) {
+  return request<FavoritesBody>("/favorites", {
+    method: "PUT",
+    body: { itemIds },
+    validate: isFavoritesBody,
+  });
+}
+
+// What was chosen, not what it costs: the server names and prices each line from its menu
+export type NewOrderLine = Pick<OrderLine, "itemId" | "quantity" | "selection">;
+
+// The discount applied is the one in the server's wallet; the client only says it is redeeming it
+// `total` is the one the customer reviewed; the server prices the order itself
+// and answers 409 price_changed when its total differs.
+export type NewOrder = Pick<Order, "discountPercent" | "total" | "type" | "scheduledFor" | "tableId" | "notes">
+  & Required<Pick<Order, "contact">>
+  & { lines: NewOrderLine[] };
+
+// The idempotency key makes the POST safe to repeat: a retry, a double tap or a
+// resubmit after a lost response all get the original order back instead of a copy.
+// That is also why this POST, unlike the others, is retried.
+// `lang` is the language the line titles and option names are stored in.
+export function placeOrder(order: NewOrder, idempotencyKey: string, lang: string) {
+  return request<Order>("/orders", {
+    method: "POST",
+    query: { lang },
+    body: order,
+    headers: { "Idempotency-Key": idempotencyKey },
+    retries: API_CONFIG.retries,
+    validate: isOrder,
+  });
+}
+
+// Newest first
+export function getOrders({ signal }: Options = {}) {
+  return request<Order[]>("/orders", { validate: arrayOf(isOrder), signal });
+}
+
+export function getOrder(id: Order["id"], { signal }: Options = {}) {
+  return request<Order>(`/orders/${encodeURIComponent(id)}`, { validate: isOrder, signal });
+}
+
+export function getDailyRiddle(lang: string, { signal }: Options = {}) {
+  return request<DailyRiddle>("/riddle/today", { query: { lang }, validate: isDailyRiddle, signal });
+}
+
+// The signed-in user's points and discount. Only the server changes them:
+// games credit them and a placed order spends the discount.
+export function getWallet({ signal }: Options = {}) {
+  return request<LoyaltyWallet>("/wallet", { validate: isLoyaltyWallet, signal });
+}
+
+// Hands the balance this device kept before the server owned wallets to the
+// account. Taken once per account (409 wallet_migrated after that) and capped.
+export function migrateWallet(claim: WalletClaim, { signal }: Options = {}) {
+  return request<LoyaltyWallet>("/wallet/migrate", {
+    method: "POST",
+    body: claim,
+    validate: isLoyaltyWallet,
+    signal,
+  });
+}
+
+// One guess at the riddle, checked against the answer in `lang`. Each uses up
+// an attempt; only the first solver of the day gets the bonus.
+export function solveRiddle(date: DailyRiddle["date"], guess: string, lang: string) {
+  return request<RiddleSolveResult>(`/riddle/${encodeURIComponent(date)}/solve`, {
+    method: "POST",
+    query: { lang },
+    body: { guess },
+    validate: objectWith<RiddleSolveResult>(v =>
+      typeof v.correct === "boolean"
+      && typeof v.first === "boolean"
+      && typeof v.attemptsLeft === "number"
+      && (v.answer === undefined || typeof v.answer === "string")
+      && isLoyaltyWallet(v.wallet)),
+  });
+}
+
+// A ranked run has to be played on the seed this hands out; each seed can be submitted once
+export function startJumpRun({ signal }: Options = {}) {
+  return request<JumpRunStart>("/games/jump/runs/start", {
+    method: "POST",
+    validate: objectWith<JumpRunStart>(v => Number.isInteger(v.seed)),
+    signal,
+  });
+}
+
+// Points for a Giraffe Jump run are only credited for the score the server
+// gets back out of the replay
+export function submitJumpRun(score: number, replay: JumpReplay) {
+  return request<JumpRunResult>("/games/jump/runs", {
+    method: "POST",
+    body: { score, replay },
+    validate: objectWith<JumpRunResult>(v =>
+      typeof v.score === "number" && typeof v.personalBest === "number" && isLoyaltyWallet(v.wallet)),
+  });
+}
+
+// Public; with a token the response also places the signed-in player
+export function getLeaderboard(period: LeaderboardPeriod, { signal }: Options = {}) {
+  return request<Leaderboard>("/games/jump/leaderboard", { query: { period }, validate: isLeaderboard, signal });
+}
@@ -0,0 +1,329 @@
+// src/api/mock/fixtures.ts
+// Seed data for the in-browser mock backend. Ids are unique across the menu.
+import type { Allergen, Banner, Category, DietaryTag, ModifierGroup, SpiceLevel, VariantGroup } from "../../types";
+import type { Lang } from "../../i18n";
+
+type Localized = Record<Lang, string>;
+
+export type OptionFixture = { id: string; name: Localized; priceDelta: number };
+type GroupFixture<G> = Omit<G, "name" | "options"> & { name: Localized; options: OptionFixture[] };
+export type VariantGroupFixture = GroupFixture<VariantGroup>;
+export type ModifierGroupFixture = GroupFixture<ModifierGroup>;
+
+export type MenuItemFixture = {
+  id: number;
+  categoryId: number;
+  title: Localized;
+  description: Localized;
+  ingredients: Localized;
+  price: number;
+  img: string;
+  popularity: number;
+  createdAt: string;
+  tags: DietaryTag[];
+  spiciness?: SpiceLevel;
+  allergens: Allergen[];
+  variants?: VariantGroupFixture[];
+  modifiers?: ModifierGroupFixture[];
+};
+
+export type RiddleFixture = {
+  question: Localized;
+  answer: Localized;
+};
+
+export type UserFixture = {
+  username: string;
+  email: string;
+  password: string;
+};
+
+export const categories: Category[] = [
+  { id: 1, name_en: "Breakfast", name_ru: "Завтраки", name_ky: "Эртең мененки тамак", img: "src/assets/cat1.jpg" },
+  { id: 2, name_en: "Soups", name_ru: "Супы", name_ky: "Шорполор", img: "src/assets/cat2.jpg" },
+  { id: 3, name_en: "Hot Meals", name_ru: "Горячие блюда", name_ky: "Ысык тамактар", img: "src/assets/cat3.jpg" },
+  { id: 4, name_en: "Pasta & Risotto", name_ru: "Паста и ризотто", name_ky: "Паста жана ризотто", img: "src/assets/cat4.jpg" },
+  { id: 5, name_en: "Drinks", name_ru: "Напитки", name_ky: "Суусундуктар", img: "src/assets/featured-drink.png" },
+];
+
+const drinkSizes: VariantGroupFixture = {
+  id: "size",
+  name: { en: "Size", ru: "Размер", ky: "Өлчөмү" },
+  defaultOptionId: "m",
+  options: [
+    { id: "s", name: { en: "Small, 300 ml", ru: "Маленький, 300 мл", ky: "Кичине, 300 мл" }, priceDelta: -40 },
+    { id: "m", name: { en: "Medium, 400 ml", ru: "Средний, 400 мл", ky: "Орто, 400 мл" }, priceDelta: 0 },
+    { id: "l", name: { en: "Large, 500 ml", ru: "Большой, 500 мл", ky: "Чоң, 500 мл" }, priceDelta: 60 },
+  ],
+};
+
+const withoutOnion: OptionFixture = { id: "no-onion", name: { en: "No onions", ru: "Без лука", ky: "Пиязсыз" }, priceDelta: 0 };
+
+export const items: MenuItemFixture[] = [
+  {
+    id: 101,
+    categoryId: 1,
+    title: { en: "Classic Omelette", ru: "Классический омлет", ky: "Классикалык омлет" },
+    description: { en: "Three eggs, fluffy and golden", ru: "Пышный омлет из трёх яиц", ky: "Үч жумуртка, жумшак омлет" },
+    ingredients: { en: "Eggs, milk, butter, herbs", ru: "Яйца, молоко, сливочное масло, зелень", ky: "Жумуртка, сүт, май, жашылча" },
+    price: 320,
+    img: "src/assets/cat1.jpg",
+    popularity: 140,
+    createdAt: "2024-03-01",
+    tags: ["vegetarian", "gluten_free", "halal"],
+    allergens: ["eggs", "dairy"],
+  },
+  {
+    id: 102,
+    categoryId: 1,
+    title: { en: "Syrniki", ru: "Сырники", ky: "Сырники" },
+    description: { en: "Cottage cheese pancakes with sour cream", ru: "Сырники со сметаной", ky: "Каймак менен сырники" },
+    ingredients: { en: "Cottage cheese, eggs, flour, sour cream", ru: "Творог, яйца, мука, сметана", ky: "Сүзмө, жумуртка, ун, каймак" },
+    price: 380,
+    img: "src/assets/cat1.jpg",
+    popularity: 210,
+    createdAt: "2024-03-01",
+    tags: ["vegetarian"],
+    allergens: ["dairy", "eggs", "gluten"],
+  },
+  {
+    id: 103,
+    categoryId: 1,
+    title: { en: "Oatmeal with Berries", ru: "Овсянка с ягодами", ky: "Жемиштүү сулу ботко" },
+    description: { en: "Warm oatmeal topped with seasonal berries", ru: "Тёплая овсянка с сезонными ягодами", ky: "Мезгилдик жемиштер менен жылуу ботко" },
+    ingredients: { en: "Oats, milk, berries, honey", ru: "Овсяные хлопья, молоко, ягоды, мёд", ky: "Сулу, сүт, жемиштер, бал" },
+    price: 290,
+    img: "src/assets/cat1.jpg",
+    popularity: 65,
+    createdAt: "2025-02-10",
+    tags: ["vegetarian"],
+    allergens: ["gluten", "dairy"],
+  },
+  {
+    id: 201,
+    categoryId: 2,
+    title: { en: "Lagman Soup", ru: "Суп лагман", ky: "Шорпо лагман" },
+    description: { en: "Hand-pulled noodles in a rich beef broth", ru: "Тянутая лапша в наваристом говяжьем бульоне", ky: "Уй этинин шорпосундагы чоймо кесме" },
+    ingredients: { en: "Noodles, beef, peppers, tomatoes", ru: "Лапша, говядина, перец, томаты", ky: "Кесме, уй эти, калемпир, помидор" },
+    price: 420,
+    img: "src/assets/cat2.jpg",
+    popularity: 260,
+    createdAt: "2024-03-01",
+    tags: ["halal"],
+    spiciness: 2,
+    allergens: ["gluten"],
+  },
+  {
+    id: 202,
+    categoryId: 2,
+    title: { en: "Chicken Noodle Soup", ru: "Куриный суп с лапшой", ky: "Тоок шорпо" },
+    description: { en: "Light broth with chicken and homemade noodles", ru: "Лёгкий бульон с курицей и домашней лапшой", ky: "Тоок эти жана үй кесмеси менен жеңил шорпо" },
+    ingredients: { en: "Chicken, noodles, carrots, dill", ru: "Курица, лапша, морковь, укроп", ky: "Тоок, кесме, сабиз, укроп" },
+    price: 350,
+    img: "src/assets/cat2.jpg",
+    popularity: 120,
+    createdAt: "2024-09-15",
+    tags: ["halal"],
+    allergens: ["gluten"],
+  },
+  {
+    id: 301,
+    categoryId: 3,
+    title: { en: "Plov", ru: "Плов", ky: "Палоо" },
+    description: { en: "Slow-cooked rice with lamb and carrots", ru: "Рис с бараниной и морковью, томлёный в казане", ky: "Казанда бышкан кой эти жана сабиз кошулган күрүч" },
+    ingredients: { en: "Rice, lamb, carrots, garlic, cumin", ru: "Рис, баранина, морковь, чеснок, зира", ky: "Күрүч, кой эти, сабиз, сарымсак, зира" },
+    price: 480,
+    img: "src/assets/cat3.jpg",
+    popularity: 320,
+    createdAt: "2024-03-01",
+    tags: ["halal", "gluten_free"],
+    allergens: [],
+  },
+  {
+    id: 302,
+    categoryId: 3,
+    title: { en: "Beef Steak", ru: "Говяжий стейк", ky: "Уй этинен стейк" },
+    description: { en: "Grilled to order with roasted vegetables", ru: "Стейк на гриле с запечёнными овощами", ky: "Бышырылган жашылчалар менен гриль стейк" },
+    ingredients: { en: "Beef, potatoes, peppers, sauce", ru: "Говядина, картофель, перец, соус", ky: "Уй эти, картошка, калемпир, соус" },
+    price: 890,
+    img: "src/assets/cat3.jpg",
+    popularity: 90,
+    createdAt: "2025-06-20",
+    tags: ["halal", "gluten_free"],
+    spiciness: 1,
+    allergens: [],
+    modifiers: [
+      {
+        id: "sauce",
+        name: { en: "Sauce", ru: "Соус", ky: "Соус" },
+        min: 1,
+        max: 1,
+        options: [
+          { id: "tomato", name: { en: "Tomato", ru: "Томатный", ky: "Помидор" }, priceDelta: 0 },
+          { id: "garlic", name: { en: "Garlic", ru: "Чесночный", ky: "Сарымсак" }, priceDelta: 0 },
+          { id: "chili", name: { en: "Chili", ru: "Острый чили", ky: "Ачуу чили" }, priceDelta: 20 },
+        ],
+      },
+      {
+        id: "remove",
+        name: { en: "Leave out", ru: "Убрать", ky: "Алып салуу" },
+        min: 0,
+        max: 2,
+        options: [
+          withoutOnion,
+          { id: "no-pepper", name: { en: "No peppers", ru: "Без перца", ky: "Калемпирсиз" }, priceDelta: 0 },
+        ],
+      },
+    ],
+  },
+  {
+    id: 303,
+    categoryId: 3,
+    title: { en: "Manty", ru: "Манты", ky: "Манты" },
+    description: { en: "Steamed dumplings with minced meat and onion", ru: "Манты на пару с рубленым мясом и луком", ky: "Буга бышкан эт жана пияз салынган манты" },
+    ingredients: { en: "Dough, beef, onion, butter", ru: "Тесто, говядина, лук, масло", ky: "Камыр, уй эти, пияз, май" },
+    price: 450,
+    img: "src/assets/cat3.jpg",
+    popularity: 180,
+    createdAt: "2024-11-05",
+    tags: ["halal"],
+    allergens: ["gluten", "dairy"],
+    modifiers: [
+      {
+        id: "remove",
+        name: { en: "Leave out", ru: "Убрать", ky: "Алып салуу" },
+        min: 0,
+        max: 1,
+        options: [withoutOnion],
+      },
+    ],
+  },
+  {
+    id: 401,
+    categoryId: 4,
+    title: { en: "Carbonara", ru: "Карбонара", ky: "Карбонара" },
+    description: { en: "Spaghetti with creamy egg sauce and bacon", ru: "Спагетти со сливочно-яичным соусом и беконом", ky: "Каймак-жумуртка соусу жана бекон менен спагетти" },
+    ingredients: { en: "Spaghetti, bacon, eggs, parmesan", ru: "Спагетти, бекон, яйца, пармезан", ky: "Спагетти, бекон, жумуртка, пармезан" },
+    price: 560,
+    img: "src/assets/cat4.jpg",
+    popularity: 150,
+    createdAt: "2024-05-12",
+    tags: [],
+    allergens: ["gluten", "eggs", "dairy"],
+    modifiers: [
+      {
+        id: "extras",
+        name: { en: "Extras", ru: "Добавки", ky: "Кошумчалар" },
+        min: 0,
+        max: 3,
+        options: [
+          { id: "cheese", name: { en: "Extra parmesan", ru: "Больше пармезана", ky: "Кошумча пармезан" }, priceDelta: 60 },
+          { id: "bacon", name: { en: "Extra bacon", ru: "Больше бекона", ky: "Кошумча бекон" }, priceDelta: 90 },
+          { id: "mushrooms", name: { en: "Mushrooms", ru: "Грибы", ky: "Козу карын" }, priceDelta: 50 },
+        ],
+      },
+    ],
+  },
+  {
+    id: 402,
+    categoryId: 4,
+    title: { en: "Mushroom Risotto", ru: "Ризотто с грибами", ky: "Козу карындуу ризотто" },
+    description: { en: "Creamy arborio rice with porcini", ru: "Сливочный рис арборио с белыми грибами", ky: "Ак козу карын менен каймактуу арборио күрүчү" },
+    ingredients: { en: "Arborio rice, mushrooms, cream, parmesan", ru: "Рис арборио, грибы, сливки, пармезан", ky: "Арборио күрүчү, козу карын, каймак, пармезан" },
+    price: 590,
+    img: "src/assets/cat4.jpg",
+    popularity: 75,
+    createdAt: "2025-08-01",
+    tags: ["vegetarian", "gluten_free"],
+    allergens: ["dairy"],
+  },
+  {
+    id: 501,
+    categoryId: 5,
+    title: { en: "Apple Lemonade", ru: "Яблочный лимонад", ky: "Алма лимонады" },
+    description: { en: "House lemonade with fresh apple", ru: "Домашний лимонад со свежим яблоком", ky: "Жаңы алма кошулган үй лимонады" },
+    ingredients: { en: "Apple, lemon, mint, soda", ru: "Яблоко, лимон, мята, содовая", ky: "Алма, лимон, жалбыз, газдалган суу" },
+    price: 220,
+    img: "src/assets/featured-drink.png",
+    popularity: 110,
+    createdAt: "2025-05-18",
+    tags: ["vegan", "gluten_free", "halal"],
+    allergens: [],
+    variants: [drinkSizes],
+    modifiers: [
+      {
+        id: "ice",
+        name: { en: "Ice", ru: "Лёд", ky: "Муз" },
+        min: 0,
+        max: 1,
+        options: [{ id: "no-ice", name: { en: "No ice", ru: "Без льда", ky: "Муз салбаңыз" }, priceDelta: 0 }],
+      },
+    ],
+  },
+  {
+    id: 502,
+    categoryId: 5,
+    title: { en: "Black Tea", ru: "Чёрный чай", ky: "Кара чай" },
+    description: { en: "A pot of black tea with lemon", ru: "Чайник чёрного чая с лимоном", ky: "Лимон менен бир чайнек кара чай" },
+    ingredients: { en: "Black tea, lemon, sugar", ru: "Чёрный чай, лимон, сахар", ky: "Кара чай, лимон, кант" },
+    price: 150,
+    img: "src/assets/featured-drink.png",
+    popularity: 200,
+    createdAt: "2024-03-01",
+    tags: ["vegan", "gluten_free", "halal"],
+    allergens: [],
+    variants: [drinkSizes],
+    modifiers: [
+      {
+        id: "extras",
+        name: { en: "Add to tea", ru: "Добавить в чай", ky: "Чайга кошуу" },
+        min: 0,
+        max: 2,
+        options: [
+          { id: "milk", name: { en: "Milk", ru: "Молоко", ky: "Сүт" }, priceDelta: 20 },
+          { id: "honey", name: { en: "Honey", ru: "Мёд", ky: "Бал" }, priceDelta: 40 },
+        ],
+      },
+    ],
+  },
+];
+
+export const banners: Banner[] = [
+  { id: 1, img: "src/assets/banner1.jpg", title: "Giraffe Jump" },
+  { id: 2, img: "src/assets/banner2.jpg", title: "Fruit Cakes" },
+  { id: 3, img: "src/assets/banner3.jpg", title: "Order Now" },
+];
+
+// One riddle per day, rotating by day number
+export const riddles: RiddleFixture[] = [
+  {
+    question: {
+      en: "What has keys but can't open locks?",
+      ru: "У чего есть клавиши, но нет ни одного замка?",
+      ky: "Ачкычтары бар, бирок бир да кулпуну ачпайт. Бул эмне?",
+    },
+    answer: { en: "PIANO", ru: "РОЯЛЬ", ky: "ПИАНИНО" },
+  },
+  {
+    question: {
+      en: "The more you take, the more you leave behind. What are they?",
+      ru: "Чем больше их делаешь, тем больше оставляешь позади. Что это?",
+      ky: "Канчалык көп алсаң, ошончолук көп артта калтырасың. Бул эмне?",
+    },
+    answer: { en: "STEPS", ru: "ШАГИ", ky: "КАДАМ" },
+  },
+  {
+    question: {
+      en: "What gets wetter the more it dries?",
+      ru: "Что становится мокрее, чем больше сушит?",
+      ky: "Кургаткан сайын өзү нымдала берет. Бул эмне?",
+    },
+    answer: { en: "TOWEL", ru: "ПОЛОТЕНЦЕ", ky: "СУЛГУ" },
+  },
+];
+
+export const RIDDLE_MAX_ATTEMPTS = 3;
+
+export const users: UserFixture[] = [
+  { username: "demo", email: "demo@example.com", password: "demo1234" },
+];
@@ -0,0 +1,827 @@
+// src/api/mock/server.ts
+// In-browser mock backend. When VITE_USE_MOCKS is set the API client calls
+// mockFetch instead of window.fetch, so the app runs without a real server.
+import type {
+  AuthResponse,
+  DailyRiddle,
+  Item,
+  JumpRunResult,
+  JumpRunStart,
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  LoyaltyWallet,
+  Order,
+  OrderLine,
+  OrderStatus,
+  OrderType,
+  RiddleSolveResult,
+} from "../../types";
+import { DEFAULT_LANG, isLang, type Lang } from "../../i18n";
+import {
+  WALLET_CONFIG,
+  applyExpiry,
+  earnPercent,
+  earnPoints,
+  emptyWallet,
+  foldClaim,
+  spendDiscount,
+} from "../../utils/loyaltyWallet";
+import { MAX_DISCOUNT_PERCENT, priceOrder, toActiveDiscount } from "../../utils/pricing";
+import { chosenOptions, defaultSelection, hasOptions, isOffered, unitPrice } from "../../utils/itemOptions";
+import { normalizeTableId } from "../../utils/tableSession";
+import { asapAvailable, isValidSlot } from "../../utils/openingHours";
+import { verifyReplay } from "../../utils/jumpReplay";
+import { setPassword, verifyAndUpgrade, type StoredCredentials } from "../../auth/passwordHash";
+import { API_CONFIG } from "../client";
+import { isSelection, isWalletClaim } from "../validate";
+import {
+  banners,
+  categories,
+  items,
+  riddles,
+  users as seedUsers,
+  RIDDLE_MAX_ATTEMPTS,
+  type MenuItemFixture,
+  type ModifierGroupFixture,
+  type VariantGroupFixture,
+} from "./fixtures";
+
+export type MockRequest = {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+  authorization: string | null;
+  idempotencyKey: string | null;
+};
+
+export type MockResponse = {
+  status: number;
+  body?: unknown;
+};
+
+type Handler = (req: MockRequest, params: Record<string, string>) => MockResponse | Promise<MockResponse>;
+
+// Status is worked out from the order's age when it is read, see orderStatus.
+// Orders saved before checkout existed have no type.
+type StoredOrder = Omit<Order, "status" | "type"> & { type?: OrderType };
+
+// Verified Giraffe Jump results. Only the last week of runs is kept; the
+// all-time board needs nothing but the best.
+type JumpRecord = {
+  username: string;
+  best: number;
+  bestAt: string;
+  runs: Array<{ score: number; at: string }>;
+};
+
+// A seed handed out for a run that has not been submitted yet
+type IssuedSeed = { seed: number; issuedAt: number };
+
+// A player's guesses at one day's riddle
+type RiddleAttempts = { date: string; used: number; solved: boolean };
+
+// Seed users arrive with a clear-text password and are hashed on first login
+type MockUser = { username: string; email: string } & StoredCredentials;
+
+type MockDb = {
+  users: MockUser[];
+  solvedRiddles: Record<string, true>; // by date
+  riddleAttempts: Record<string, RiddleAttempts>; // lowercased username, today's riddle only
+  refreshTokens: Record<string, string>; // token -> username
+  resetTokens: Record<string, { username: string; expiresAt: number }>;
+  favorites: Record<string, string[]>; // lowercased username -> item ids
+  orders: Record<string, StoredOrder[]>; // lowercased username (or GUEST) -> orders, newest first
+  idempotency: Record<string, { orderId: string; fingerprint: string; at: number }>; // "owner:key"
+  jumpRunSeeds: Record<string, IssuedSeed[]>; // lowercased username -> unused seeds, oldest first
+  jumpScores: Record<string, JumpRecord>; // lowercased username
+  wallets: Record<string, LoyaltyWallet>; // lowercased username
+  walletMigrations: Record<string, string>; // lowercased username -> when its device balance was taken
+};
+
+const DB_KEY = "menu_frontend_mock_db_v1";
+const FAVORITES_LIMIT = 200;
+const ORDERS_LIMIT = 50;
+const ORDER_MAX_QUANTITY = 99;
+const ORDER_TYPES: OrderType[] = ["dine_in", "takeaway", "delivery"];
+const ORDER_NOTES_MAX = 300;
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+const JUMP_OPEN_RUNS_LIMIT = 20; // unused seeds kept per player; older ones lapse
+const JUMP_SEED_TTL_MS = 24 * 60 * 60 * 1000;
+const JUMP_RUNS_DAYS = 8; // a week plus a day of slack for time zones
+const LEADERBOARD_SIZE = 10;
+const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ["all", "week", "today"];
+const GUEST = "*guest"; // "*" can't appear in a username
+
+export const MOCK_CONFIG = {
+  latencyMs: Number(import.meta.env.VITE_MOCK_LATENCY_MS) || 250,
+  accessTokenTtlSeconds: 15 * 60,
+  resetTokenTtlSeconds: 30 * 60,
+};
+
+const emptyDb = (): MockDb => ({
+  users: seedUsers.map(u => ({ ...u })),
+  solvedRiddles: {},
+  riddleAttempts: {},
+  refreshTokens: {},
+  resetTokens: {},
+  favorites: {},
+  orders: {},
+  idempotency: {},
+  jumpRunSeeds: {},
+  jumpScores: {},
+  wallets: {},
+  walletMigrations: {},
+});
+
+function loadDb(): MockDb {
+  try {
+    const raw = localStorage.getItem(DB_KEY);
+    if (raw) return { ...emptyDb(), ...JSON.parse(raw) as Partial<MockDb> };
+  } catch {
+    // corrupted db; start from the fixtures
+  }
+  return emptyDb();
+}
+
+function saveDb(db: MockDb) {
+  localStorage.setItem(DB_KEY, JSON.stringify(db));
+}
+
+export function resetMockDb() {
+  localStorage.removeItem(DB_KEY);
+}
+
+const ok = (body: unknown): MockResponse => ({ status: 200, body });
+const fail = (status: number, message: string, code?: string): MockResponse => ({ status, body: { message, code } });
+
+const langOf = (req: MockRequest): Lang => {
+  const lang = req.query.get("lang");
+  return isLang(lang) ? lang : DEFAULT_LANG;
+};
+
+function localizeGroup<G extends VariantGroupFixture | ModifierGroupFixture>(group: G, lang: Lang) {
+  return {
+    ...group,
+    name: group.name[lang],
+    options: group.options.map(option => ({ ...option, name: option.name[lang] })),
+  };
+}
+
+const localizeItem = (item: MenuItemFixture, lang: Lang): Item => ({
+  id: item.id,
+  title: item.title[lang],
+  description: item.description[lang],
+  ingredients: item.ingredients[lang],
+  price: item.price,
+  img: item.img,
+  popularity: item.popularity,
+  createdAt: item.createdAt,
+  tags: item.tags,
+  spiciness: item.spiciness,
+  allergens: item.allergens,
+  variants: item.variants?.map(group => localizeGroup(group, lang)),
+  modifiers: item.modifiers?.map(group => localizeGroup(group, lang)),
+});
+
+// Raw string field from a JSON body; passwords must not be trimmed, so callers trim names themselves
+const field = (body: unknown, name: string): string => {
+  const value = (body as Record<string, unknown> | null)?.[name];
+  return typeof value === "string" ? value : "";
+};
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Access tokens are self-describing ("mock-access.<user>.<expiresAt>") so they need no storage;
+// refresh tokens are opaque and rotate on every use.
+function issueTokens(db: MockDb, user: MockUser): AuthResponse {
+  const ttl = MOCK_CONFIG.accessTokenTtlSeconds;
+  const refreshToken = `mock-refresh.${crypto.randomUUID()}`;
+  db.refreshTokens[refreshToken] = user.username;
+  saveDb(db);
+  return {
+    user: { username: user.username, email: user.email },
+    accessToken: `mock-access.${btoa(encodeURIComponent(user.username))}.${Date.now() + ttl * 1000}`,
+    refreshToken,
+    expiresIn: ttl,
+  };
+}
+
+// User behind a valid, unexpired bearer token, or undefined
+function authenticate(req: MockRequest, db: MockDb = loadDb()): MockUser | undefined {
+  const [, payload, expiresAt] = req.authorization?.match(/^Bearer mock-access\.([^.]+)\.(\d+)$/) ?? [];
+  if (!payload || Number(expiresAt) <= Date.now()) return undefined;
+  const username = decodeURIComponent(atob(payload));
+  return db.users.find(u => u.username === username);
+}
+
+const unauthorized = () => fail(401, "Not signed in or token expired");
+const wrongPassword = () => fail(403, "Current password is incorrect", "invalid_credentials");
+
+// The kitchen is simulated: an order moves along with the clock
+const ORDER_TIMELINE: Array<[afterMinutes: number, status: OrderStatus]> = [
+  [25, "completed"],
+  [15, "ready"],
+  [2, "preparing"],
+];
+
+function orderStatus(order: StoredOrder, now = Date.now()): OrderStatus {
+  const minutes = (now - Date.parse(order.placedAt)) / 60_000;
+  return ORDER_TIMELINE.find(([after]) => minutes >= after)?.[1] ?? "placed";
+}
+
+const withStatus = (order: StoredOrder): Order => ({
+  ...order,
+  type: order.type ?? (order.tableId ? "dine_in" : "takeaway"),
+  status: orderStatus(order),
+});
+
+function pruneIdempotency(db: MockDb, now = Date.now()) {
+  for (const [key, entry] of Object.entries(db.idempotency)) {
+    if (now - entry.at > IDEMPOTENCY_TTL_MS) delete db.idempotency[key];
+  }
+}
+
+// An order line built from the menu: the client only names the item, its
+// options and how many. Title, option names and price are looked up here, so
+// nothing the client says about money is used. Null when the line is malformed
+// or the item or one of the options is not on the menu.
+function orderLine(value: unknown, lang: Lang): OrderLine | null {
+  const line = value as Partial<OrderLine> | null;
+  if (!line || (typeof line.itemId !== "string" && typeof line.itemId !== "number")) return null;
+  if (!Number.isInteger(line.quantity) || line.quantity! < 1 || line.quantity! > ORDER_MAX_QUANTITY) return null;
+  const fixture = items.find(item => String(item.id) === String(line.itemId));
+  if (!fixture) return null;
+
+  const item = localizeItem(fixture, lang);
+  const selection = line.selection ?? defaultSelection(item);
+  if (!isSelection(selection) || !isOffered(item, selection)) return null;
+  const price = unitPrice(item, selection);
+  if (price <= 0) return null; // unpriced dishes can't be ordered from the menu either
+  const options = chosenOptions(item, selection).map(option => option.name);
+  return {
+    itemId: item.id,
+    title: item.title,
+    price,
+    quantity: line.quantity!,
+    ...(options.length > 0 && { options }),
+    ...(hasOptions(item) && { selection }),
+  };
+}
+
+type NewOrderDetails = Pick<Order, "lines" | "discountPercent" | "type" | "scheduledFor" | "tableId" | "contact" | "notes">;
+
+// The checked parts of a POST /orders body, or what is wrong with it
+function newOrderDetails(value: unknown, lang: Lang): NewOrderDetails | string {
+  const body = (value ?? {}) as Record<string, unknown>;
+  const raw: unknown[] = Array.isArray(body.lines) ? body.lines : [];
+  const lines = raw.map(line => orderLine(line, lang)).filter((line): line is OrderLine => line !== null);
+  if (lines.length === 0 || lines.length !== raw.length) return "An order needs at least one line, each an item and options from the menu";
+
+  const discountPercent = Number(body.discountPercent ?? 0);
+  if (!(discountPercent >= 0 && discountPercent <= MAX_DISCOUNT_PERCENT)) return "discountPercent is out of range";
+
+  const type = body.type as OrderType;
+  if (!ORDER_TYPES.includes(type)) return "type must be dine_in, takeaway or delivery";
+  const tableId = type === "dine_in" ? normalizeTableId(String(body.tableId ?? "")) : null;
+  if (type === "dine_in" && !tableId) return "Dine-in orders need a valid tableId";
+
+  const scheduledFor = typeof body.scheduledFor === "string" ? body.scheduledFor : undefined;
+  if (scheduledFor !== undefined && Number.isNaN(Date.parse(scheduledFor))) return "scheduledFor is not a date";
+
+  const contact = (body.contact ?? {}) as Record<string, unknown>;
+  const name = field(contact, "name").trim();
+  const phone = field(contact, "phone").trim();
+  const email = field(contact, "email").trim();
+  const address = field(contact, "address").trim();
+  if (!name || !phone) return "contact.name and contact.phone are required";
+  if (type === "delivery" && !address) return "Delivery orders need contact.address";
+  const notes = field(body, "notes").trim().slice(0, ORDER_NOTES_MAX);
+
+  return {
+    lines,
+    discountPercent,
+    type,
+    ...(scheduledFor && { scheduledFor }),
+    ...(tableId && { tableId }),
+    contact: { name, phone, ...(email && { email }), ...(type === "delivery" && { address }) },
+    ...(notes && { notes }),
+  };
+}
+
+// Local calendar date, so the riddle rolls over at the user's midnight
+function today(now = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+function riddleFor(date: string) {
+  const day = Math.floor(Date.parse(`${date}T00:00:00Z`) / 86_400_000);
+  return riddles[day % riddles.length];
+}
+
+// Yesterday's record counts as no guesses yet
+function riddleAttemptsOf(db: MockDb, username: string, date: string): RiddleAttempts {
+  const attempts = db.riddleAttempts[username.toLowerCase()];
+  return attempts?.date === date ? attempts : { date, used: 0, solved: false };
+}
+
+const sameGuess = (guess: string, answer: string) =>
+  guess.trim().toLocaleUpperCase() === answer.toLocaleUpperCase();
+
+// Local midnight today, or on the Monday of this week
+function periodStart(period: Exclude<LeaderboardPeriod, "all">, now = new Date()): number {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  if (period === "week") start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start.getTime();
+}
+
+function recordJumpScore(db: MockDb, user: MockUser, score: number): JumpRecord {
+  const key = user.username.toLowerCase();
+  const now = new Date();
+  const cutoff = now.getTime() - JUMP_RUNS_DAYS * 86_400_000;
+  const previous = db.jumpScores[key];
+  const record: JumpRecord = {
+    username: user.username,
+    best: Math.max(previous?.best ?? 0, score),
+    bestAt: previous && previous.best >= score ? previous.bestAt : now.toISOString(),
+    runs: [...(previous?.runs ?? []).filter(run => Date.parse(run.at) >= cutoff), { score, at: now.toISOString() }],
+  };
+  db.jumpScores[key] = record;
+  return record;
+}
+
+// The user's wallet with any expiry applied; changes are kept once the db is saved
+function walletOf(db: MockDb, user: MockUser): LoyaltyWallet {
+  const key = user.username.toLowerCase();
+  const wallet = applyExpiry(db.wallets[key] ?? emptyWallet(user.username));
+  db.wallets[key] = wallet;
+  return wallet;
+}
+
+function updateWallet(db: MockDb, user: MockUser, fn: (wallet: LoyaltyWallet) => LoyaltyWallet): LoyaltyWallet {
+  const wallet = fn(walletOf(db, user));
+  db.wallets[user.username.toLowerCase()] = wallet;
+  return wallet;
+}
+
+function issueJumpSeed(db: MockDb, user: MockUser, now = Date.now()): number {
+  const key = user.username.toLowerCase();
+  const seed = crypto.getRandomValues(new Uint32Array(1))[0];
+  const open = (db.jumpRunSeeds[key] ?? []).filter(entry => now - entry.issuedAt <= JUMP_SEED_TTL_MS);
+  db.jumpRunSeeds[key] = [...open, { seed, issuedAt: now }].slice(-JUMP_OPEN_RUNS_LIMIT);
+  return seed;
+}
+
+// Whether the seed was handed to this user and is still open. Either way it
+// is used up: a seed gets exactly one submission.
+function takeJumpSeed(db: MockDb, user: MockUser, seed: unknown, now = Date.now()): boolean {
+  const key = user.username.toLowerCase();
+  const open = db.jumpRunSeeds[key] ?? [];
+  const entry = open.find(e => e.seed === seed);
+  db.jumpRunSeeds[key] = open.filter(e => e !== entry);
+  return entry !== undefined && now - entry.issuedAt <= JUMP_SEED_TTL_MS;
+}
+
+// Best score per player in the period; equal scores share a rank
+function leaderboard(db: MockDb, period: LeaderboardPeriod, viewer?: MockUser): Leaderboard {
+  const since = period === "all" ? null : periodStart(period);
+  const rows = Object.values(db.jumpScores)
+    .map(record => {
+      if (since === null) return { username: record.username, score: record.best, at: record.bestAt };
+      const runs = record.runs.filter(run => Date.parse(run.at) >= since);
+      const top = runs.reduce<JumpRecord["runs"][number] | null>((best, run) => (!best || run.score > best.score ? run : best), null);
+      return top && { username: record.username, score: top.score, at: top.at };
+    })
+    .filter((row): row is { username: string; score: number; at: string } => row !== null && row.score > 0)
+    .sort((a, b) => b.score - a.score || a.at.localeCompare(b.at));
+
+  const entries: LeaderboardEntry[] = rows.map(row => ({
+    rank: 1 + rows.filter(other => other.score > row.score).length,
+    username: row.username,
+    score: row.score,
+  }));
+  return {
+    period,
+    entries: entries.slice(0, LEADERBOARD_SIZE),
+    me: (viewer && entries.find(entry => sameName(entry.username, viewer.username))) ?? null,
+    personalBest: viewer ? db.jumpScores[viewer.username.toLowerCase()]?.best ?? 0 : 0,
+  };
+}
+
+const routes: Array<[method: string, pattern: string, handler: Handler]> = [
+  ["GET", "/categories", () => ok(categories)],
+
+  ["GET", "/items/:categoryId", (req, { categoryId }) => {
+    if (!categories.some(c => String(c.id) === categoryId)) return fail(404, "Category not found");
+    const lang = langOf(req);
+    const localized: Item[] = items
+      .filter(item => String(item.categoryId) === categoryId)
+      .map(item => localizeItem(item, lang));
+    return ok(localized);
+  }],
+
+  ["GET", "/banners", () => ok(banners)],
+
+  ["POST", "/auth/login", async req => {
+    const login = field(req.body, "usernameOrEmail").trim();
+    const db = loadDb();
+    const user = db.users.find(u => sameName(u.username, login) || sameName(u.email, login));
+    if (!user || !await verifyAndUpgrade(user, field(req.body, "password"))) {
+      return fail(401, "Invalid username or password", "invalid_credentials");
+    }
+    return ok(issueTokens(db, user));
+  }],
+
+  ["POST", "/auth/signup", async req => {
+    const user: MockUser = {
+      username: field(req.body, "username").trim(),
+      email: field(req.body, "email").trim(),
+    };
+    const password = field(req.body, "password");
+    if (!user.username || !user.email || !password) return fail(400, "All fields are required");
+
+    const db = loadDb();
+    if (db.users.some(u => sameName(u.email, user.email))) {
+      return fail(409, "Email already in use", "email_taken");
+    }
+    if (db.users.some(u => sameName(u.username, user.username))) {
+      return fail(409, "Username already taken", "username_taken");
+    }
+
+    await setPassword(user, password);
+    db.users.push(user);
+    return { status: 201, body: issueTokens(db, user) };
+  }],
+
+  ["POST", "/auth/refresh", req => {
+    const db = loadDb();
+    const token = field(req.body, "refreshToken");
+    const user = db.users.find(u => u.username === db.refreshTokens[token]);
+    delete db.refreshTokens[token];
+    if (!user) {
+      saveDb(db);
+      return fail(401, "Refresh token is invalid or expired", "session_expired");
+    }
+    return ok(issueTokens(db, user));
+  }],
+
+  ["POST", "/auth/logout", req => {
+    const db = loadDb();
+    delete db.refreshTokens[field(req.body, "refreshToken")];
+    saveDb(db);
+    return { status: 204 };
+  }],
+
+  ["POST", "/auth/password", async req => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (!user) return unauthorized();
+    if (!await verifyAndUpgrade(user, field(req.body, "currentPassword"))) return wrongPassword();
+    const newPassword = field(req.body, "newPassword");
+    if (!newPassword) return fail(400, "New password is required");
+    await setPassword(user, newPassword);
+    saveDb(db);
+    return { status: 204 };
+  }],
+
+  ["POST", "/auth/email", async req => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (!user) return unauthorized();
+    if (!await verifyAndUpgrade(user, field(req.body, "password"))) return wrongPassword();
+    const email = field(req.body, "email").trim();
+    if (!email) return fail(400, "Email is required");
+    if (db.users.some(u => u !== user && sameName(u.email, email))) {
+      return fail(409, "Email already in use", "email_taken");
+    }
+    user.email = email;
+    saveDb(db);
+    return ok({ user: { username: user.username, email: user.email } });
+  }],
+
+  ["DELETE", "/auth/account", async req => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (!user) return unauthorized();
+    if (!await verifyAndUpgrade(user, field(req.body, "password"))) return wrongPassword();
+    db.users = db.users.filter(u => u !== user);
+    delete db.favorites[user.username.toLowerCase()];
+    delete db.orders[user.username.toLowerCase()];
+    delete db.jumpRunSeeds[user.username.toLowerCase()];
+    delete db.jumpScores[user.username.toLowerCase()];
+    delete db.wallets[user.username.toLowerCase()];
+    delete db.walletMigrations[user.username.toLowerCase()];
+    delete db.riddleAttempts[user.username.toLowerCase()];
+    for (const [token, username] of Object.entries(db.refreshTokens)) {
+      if (username === user.username) delete db.refreshTokens[token];
+    }
+    saveDb(db);
+    return { status: 204 };
+  }],
+
+  // There is no mail server, so the token comes back in the response for the UI to show.
+  // That tells registered emails apart from unknown ones (token vs. empty body),
+  // which is acceptable for mocks only; a real backend must answer identically.
+  ["POST", "/auth/forgot", req => {
+    const db = loadDb();
+    const user = db.users.find(u => sameName(u.email, field(req.body, "email").trim()));
+    if (!user) return { status: 202, body: {} };
+    const resetToken = `mock-reset.${crypto.randomUUID()}`;
+    db.resetTokens[resetToken] = {
+      username: user.username,
+      expiresAt: Date.now() + MOCK_CONFIG.resetTokenTtlSeconds * 1000,
+    };
+    saveDb(db);
+    return { status: 202, body: { resetToken } };
+  }],
+
+  ["POST", "/auth/reset", async req => {
+    const db = loadDb();
+    const token = field(req.body, "token");
+    const entry = db.resetTokens[token];
+    delete db.resetTokens[token];
+    const user = entry && entry.expiresAt > Date.now() && db.users.find(u => u.username === entry.username);
+    if (!user) {
+      saveDb(db);
+      return fail(400, "Reset link is invalid or has expired", "invalid_reset_token");
+    }
+    const password = field(req.body, "password");
+    if (!password) return fail(400, "Password is required");
+    await setPassword(user, password);
+    // signing out everywhere else is the point of a reset
+    for (const [refresh, username] of Object.entries(db.refreshTokens)) {
+      if (username === user.username) delete db.refreshTokens[refresh];
+    }
+    saveDb(db);
+    return { status: 204 };
+  }],
+
+  ["GET", "/riddle/today", req => {
+    const lang = langOf(req);
+    const date = today();
+    const riddle = riddleFor(date);
+    const db = loadDb();
+    const user = authenticate(req, db);
+    const attempts = user ? riddleAttemptsOf(db, user.username, date) : null;
+    const body: DailyRiddle = {
+      date,
+      question: riddle.question[lang],
+      answerLength: riddle.answer[lang].length,
+      maxAttempts: RIDDLE_MAX_ATTEMPTS,
+      attemptsLeft: attempts?.solved ? 0 : RIDDLE_MAX_ATTEMPTS - (attempts?.used ?? 0),
+      discountPercent: WALLET_CONFIG.guessPercent,
+      solvedToday: Boolean(db.solvedRiddles[date]),
+    };
+    return ok(body);
+  }],
+
+  ["GET", "/favorites", req => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (!user) return unauthorized();
+    return ok({ itemIds: db.favorites[user.username.toLowerCase()] ?? [] });
+  }],
+
+  ["PUT", "/favorites", req => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (!user) return unauthorized();
+    const ids = (req.body as { itemIds?: unknown } | null)?.itemIds;
+    if (!Array.isArray(ids) || !ids.every(id => typeof id === "string")) return fail(400, "itemIds must be a list of strings");
+    const itemIds = [...new Set(ids)].slice(0, FAVORITES_LIMIT);
+    db.favorites[user.username.toLowerCase()] = itemIds;
+    saveDb(db);
+    return ok({ itemIds });
+  }],
+
+  ["GET", "/wallet", req => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (!user) return unauthorized();
+    const wallet = walletOf(db, user);
+    saveDb(db);
+    return ok(wallet);
+  }],
+
+  // Each account carries over a device balance once, capped by foldClaim
+  ["POST", "/wallet/migrate", req => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (!user) return unauthorized();
+    const key = user.username.toLowerCase();
+    if (db.walletMigrations[key]) {
+      return fail(409, "This account has already carried over a balance", "wallet_migrated");
+    }
+    if (!isWalletClaim(req.body)) return fail(400, "points, percent and expiresAt are required");
+    const claim = req.body;
+    const wallet = updateWallet(db, user, w => foldClaim(w, claim));
+    db.walletMigrations[key] = new Date().toISOString();
+    saveDb(db);
+    return ok(wallet);
+  }],
+
+  ["GET", "/orders", req => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (!user) return unauthorized();
+    return ok((db.orders[user.username.toLowerCase()] ?? []).map(withStatus));
+  }],
+
+  ["GET", "/orders/:id", (req, { id }) => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (!user) return unauthorized();
+    const order = db.orders[user.username.toLowerCase()]?.find(o => o.id === id);
+    return order ? ok(withStatus(order)) : fail(404, "Order not found", "order_not_found");
+  }],
+
+  // Guests may order too; their orders are kept but there is no history to read them back
+  ["POST", "/orders", req => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (req.authorization && !user) return unauthorized();
+    const owner = user ? user.username.toLowerCase() : GUEST;
+    const key = req.idempotencyKey?.trim();
+    if (!key) return fail(400, "Idempotency-Key header is required", "idempotency_key_missing");
+
+    pruneIdempotency(db);
+    const fingerprint = JSON.stringify(req.body);
+    const previous = db.idempotency[`${owner}:${key}`];
+    if (previous) {
+      if (previous.fingerprint !== fingerprint) {
+        return fail(422, "Idempotency-Key was already used for a different order", "idempotency_key_reused");
+      }
+      const order = db.orders[owner]?.find(o => o.id === previous.orderId);
+      if (order) return ok(withStatus(order));
+    }
+
+    const details = newOrderDetails(req.body, langOf(req));
+    if (typeof details === "string") return fail(400, details);
+    const reviewedTotal = (req.body as { total?: unknown }).total;
+    if (typeof reviewedTotal !== "number") return fail(400, "total is required");
+    if (details.scheduledFor === undefined && !asapAvailable(details.type)) {
+      return fail(409, "The kitchen is closed; pick a time slot", "kitchen_closed");
+    }
+    if (details.scheduledFor !== undefined && !isValidSlot(details.type, new Date(details.scheduledFor))) {
+      return fail(409, "That time slot is no longer available", "slot_unavailable");
+    }
+
+    // The discount is whatever the user's wallet holds, and only when they
+    // redeem it. It must be the one checkout showed, or the total would differ.
+    const discount = user && details.discountPercent > 0 ? toActiveDiscount(walletOf(db, user)) : null;
+    if (details.discountPercent !== (discount?.percent ?? 0)) {
+      return fail(409, "The discount is not in the wallet any more or has changed", "discount_unavailable");
+    }
+    const totals = priceOrder(details.lines.map(line => ({ ...line, id: line.itemId })), discount);
+    // Priced from the menu as it is now; the customer confirms a new total first
+    if (totals.total !== reviewedTotal) {
+      return fail(409, "Prices have changed since the order was reviewed", "price_changed");
+    }
+    const order: StoredOrder = {
+      ...details,
+      id: crypto.randomUUID(),
+      placedAt: new Date().toISOString(),
+      subtotal: totals.subtotal,
+      discountPercent: totals.discountPercent,
+      discountAmount: totals.discountAmount,
+      total: totals.total,
+    };
+    // Spent only now that the order is accepted, and all of it, so it can't be used twice
+    if (user && discount) updateWallet(db, user, spendDiscount);
+    db.orders[owner] = [order, ...db.orders[owner] ?? []].slice(0, ORDERS_LIMIT);
+    db.idempotency[`${owner}:${key}`] = { orderId: order.id, fingerprint, at: Date.now() };
+    saveDb(db);
+    return { status: 201, body: withStatus(order) };
+  }],
+
+  // Every ranked run starts here, so the seed of a submitted replay must be one we chose
+  ["POST", "/games/jump/runs/start", req => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (!user) return fail(401, "Sign in to play ranked runs");
+    const result: JumpRunStart = { seed: issueJumpSeed(db, user) };
+    saveDb(db);
+    return ok(result);
+  }],
+
+  // A Giraffe Jump score only counts once its replay plays out to it, on a seed
+  // this server issued and that was not submitted before
+  ["POST", "/games/jump/runs", req => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (!user) return fail(401, "Sign in to earn points");
+    const { score, replay } = (req.body ?? {}) as { score?: unknown; replay?: unknown };
+    if (!Number.isInteger(score)) return fail(400, "score must be an integer");
+
+    const issued = takeJumpSeed(db, user, (replay as { seed?: unknown } | null)?.seed);
+    saveDb(db);
+    if (!issued) return fail(409, "This run's seed was not issued or was already used", "replay_seed_unknown");
+
+    const verdict = verifyReplay(replay, score as number);
+    if (!verdict.ok) return fail(422, `Replay rejected: ${verdict.reason}`, "replay_rejected");
+
+    const record = recordJumpScore(db, user, verdict.score);
+    const wallet = updateWallet(db, user, w => earnPoints(w, verdict.score, "jump"));
+    saveDb(db);
+    const result: JumpRunResult = { score: verdict.score, personalBest: record.best, wallet };
+    return ok(result);
+  }],
+
+  ["GET", "/games/jump/leaderboard", req => {
+    const period = req.query.get("period") as LeaderboardPeriod;
+    if (!LEADERBOARD_PERIODS.includes(period)) return fail(400, "period must be all, week or today");
+    const db = loadDb();
+    return ok(leaderboard(db, period, authenticate(req, db)));
+  }],
+
+  ["POST", "/riddle/:date/solve", (req, { date }) => {
+    const db = loadDb();
+    const user = authenticate(req, db);
+    if (!user) return fail(401, "Sign in to guess the riddle");
+    if (date !== today()) return fail(409, "This riddle is no longer active");
+    const guess = field(req.body, "guess");
+    if (!guess.trim()) return fail(400, "guess is required");
+    const attempts = riddleAttemptsOf(db, user.username, date);
+    if (attempts.solved || attempts.used >= RIDDLE_MAX_ATTEMPTS) {
+      return fail(409, "You have already played today's riddle", "riddle_played");
+    }
+
+    const answer = riddleFor(date).answer[langOf(req)];
+    const correct = sameGuess(guess, answer);
+    const first = correct && !db.solvedRiddles[date];
+    const wallet = first
+      ? updateWallet(db, user, w => earnPercent(w, WALLET_CONFIG.guessPercent, "guess"))
+      : walletOf(db, user);
+    if (correct) db.solvedRiddles[date] = true;
+    const used = attempts.used + 1;
+    db.riddleAttempts[user.username.toLowerCase()] = { date, used, solved: correct };
+    saveDb(db);
+
+    const attemptsLeft = RIDDLE_MAX_ATTEMPTS - used;
+    const result: RiddleSolveResult = {
+      correct,
+      first,
+      attemptsLeft,
+      ...((correct || attemptsLeft === 0) && { answer }),
+      wallet,
+    };
+    return ok(result);
+  }],
+];
+
+function match(pattern: string, path: string): Record<string, string> | null {
+  const expected = pattern.split("/");
+  const actual = path.split("/");
+  if (expected.length !== actual.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < expected.length; i++) {
+    if (expected[i].startsWith(":")) params[expected[i].slice(1)] = decodeURIComponent(actual[i]);
+    else if (expected[i] !== actual[i]) return null;
+  }
+  return params;
+}
+
+// Request -> response without latency, handy for tests
+export async function handleMockRequest(req: MockRequest): Promise<MockResponse> {
+  for (const [method, pattern, handler] of routes) {
+    const params = match(pattern, req.path);
+    if (params && method === req.method) return handler(req, params);
+  }
+  return fail(404, `No mock route for ${req.method} ${req.path}`);
+}
+
+const delay = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    reject(new DOMException("Aborted", "AbortError"));
+  }, { once: true });
+});
+
+// Drop-in replacement for window.fetch used by the API client
+export async function mockFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  await delay(MOCK_CONFIG.latencyMs, init.signal);
+
+  const url = new URL(input);
+  const basePath = new URL(API_CONFIG.baseUrl).pathname.replace(/\/+$/, "");
+  const headers = new Headers(init.headers);
+  const { status, body } = await handleMockRequest({
+    method: (init.method ?? "GET").toUpperCase(),
+    path: url.pathname.slice(basePath.length).replace(/\/+$/, "") || "/",
+    query: url.searchParams,
+    body: typeof init.body === "string" ? JSON.parse(init.body) : undefined,
+    authorization: headers.get("Authorization"),
+    idempotencyKey: headers.get("Idempotency-Key"),
+  });
+
+  if (status === 204 || body === undefined) return new Response(null, { status });
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,105 @@
+// src/api/useApiQuery.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toApiError, type ApiError } from "./errors";
+
+type QueryState<T> = {
+  key: string | null;
+  data?: T;
+  error?: ApiError;
+};
+
+export type ApiQuery<T> = {
+  data: T | undefined;
+  error: ApiError | undefined;
+  loading: boolean;
+  reload: () => void;
+};
+
+export type ApiQueryOptions = {
+  // how long a result may be reused by other mounts; 0 always refetches
+  cacheMs?: number;
+};
+
+type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+// Catalogue data opts into this, so moving around the SPA (or landing on a
+// prefetched key) renders straight from memory.
+export const CATALOG_CACHE_MS = 5 * 60 * 1000;
+const cache = new Map<string, { data: unknown; at: number }>();
+const inflight = new Map<string, Promise<unknown>>();
+
+function readCache<T>(key: string, maxAgeMs: number): T | undefined {
+  const entry = cache.get(key);
+  if (!entry || Date.now() - entry.at > maxAgeMs) return undefined;
+  return entry.data as T;
+}
+
+function writeCache(key: string, data: unknown) {
+  cache.set(key, { data, at: Date.now() });
+}
+
+// Warms the cache in the background. Errors are ignored: the page that needs the
+// data will fetch it again and show the failure itself.
+export function prefetchQuery<T>(key: string, fetcher: Fetcher<T>, maxAgeMs = CATALOG_CACHE_MS): void {
+  if (readCache(key, maxAgeMs) !== undefined || inflight.has(key)) return;
+  const promise = fetcher(new AbortController().signal)
+    .then(data => writeCache(key, data), () => undefined)
+    .finally(() => inflight.delete(key));
+  inflight.set(key, promise);
+}
+
+// Runs `fetcher` whenever `key` changes (null = skip) and aborts stale requests.
+// Loading is derived from the key, so there is no synchronous setState in the effect.
+export function useApiQuery<T>(
+  key: string | null,
+  fetcher: Fetcher<T>,
+  { cacheMs = 0 }: ApiQueryOptions = {},
+): ApiQuery<T> {
+  const fetcherRef = useRef(fetcher);
+  const [attempt, setAttempt] = useState(0);
+  const [state, setState] = useState<QueryState<T>>({ key: null });
+  const requestKey = key === null ? null : `${key}#${attempt}`;
+  const cached = key === null || cacheMs <= 0 ? undefined : readCache<T>(key, cacheMs);
+
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  useEffect(() => {
+    if (key === null || requestKey === null) return;
+    const controller = new AbortController();
+    // A cache hit still goes into state: `cached` is only good until the entry
+    // expires, and with nothing in state the next render would show a spinner
+    // that no effect run ever resolves.
+    const hit = cacheMs > 0 ? readCache<T>(key, cacheMs) : undefined;
+    // piggyback on a prefetch that is already on the way
+    const pending = hit !== undefined
+      ? Promise.resolve(hit)
+      : cacheMs > 0
+        ? inflight.get(key)?.then(() => readCache<T>(key, cacheMs) ?? fetcherRef.current(controller.signal))
+        : undefined;
+    (pending ?? fetcherRef.current(controller.signal)).then(
+      data => {
+        if (cacheMs > 0 && hit === undefined) writeCache(key, data);
+        if (!controller.signal.aborted) setState({ key: requestKey, data });
+      },
+      error => {
+        if (!controller.signal.aborted) setState({ key: requestKey, error: toApiError(error) });
+      },
+    );
+    return () => controller.abort();
+  }, [key, requestKey, cacheMs]);
+
+  const reload = useCallback(() => {
+    if (key !== null) cache.delete(key);
+    setAttempt(a => a + 1);
+  }, [key]);
+  const current = state.key === requestKey;
+
+  return {
+    data: current ? state.data : cached,
+    error: current ? state.error : undefined,
+    loading: requestKey !== null && !current && cached === undefined,
+    reload,
+  };
+}
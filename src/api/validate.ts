@@ -0,0 +1,199 @@
+// src/api/validate.ts
+// Hand-rolled runtime guards for the shapes in types.ts.
+import type {
+  Banner,
+  Category,
+  DailyRiddle,
+  Item,
+  ItemOption,
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  ItemSelection,
+  LoyaltyWallet,
+  ModifierGroup,
+  Order,
+  OrderContact,
+  OrderLine,
+  OrderStatus,
+  OrderType,
+  VariantGroup,
+  WalletClaim,
+  WalletEvent,
+  WalletEventSource,
+} from "../types";
+
+export type Validator<T> = (value: unknown) => value is T;
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isId = (v: unknown): v is number | string =>
+  typeof v === "number" || (typeof v === "string" && v.length > 0);
+
+const optional = (v: unknown, type: "string" | "number") =>
+  v === undefined || v === null || typeof v === type;
+
+// Unknown tag names are let through; the UI only renders the ones it knows
+const optionalStrings = (v: unknown) =>
+  v === undefined || v === null || (Array.isArray(v) && v.every(s => typeof s === "string"));
+
+const isSpiceLevel = (v: unknown) => v === 0 || v === 1 || v === 2 || v === 3;
+
+export const isCategory: Validator<Category> = (v): v is Category =>
+  isObject(v)
+  && isId(v.id)
+  && optional(v.name_en, "string")
+  && optional(v.name_ru, "string")
+  && optional(v.name_ky, "string")
+  && optional(v.img, "string");
+
+const isItemOption = (v: unknown): v is ItemOption =>
+  isObject(v)
+  && typeof v.id === "string"
+  && typeof v.name === "string"
+  && typeof v.priceDelta === "number" && Number.isFinite(v.priceDelta);
+
+const isVariantGroup = (v: unknown): v is VariantGroup =>
+  isObject(v)
+  && typeof v.id === "string"
+  && typeof v.name === "string"
+  && Array.isArray(v.options) && v.options.length > 0 && v.options.every(isItemOption)
+  && optional(v.defaultOptionId, "string");
+
+const isModifierGroup = (v: unknown): v is ModifierGroup =>
+  isObject(v)
+  && typeof v.id === "string"
+  && typeof v.name === "string"
+  && Array.isArray(v.options) && v.options.every(isItemOption)
+  && typeof v.min === "number" && typeof v.max === "number"
+  && v.min >= 0 && v.max >= Math.max(1, v.min);
+
+const optionalGroups = (v: unknown, check: (group: unknown) => boolean) =>
+  v === undefined || v === null || (Array.isArray(v) && v.every(check));
+
+// Item as it comes over the wire, before prices are normalised to numbers
+export type RawItem = Omit<Item, "price"> & { price?: string | number | null };
+
+export const isItem: Validator<RawItem> = (v): v is RawItem =>
+  isObject(v)
+  && isId(v.id)
+  && typeof v.title === "string"
+  && optional(v.description, "string")
+  && optional(v.ingredients, "string")
+  && (optional(v.price, "string") || typeof v.price === "number")
+  && optional(v.img, "string")
+  && optional(v.popularity, "number")
+  && optional(v.createdAt, "string")
+  && optionalStrings(v.tags)
+  && (v.spiciness === undefined || v.spiciness === null || isSpiceLevel(v.spiciness))
+  && optionalStrings(v.allergens)
+  && optionalGroups(v.variants, isVariantGroup)
+  && optionalGroups(v.modifiers, isModifierGroup);
+
+export const isBanner: Validator<Banner> = (v): v is Banner =>
+  isObject(v)
+  && typeof v.id === "number"
+  && typeof v.img === "string"
+  && optional(v.title, "string");
+
+export const isDailyRiddle: Validator<DailyRiddle> = (v): v is DailyRiddle =>
+  isObject(v)
+  && typeof v.date === "string"
+  && typeof v.question === "string"
+  && typeof v.answerLength === "number" && v.answerLength > 0
+  && typeof v.maxAttempts === "number"
+  && typeof v.attemptsLeft === "number"
+  && typeof v.discountPercent === "number"
+  && typeof v.solvedToday === "boolean";
+
+const ORDER_STATUSES: OrderStatus[] = ["placed", "preparing", "ready", "completed", "cancelled"];
+const ORDER_TYPES: OrderType[] = ["dine_in", "takeaway", "delivery"];
+
+const isAmount = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v) && v >= 0;
+
+export const isSelection: Validator<ItemSelection> = (v): v is ItemSelection =>
+  isObject(v)
+  && isObject(v.variants) && Object.values(v.variants).every(id => typeof id === "string")
+  && isObject(v.modifiers) && Object.values(v.modifiers).every(optionalStrings);
+
+const isOrderLine = (v: unknown): v is OrderLine =>
+  isObject(v)
+  && isId(v.itemId)
+  && typeof v.title === "string"
+  && isAmount(v.price)
+  && typeof v.quantity === "number" && v.quantity > 0
+  && optionalStrings(v.options)
+  && (v.selection === undefined || isSelection(v.selection));
+
+const isContact = (v: unknown): v is OrderContact =>
+  isObject(v)
+  && typeof v.name === "string"
+  && typeof v.phone === "string"
+  && optional(v.email, "string")
+  && optional(v.address, "string");
+
+export const isOrder: Validator<Order> = (v): v is Order =>
+  isObject(v)
+  && typeof v.id === "string" && v.id.length > 0
+  && typeof v.placedAt === "string"
+  && ORDER_STATUSES.includes(v.status as OrderStatus)
+  && Array.isArray(v.lines) && v.lines.every(isOrderLine)
+  && isAmount(v.subtotal)
+  && isAmount(v.discountPercent)
+  && isAmount(v.discountAmount)
+  && isAmount(v.total)
+  && ORDER_TYPES.includes(v.type as OrderType)
+  && optional(v.scheduledFor, "string")
+  && optional(v.tableId, "string")
+  && (v.contact === undefined || isContact(v.contact))
+  && optional(v.notes, "string");
+
+const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ["all", "week", "today"];
+
+const isLeaderboardEntry = (v: unknown): v is LeaderboardEntry =>
+  isObject(v)
+  && typeof v.rank === "number" && v.rank >= 1
+  && typeof v.username === "string"
+  && isAmount(v.score);
+
+export const isLeaderboard: Validator<Leaderboard> = (v): v is Leaderboard =>
+  isObject(v)
+  && LEADERBOARD_PERIODS.includes(v.period as LeaderboardPeriod)
+  && Array.isArray(v.entries) && v.entries.every(isLeaderboardEntry)
+  && (v.me === null || isLeaderboardEntry(v.me))
+  && isAmount(v.personalBest);
+
+const WALLET_EVENT_TYPES: WalletEvent["type"][] = ["earn", "spend", "expire"];
+const WALLET_EVENT_SOURCES: WalletEventSource[] = ["jump", "guess", "order", "migration", "system"];
+
+const isWalletEvent = (v: unknown): v is WalletEvent =>
+  isObject(v)
+  && WALLET_EVENT_TYPES.includes(v.type as WalletEvent["type"])
+  && WALLET_EVENT_SOURCES.includes(v.source as WalletEventSource)
+  && typeof v.points === "number"
+  && typeof v.percent === "number"
+  && typeof v.at === "string";
+
+export const isLoyaltyWallet: Validator<LoyaltyWallet> = (v): v is LoyaltyWallet =>
+  isObject(v)
+  && typeof v.username === "string"
+  && isAmount(v.points)
+  && isAmount(v.percent)
+  && optional(v.expiresAt, "string")
+  && Array.isArray(v.history) && v.history.every(isWalletEvent);
+
+// Checked by the server before it credits anything; the client builds it from storage
+export const isWalletClaim: Validator<WalletClaim> = (v): v is WalletClaim =>
+  isObject(v)
+  && isAmount(v.points)
+  && isAmount(v.percent)
+  && typeof v.expiresAt === "string" && !Number.isNaN(Date.parse(v.expiresAt));
+
+export function arrayOf<T>(item: Validator<T>): Validator<T[]> {
+  return (v): v is T[] => Array.isArray(v) && v.every(item);
+}
+
+export function objectWith<T>(check: (v: Record<string, unknown>) => boolean): Validator<T> {
+  return (v): v is T => isObject(v) && check(v);
+}
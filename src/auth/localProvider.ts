@@ -0,0 +1,126 @@
+// src/auth/localProvider.ts
+// Dev-only adapter: users live in localStorage and tokens are minted locally.
+// Select it with VITE_AUTH_PROVIDER=local when there is no backend at all.
+// The API has never heard of these accounts, so their tokens are not sent to it:
+// signed in this way you are a guest to the API, and the wallet, order history,
+// favorites sync, ranked Giraffe Jump runs and the daily riddle are unavailable.
+import { AuthError, type AuthProvider, type Session, type User } from "./types";
+import { setPassword, verifyAndUpgrade, type StoredCredentials } from "./passwordHash";
+
+type StoredUser = User & StoredCredentials;
+
+const USERS_KEY = "menu_frontend_users_v1"; // simple mock DB
+const TOKEN_TTL_MS = 15 * 60 * 1000;
+const RESET_TTL_MS = 30 * 60 * 1000;
+
+// Reset tokens only need to survive until the link is clicked in this tab
+const resetTokens = new Map<string, { username: string; expiresAt: number }>();
+
+function loadUsers(): StoredUser[] {
+  try {
+    const raw = localStorage.getItem(USERS_KEY);
+    return raw ? JSON.parse(raw) as StoredUser[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveUsers(users: StoredUser[]) {
+  localStorage.setItem(USERS_KEY, JSON.stringify(users));
+}
+
+const randomToken = (prefix: string) => `${prefix}-${crypto.randomUUID()}`;
+
+function issueSession({ username, email }: User): Session {
+  return {
+    user: { username, email },
+    accessToken: randomToken("local-access"),
+    refreshToken: randomToken("local-refresh"),
+    expiresAt: Date.now() + TOKEN_TTL_MS,
+  };
+}
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Loads the store, finds the session's user and checks the password (upgrading clear text)
+async function authorize(session: Session, password: string) {
+  const users = loadUsers();
+  const user = users.find(u => sameName(u.username, session.user.username));
+  if (!user) throw new AuthError("session_expired");
+  if (!await verifyAndUpgrade(user, password)) throw new AuthError("invalid_credentials");
+  return { users, user };
+}
+
+export const localProvider: AuthProvider = {
+  name: "local",
+  apiAccounts: false,
+
+  async login(usernameOrEmail, password) {
+    const users = loadUsers();
+    const user = users.find(u => sameName(u.email, usernameOrEmail) || sameName(u.username, usernameOrEmail));
+    if (!user || !await verifyAndUpgrade(user, password)) throw new AuthError("invalid_credentials");
+    saveUsers(users); // persists the hash if this was a clear-text record
+    return issueSession(user);
+  },
+
+  async signup(username, email, password) {
+    const users = loadUsers();
+    if (users.some(u => sameName(u.email, email))) throw new AuthError("email_taken");
+    if (users.some(u => sameName(u.username, username))) throw new AuthError("username_taken");
+    const user: StoredUser = { username, email };
+    await setPassword(user, password);
+    users.push(user);
+    saveUsers(users);
+    return issueSession(user);
+  },
+
+  // Nothing to verify a token against, so a refresh succeeds as long as the account exists
+  async refresh(session) {
+    const user = loadUsers().find(u => sameName(u.username, session.user.username));
+    if (!user) throw new AuthError("session_expired");
+    return issueSession(user);
+  },
+
+  async logout() {
+    // tokens are not stored anywhere; dropping the session is enough
+  },
+
+  async changePassword(session, password, newPassword) {
+    const { users, user } = await authorize(session, password);
+    await setPassword(user, newPassword);
+    saveUsers(users);
+  },
+
+  async changeEmail(session, email, password) {
+    const { users, user } = await authorize(session, password);
+    if (users.some(u => u !== user && sameName(u.email, email))) throw new AuthError("email_taken");
+    user.email = email;
+    saveUsers(users);
+    return { username: user.username, email: user.email };
+  },
+
+  async deleteAccount(session, password) {
+    const { users, user } = await authorize(session, password);
+    saveUsers(users.filter(u => u !== user));
+  },
+
+  async requestPasswordReset(email) {
+    const user = loadUsers().find(u => sameName(u.email, email));
+    // Dev only: handing back the token tells anyone which emails have accounts.
+    // A real backend answers the same either way and mails the link instead.
+    if (!user) return {};
+    const resetToken = randomToken("local-reset");
+    resetTokens.set(resetToken, { username: user.username, expiresAt: Date.now() + RESET_TTL_MS });
+    return { resetToken };
+  },
+
+  async resetPassword(token, newPassword) {
+    const entry = resetTokens.get(token);
+    resetTokens.delete(token);
+    const users = loadUsers();
+    const user = entry && entry.expiresAt > Date.now() && users.find(u => sameName(u.username, entry.username));
+    if (!user) throw new AuthError("invalid_reset_token");
+    await setPassword(user, newPassword);
+    saveUsers(users);
+  },
+};
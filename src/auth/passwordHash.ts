@@ -0,0 +1,62 @@
+// src/auth/passwordHash.ts
+// PBKDF2 via Web Crypto for the dev user stores (local adapter and mock backend).
+// A real backend hashes server-side; this only keeps clear text out of localStorage.
+
+export type PasswordHash = {
+  algorithm: "PBKDF2-SHA256";
+  iterations: number;
+  salt: string; // base64
+  hash: string; // base64
+};
+
+// Stored users may predate hashing and still carry a clear-text `password`
+export type StoredCredentials = {
+  password?: string;
+  passwordHash?: PasswordHash;
+};
+
+const ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+
+async function derive(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+}
+
+export async function hashPassword(password: string): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return { algorithm: "PBKDF2-SHA256", iterations: ITERATIONS, salt: toBase64(salt), hash: toBase64(hash) };
+}
+
+// Compares every byte so the time taken doesn't reveal how much matched
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+export async function verifyPassword(password: string, stored: PasswordHash): Promise<boolean> {
+  const actual = await derive(password, fromBase64(stored.salt), stored.iterations);
+  return sameBytes(actual, fromBase64(stored.hash));
+}
+
+// Checks a password and, for legacy clear-text records, swaps in a hash on success.
+// Mutates `record`; the caller persists it.
+export async function verifyAndUpgrade(record: StoredCredentials, password: string): Promise<boolean> {
+  if (record.passwordHash) return verifyPassword(password, record.passwordHash);
+  if (record.password === undefined || record.password !== password) return false;
+  record.passwordHash = await hashPassword(password);
+  delete record.password;
+  return true;
+}
+
+export async function setPassword(record: StoredCredentials, password: string): Promise<void> {
+  record.passwordHash = await hashPassword(password);
+  delete record.password;
+}
@@ -0,0 +1,99 @@
+// src/auth/restProvider.ts
+// Talks to the backend's /auth/* endpoints (or the mock backend when VITE_USE_MOCKS is set).
+import * as api from "../api";
+import type { AuthResponse } from "../types";
+import { AuthError, isAuthErrorCode, type AuthErrorCode, type AuthProvider, type Session } from "./types";
+
+function toSession(response: AuthResponse): Session {
+  return {
+    user: response.user,
+    accessToken: response.accessToken,
+    refreshToken: response.refreshToken,
+    expiresAt: Date.now() + response.expiresIn * 1000,
+  };
+}
+
+// Server `code` wins; otherwise a 401 means `on401` and anything else is "unavailable"
+function toAuthError(error: unknown, on401: AuthErrorCode): AuthError {
+  const apiError = api.toApiError(error);
+  if (isAuthErrorCode(apiError.code)) return new AuthError(apiError.code);
+  if (apiError.status === 401) return new AuthError(on401);
+  return new AuthError("unavailable", apiError.message);
+}
+
+export const restProvider: AuthProvider = {
+  name: "rest",
+  apiAccounts: true,
+
+  async login(usernameOrEmail, password) {
+    try {
+      return toSession(await api.login(usernameOrEmail, password));
+    } catch (error) {
+      throw toAuthError(error, "invalid_credentials");
+    }
+  },
+
+  async signup(username, email, password) {
+    try {
+      return toSession(await api.signup(username, email, password));
+    } catch (error) {
+      throw toAuthError(error, "invalid_credentials");
+    }
+  },
+
+  async refresh(session) {
+    if (!session.refreshToken) throw new AuthError("session_expired");
+    try {
+      return toSession(await api.refreshTokens(session.refreshToken));
+    } catch (error) {
+      throw toAuthError(error, "session_expired");
+    }
+  },
+
+  async logout(session) {
+    if (!session.refreshToken) return;
+    // best effort: the local session is dropped either way
+    await api.logout(session.refreshToken).catch(() => undefined);
+  },
+
+  // The session travels as the bearer token, so it isn't passed along explicitly
+  async changePassword(_session, password, newPassword) {
+    try {
+      await api.changePassword(password, newPassword);
+    } catch (error) {
+      throw toAuthError(error, "session_expired");
+    }
+  },
+
+  async changeEmail(_session, email, password) {
+    try {
+      return (await api.changeEmail(email, password)).user;
+    } catch (error) {
+      throw toAuthError(error, "session_expired");
+    }
+  },
+
+  async deleteAccount(_session, password) {
+    try {
+      await api.deleteAccount(password);
+    } catch (error) {
+      throw toAuthError(error, "session_expired");
+    }
+  },
+
+  async requestPasswordReset(email) {
+    try {
+      return await api.requestPasswordReset(email);
+    } catch (error) {
+      throw toAuthError(error, "unavailable");
+    }
+  },
+
+  async resetPassword(token, newPassword) {
+    try {
+      await api.resetPassword(token, newPassword);
+    } catch (error) {
+      throw toAuthError(error, "invalid_reset_token");
+    }
+  },
+};
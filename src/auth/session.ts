@@ -0,0 +1,109 @@
+// src/auth/session.ts
+// Single source of truth for the signed-in session. Persists it, refreshes the
+// access token before it expires and plugs into the API client for 401 handling.
+import { setAuthHooks } from "../api";
+import { keepAuthDiscount, type LegacyAuthDiscount } from "../utils/loyaltyWallet";
+import { localProvider } from "./localProvider";
+import { restProvider } from "./restProvider";
+import { AuthError, type AuthProvider, type Session, type User } from "./types";
+
+export type SessionChange = "login" | "refresh" | "update" | "logout" | "expired";
+type Listener = (session: Session | null, change: SessionChange) => void;
+
+const LOCAL_KEY = "menu_frontend_auth_v1";
+// refresh this long before expiry so in-flight requests don't race the deadline
+const REFRESH_MARGIN_MS = 30_000;
+
+export const authProvider: AuthProvider =
+  import.meta.env.VITE_AUTH_PROVIDER === "local" ? localProvider : restProvider;
+
+// Older versions stored { user, token, discount? } with no refresh token or expiry
+type LegacySession = {
+  user?: User | null;
+  token?: string | null;
+  discount?: LegacyAuthDiscount;
+};
+
+function loadSession(): Session | null {
+  try {
+    const raw = localStorage.getItem(LOCAL_KEY);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as Partial<Session> & LegacySession;
+    if (!stored.user) return null;
+    // the discount is offered to the server with the rest of the device balance
+    if (stored.discount) keepAuthDiscount(stored.user.username, stored.discount);
+    if (stored.accessToken) return stored as Session;
+    // expired on arrival, so the first API call goes through refresh()
+    return stored.token
+      ? { user: stored.user, accessToken: stored.token, refreshToken: null, expiresAt: 0 }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(session: Session | null) {
+  if (session) localStorage.setItem(LOCAL_KEY, JSON.stringify(session));
+  else localStorage.removeItem(LOCAL_KEY);
+}
+
+let current: Session | null = loadSession();
+let refreshing: Promise<Session | null> | null = null;
+const listeners = new Set<Listener>();
+
+export function getSession(): Session | null {
+  return current;
+}
+
+export function setSession(session: Session | null, change: SessionChange) {
+  current = session;
+  saveSession(session);
+  listeners.forEach(listener => listener(session, change));
+}
+
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Concurrent callers share one refresh. Resolves null when the session is gone.
+export function refreshSession(): Promise<Session | null> {
+  const session = current;
+  if (!session) return Promise.resolve(null);
+
+  refreshing ??= authProvider.refresh(session)
+    .then(next => {
+      // a logout or new login while we were waiting wins
+      if (current !== session) return current;
+      setSession(next, "refresh");
+      return next;
+    })
+    .catch(error => {
+      if (error instanceof AuthError && error.code === "session_expired" && current === session) {
+        setSession(null, "expired");
+        return null;
+      }
+      // backend hiccup: keep the session and let the caller's request fail on its own
+      return current;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+async function getAccessToken(): Promise<string | null> {
+  if (!current) return null;
+  if (current.expiresAt - Date.now() > REFRESH_MARGIN_MS) return current.accessToken;
+  return (await refreshSession())?.accessToken ?? null;
+}
+
+async function onUnauthorized(): Promise<boolean> {
+  const before = current;
+  if (!before) return false;
+  const after = await refreshSession();
+  return after !== null && after.accessToken !== before.accessToken;
+}
+
+// A local account's token would only earn a 401, so its requests go out as a guest's
+if (authProvider.apiAccounts) setAuthHooks({ getAccessToken, onUnauthorized });
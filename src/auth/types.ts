@@ -0,0 +1,68 @@
+// src/auth/types.ts
+// Contract every auth backend implements. AuthContext only talks to this.
+
+export type User = {
+  username: string;
+  email: string;
+};
+
+export type Session = {
+  user: User;
+  accessToken: string;
+  refreshToken: string | null; // null for sessions migrated from the pre-refresh format
+  expiresAt: number; // epoch ms when accessToken stops being accepted
+};
+
+export type AuthErrorCode =
+  | "invalid_credentials"
+  | "email_taken"
+  | "username_taken"
+  | "session_expired"
+  | "invalid_reset_token"
+  | "unavailable"; // backend unreachable or answered with something unexpected
+
+const DEFAULT_MESSAGES: Record<AuthErrorCode, string> = {
+  invalid_credentials: "Invalid credentials",
+  email_taken: "Email already in use",
+  username_taken: "Username already taken",
+  session_expired: "Session expired, please log in again",
+  invalid_reset_token: "Reset link is invalid or has expired",
+  unavailable: "Authentication service unavailable",
+};
+
+export class AuthError extends Error {
+  readonly code: AuthErrorCode;
+
+  constructor(code: AuthErrorCode, message = DEFAULT_MESSAGES[code]) {
+    super(message);
+    this.name = "AuthError";
+    this.code = code;
+  }
+}
+
+export function isAuthErrorCode(value: unknown): value is AuthErrorCode {
+  return typeof value === "string" && value in DEFAULT_MESSAGES;
+}
+
+export interface AuthProvider {
+  readonly name: "rest" | "local";
+  // Whether the API knows these accounts. When it doesn't, the access token is
+  // never sent and everything the API keeps per account (wallet, orders,
+  // favorites, game runs, the riddle) is treated as for a guest.
+  readonly apiAccounts: boolean;
+  login(usernameOrEmail: string, password: string): Promise<Session>;
+  signup(username: string, email: string, password: string): Promise<Session>;
+  // throws AuthError("session_expired") when the refresh token is no longer valid
+  refresh(session: Session): Promise<Session>;
+  logout(session: Session): Promise<void>;
+
+  // Account management; `password` is the current password, re-checked by the backend
+  changePassword(session: Session, password: string, newPassword: string): Promise<void>;
+  changeEmail(session: Session, email: string, password: string): Promise<User>;
+  deleteAccount(session: Session, password: string): Promise<void>;
+
+  // resetToken is only returned by dev backends that cannot send the email themselves;
+  // its presence reveals that the email is registered
+  requestPasswordReset(email: string): Promise<{ resetToken?: string }>;
+  resetPassword(token: string, newPassword: string): Promise<void>;
+}
@@ -0,0 +1,161 @@
+import React, { useState, type JSX } from "react";
+import AuthField from "./AuthField";
+import PasswordStrengthMeter from "./PasswordStrengthMeter";
+import { useAuth, type AuthResult } from "../context/AuthContext";
+import { useLanguage } from "../context/LanguageContext";
+import type { TranslationKey } from "../i18n";
+import {
+  AUTH_ERROR_KEYS,
+  validateEmail,
+  validateNewPassword,
+  validatePasswordConfirm,
+  type FieldError,
+} from "../utils/authValidation";
+
+type Status = { error?: FieldError; done?: boolean; pending?: boolean };
+
+// Inside the cabinet a wrong password can only mean the current one
+function resultError(result: AuthResult): FieldError {
+  if (result.code === "invalid_credentials") return { key: "account.error.wrongPassword" };
+  return { key: AUTH_ERROR_KEYS[result.code ?? "unavailable"] };
+}
+
+function firstError(...errors: Array<FieldError | null>): FieldError | undefined {
+  return errors.find((e): e is FieldError => e !== null);
+}
+
+function FormStatus({ status, doneKey }: { status: Status; doneKey: TranslationKey }) {
+  const { t } = useLanguage();
+  if (status.error) return <p className="auth-error" role="alert">{t(status.error.key, status.error.params)}</p>;
+  if (status.done) return <p className="account-success" role="status">{t(doneKey)}</p>;
+  return null;
+}
+
+function ChangeEmailForm() {
+  const { changeEmail } = useAuth();
+  const { t } = useLanguage();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [status, setStatus] = useState<Status>({});
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = firstError(validateEmail(email), password ? null : { key: "auth.error.passwordRequired" });
+    if (error) return setStatus({ error });
+
+    setStatus({ pending: true });
+    const result = await changeEmail(email.trim(), password);
+    setStatus(result.ok ? { done: true } : { error: resultError(result) });
+    if (result.ok) {
+      setEmail("");
+      setPassword("");
+    }
+  };
+
+  return (
+    <form className="account-form" onSubmit={submit} noValidate aria-busy={status.pending}>
+      <h3>{t("account.changeEmail")}</h3>
+      <FormStatus status={status} doneKey="account.emailChanged" />
+      <AuthField id="account-email" type="email" autoComplete="email" placeholder={t("account.newEmail")}
+        value={email} onChange={(e) => setEmail(e.target.value)} disabled={status.pending} />
+      <AuthField id="account-email-password" type="password" autoComplete="current-password"
+        placeholder={t("account.currentPassword")}
+        value={password} onChange={(e) => setPassword(e.target.value)} disabled={status.pending} />
+      <button type="submit" className="auth-btn" disabled={status.pending}>
+        {status.pending ? t("auth.pending") : t("account.saveEmail")}
+      </button>
+    </form>
+  );
+}
+
+function ChangePasswordForm() {
+  const { changePassword } = useAuth();
+  const { t } = useLanguage();
+  const [password, setPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [status, setStatus] = useState<Status>({});
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = firstError(
+      password ? null : { key: "auth.error.passwordRequired" },
+      validateNewPassword(newPassword),
+      validatePasswordConfirm(newPassword, confirm),
+    );
+    if (error) return setStatus({ error });
+
+    setStatus({ pending: true });
+    const result = await changePassword(password, newPassword);
+    setStatus(result.ok ? { done: true } : { error: resultError(result) });
+    if (result.ok) {
+      setPassword("");
+      setNewPassword("");
+      setConfirm("");
+    }
+  };
+
+  return (
+    <form className="account-form" onSubmit={submit} noValidate aria-busy={status.pending}>
+      <h3>{t("account.changePassword")}</h3>
+      <FormStatus status={status} doneKey="account.passwordChanged" />
+      <AuthField id="account-password" type="password" autoComplete="current-password"
+        placeholder={t("account.currentPassword")}
+        value={password} onChange={(e) => setPassword(e.target.value)} disabled={status.pending} />
+      <AuthField id="account-new-password" type="password" autoComplete="new-password"
+        placeholder={t("account.newPassword")}
+        value={newPassword} onChange={(e) => setNewPassword(e.target.value)} disabled={status.pending} />
+      <PasswordStrengthMeter password={newPassword} />
+      <AuthField id="account-confirm-password" type="password" autoComplete="new-password"
+        placeholder={t("account.confirmNewPassword")}
+        value={confirm} onChange={(e) => setConfirm(e.target.value)} disabled={status.pending} />
+      <button type="submit" className="auth-btn" disabled={status.pending}>
+        {status.pending ? t("auth.pending") : t("account.savePassword")}
+      </button>
+    </form>
+  );
+}
+
+function DeleteAccountForm() {
+  const { deleteAccount } = useAuth();
+  const { t } = useLanguage();
+  const [password, setPassword] = useState("");
+  const [status, setStatus] = useState<Status>({});
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return setStatus({ error: { key: "auth.error.passwordRequired" } });
+    if (!window.confirm(t("account.deleteConfirm"))) return;
+
+    setStatus({ pending: true });
+    // on success AuthContext signs out and leaves the cabinet
+    const result = await deleteAccount(password);
+    if (!result.ok) setStatus({ error: resultError(result) });
+  };
+
+  return (
+    <form className="account-form account-danger" onSubmit={submit} noValidate aria-busy={status.pending}>
+      <h3>{t("account.delete")}</h3>
+      <p className="account-hint">{t("account.deleteHint")}</p>
+      <FormStatus status={status} doneKey="account.delete" />
+      <AuthField id="account-delete-password" type="password" autoComplete="current-password"
+        placeholder={t("account.currentPassword")}
+        value={password} onChange={(e) => setPassword(e.target.value)} disabled={status.pending} />
+      <button type="submit" className="auth-btn danger-btn" disabled={status.pending}>
+        {status.pending ? t("auth.pending") : t("account.deleteButton")}
+      </button>
+    </form>
+  );
+}
+
+export default function AccountSettings(): JSX.Element {
+  const { t } = useLanguage();
+  return (
+    <section className="account-settings">
+      <h2>{t("account.title")}</h2>
+      <ChangeEmailForm />
+      <ChangePasswordForm />
+      <DeleteAccountForm />
+    </section>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import './AnimatedBanner.css';
+import { useLanguage } from '../context/LanguageContext';
 
 interface Banner {
   id: number;
@@ -43,6 +44,7 @@ export default function AnimatedBanner({
   banners = defaultBanners,
   autoPlayInterval = 8000
 }: AnimatedBannerProps) {
+  const { t } = useLanguage();
   const [currentSlide, setCurrentSlide] = useState(0);
   const [isAnimating, setIsAnimating] = useState(true);
 
@@ -78,7 +80,7 @@ export default function AnimatedBanner({
       <button 
         className="banner-nav-btn banner-nav-prev" 
         onClick={handlePrev}
-        aria-label="Previous banner"
+        aria-label={t('banner.prev')}
       >
         ‹
       </button>
@@ -86,7 +88,7 @@ export default function AnimatedBanner({
       <button 
         className="banner-nav-btn banner-nav-next" 
         onClick={handleNext}
-        aria-label="Next banner"
+        aria-label={t('banner.next')}
       >
         ›
       </button>
@@ -97,7 +99,7 @@ export default function AnimatedBanner({
             key={index}
             className={`banner-indicator ${index === currentSlide ? 'active' : ''}`}
             onClick={() => setCurrentSlide(index)}
-            aria-label={`Go to slide ${index + 1}`}
+            aria-label={t('banner.goTo', { n: index + 1 })}
           />
         ))}
       </div>
@@ -259,6 +261,7 @@ function BonusWheelAnimation({
   bonusPercentage: string;
   isActive: boolean;
 }) {
+  const { t } = useLanguage();
   return (
     <div className={`animation bonus-wheel-animation ${isActive ? 'active' : ''}`}>
       {/* Black Circle Background */}
@@ -316,7 +319,7 @@ function BonusWheelAnimation({
       <div className="wheel-content">
         <div className="wheel-text-main">{bonusText}</div>
         <div className="wheel-percentage">{bonusPercentage}</div>
-        <div className="wheel-btn">Play Now</div>
+        <div className="wheel-btn">{t('banner.playNow')}</div>
       </div>
     </div>
   );
@@ -0,0 +1,23 @@
+import { type InputHTMLAttributes, type JSX } from "react";
+
+type Props = InputHTMLAttributes<HTMLInputElement> & {
+  id: string;
+  error?: string | null;
+};
+
+// Input with an inline error underneath, wired up for screen readers
+export default function AuthField({ id, error, ...input }: Props): JSX.Element {
+  const errorId = `${id}-error`;
+  return (
+    <div className="auth-field">
+      <input
+        {...input}
+        id={id}
+        className={error ? "invalid" : undefined}
+        aria-invalid={Boolean(error)}
+        aria-describedby={error ? errorId : undefined}
+      />
+      {error && <p id={errorId} className="field-error">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { type JSX } from "react";
+import { useLanguage } from "../context/LanguageContext";
+import type { ActiveDiscount, OrderTotals } from "../utils/pricing";
+
+type Props = {
+  totals: OrderTotals;
+  discount: ActiveDiscount | null;
+  // without these the discount is shown as applied and can't be switched off
+  useDiscount?: boolean;
+  onToggleDiscount?: (value: boolean) => void;
+};
+
+export default function CheckoutSummary({ totals, discount, useDiscount, onToggleDiscount }: Props): JSX.Element {
+  const { lang, t, formatPrice } = useLanguage();
+  return (
+    <div className="checkout-summary">
+      <div className="checkout-row">
+        <span>{t("checkout.subtotal")}</span>
+        <span>{formatPrice(totals.subtotal)}</span>
+      </div>
+
+      {discount && onToggleDiscount && (
+        <label className="checkout-toggle">
+          <input
+            type="checkbox"
+            checked={useDiscount ?? true}
+            onChange={(e) => onToggleDiscount(e.target.checked)}
+          />
+          <span>
+            {t("checkout.useDiscount", { percent: discount.percent })}
+            <small> {t("checkout.until", { date: discount.expiresAt.toLocaleDateString(lang) })}</small>
+          </span>
+        </label>
+      )}
+
+      {totals.discountAmount > 0 && (
+        <div className="checkout-row checkout-discount">
+          <span>{t("checkout.discount", { percent: totals.discountPercent })}</span>
+          <span>−{formatPrice(totals.discountAmount)}</span>
+        </div>
+      )}
+
+      <div className="checkout-row checkout-total">
+        <span>{t("checkout.total")}</span>
+        <span>{formatPrice(totals.total)}</span>
+      </div>
+    </div>
+  );
+}
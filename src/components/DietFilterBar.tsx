@@ -0,0 +1,91 @@
+import { type JSX } from "react";
+import type { SpiceLevel } from "../types.ts";
+import { useLanguage } from "../context/LanguageContext";
+import {
+  ALLERGENS,
+  DIETARY_TAGS,
+  EMPTY_DIET_FILTER,
+  isDietFilterActive,
+  type DietFilter,
+} from "../utils/dietary";
+
+type Props = {
+  value: DietFilter;
+  onChange: (next: DietFilter) => void;
+  shown: number;
+  total: number;
+};
+
+// 3 would be the same as no limit
+const SPICE_OPTIONS = [0, 1, 2] as const;
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+export default function DietFilterBar({ value, onChange, shown, total }: Props): JSX.Element {
+  const { t } = useLanguage();
+  const active = isDietFilterActive(value);
+
+  return (
+    <div className="diet-filter" role="group" aria-label={t("filter.title")}>
+      <div className="diet-filter-row">
+        {DIETARY_TAGS.map((tag) => (
+          <button
+            key={tag}
+            type="button"
+            className="filter-chip"
+            aria-pressed={value.tags.includes(tag)}
+            onClick={() => onChange({ ...value, tags: toggle(value.tags, tag) })}
+          >
+            {t(`diet.tag.${tag}`)}
+          </button>
+        ))}
+
+        <select
+          className="filter-select"
+          aria-label={t("filter.spice")}
+          value={value.maxSpice ?? ""}
+          onChange={(e) => onChange({
+            ...value,
+            maxSpice: e.target.value === "" ? null : Number(e.target.value) as SpiceLevel,
+          })}
+        >
+          <option value="">{t("filter.spiceAny")}</option>
+          {SPICE_OPTIONS.map((level) => (
+            <option key={level} value={level}>{t(`filter.spice${level}`)}</option>
+          ))}
+        </select>
+      </div>
+
+      <details className="diet-filter-allergens" open={value.excludeAllergens.length > 0}>
+        <summary>
+          {t("filter.allergens")}
+          {value.excludeAllergens.length > 0 && ` (${value.excludeAllergens.length})`}
+        </summary>
+        <div className="diet-filter-row">
+          {ALLERGENS.map((allergen) => (
+            <button
+              key={allergen}
+              type="button"
+              className="filter-chip exclude"
+              aria-pressed={value.excludeAllergens.includes(allergen)}
+              onClick={() => onChange({ ...value, excludeAllergens: toggle(value.excludeAllergens, allergen) })}
+            >
+              {t(`diet.allergen.${allergen}`)}
+            </button>
+          ))}
+        </div>
+      </details>
+
+      {active && (
+        <div className="diet-filter-summary" aria-live="polite">
+          <span>{t("filter.count", { shown, total })}</span>
+          <button type="button" className="filter-reset" onClick={() => onChange(EMPTY_DIET_FILTER)}>
+            {t("filter.reset")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { type JSX } from "react";
+import type { Item } from "../types.ts";
+import { useLanguage } from "../context/LanguageContext";
+import { itemAllergens, itemTags } from "../utils/dietary";
+
+type Props = {
+  item: Item;
+  // the modal spells out allergens as well; cards only show the tags
+  detailed?: boolean;
+};
+
+const TAG_ICONS = { vegetarian: "🥕", vegan: "🌱", gluten_free: "🌾", halal: "☪️" } as const;
+
+export default function DietaryBadges({ item, detailed = false }: Props): JSX.Element | null {
+  const { t } = useLanguage();
+  const tags = itemTags(item);
+  const spice = item.spiciness ?? 0;
+  const allergens = itemAllergens(item);
+
+  if (!detailed && tags.length === 0 && spice === 0) return null;
+
+  return (
+    <div className={detailed ? "diet-badges detailed" : "diet-badges"}>
+      <ul className="diet-tags">
+        {tags.map((tag) => (
+          <li key={tag} className={`diet-badge diet-${tag}`} title={t(`diet.tag.${tag}`)}>
+            <span aria-hidden="true">{TAG_ICONS[tag]}</span>
+            <span className={detailed ? undefined : "sr-only"}>{t(`diet.tag.${tag}`)}</span>
+          </li>
+        ))}
+        {spice > 0 && (
+          <li className="diet-badge diet-spicy" title={t("diet.spiciness", { n: spice })}>
+            <span aria-hidden="true">{"🌶️".repeat(spice)}</span>
+            <span className="sr-only">{t("diet.spiciness", { n: spice })}</span>
+          </li>
+        )}
+      </ul>
+      {detailed && (
+        <p className="diet-allergens">
+          {allergens === undefined
+            ? t("diet.allergensUnknown")
+            : allergens.length === 0
+              ? t("diet.noAllergens")
+              : t("diet.contains", { list: allergens.map((a) => t(`diet.allergen.${a}`)).join(", ") })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { type JSX } from "react";
+import type { Item } from "../types.ts";
+import { useFavorites } from "../context/FavoritesContext";
+import { useLanguage } from "../context/LanguageContext";
+
+type Props = {
+  item: Item;
+  className?: string;
+};
+
+export default function FavoriteButton({ item, className = "fav-btn" }: Props): JSX.Element {
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const { t } = useLanguage();
+  const active = isFavorite(item.id);
+
+  return (
+    <button
+      type="button"
+      className={active ? `${className} active` : className}
+      aria-pressed={active}
+      aria-label={t(active ? "favorites.remove" : "favorites.add", { title: item.title })}
+      onClick={(e) => {
+        e.stopPropagation(); // the card underneath opens the modal
+        toggleFavorite(item.id);
+      }}
+    >
+      {active ? "♥" : "♡"}
+    </button>
+  );
+}
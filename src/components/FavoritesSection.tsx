@@ -0,0 +1,59 @@
+import { useMemo, useState, type JSX } from "react";
+import type { Item } from "../types.ts";
+import { getFullMenu } from "../api";
+import { CATALOG_CACHE_MS, useApiQuery } from "../api/useApiQuery";
+import { useFavorites } from "../context/FavoritesContext";
+import { useLanguage } from "../context/LanguageContext";
+import ItemCard from "./ItemCard";
+import ItemModal from "./ItemModal";
+import LoadState from "./LoadState";
+
+type Props = {
+  // the home page only shows the section once there is something in it
+  hideWhenEmpty?: boolean;
+};
+
+// Favourites are stored as ids; the dishes themselves come from the (cached) menu,
+// so names and prices follow the current language and anything taken off the menu drops out
+export default function FavoritesSection({ hideWhenEmpty = false }: Props): JSX.Element | null {
+  const { itemIds } = useFavorites();
+  const { lang, t } = useLanguage();
+  const [selected, setSelected] = useState<Item | null>(null);
+
+  const menu = useApiQuery(
+    itemIds.length > 0 ? `menu:${lang}` : null,
+    (signal) => getFullMenu(lang, { signal }),
+    { cacheMs: CATALOG_CACHE_MS },
+  );
+  const items = useMemo(() => {
+    const byId = new Map((menu.data ?? []).flatMap((s) => s.items).map((it) => [String(it.id), it]));
+    return itemIds.map((id) => byId.get(id)).filter((it): it is Item => it !== undefined);
+  }, [menu.data, itemIds]);
+
+  if (hideWhenEmpty && itemIds.length === 0) return null;
+
+  return (
+    <section className="favorites-section">
+      <h2 className="categories-title">{t("favorites.title")}</h2>
+      {itemIds.length === 0 ? (
+        <p className="load-state">{t("favorites.empty")}</p>
+      ) : (
+        <LoadState
+          loading={menu.loading}
+          error={menu.error}
+          isEmpty={items.length === 0}
+          emptyText={t("favorites.unavailable")}
+          onRetry={menu.reload}
+        >
+          <div className="items-grid">
+            {items.map((it) => (
+              <ItemCard key={it.id} item={it} onClick={() => setSelected(it)} />
+            ))}
+          </div>
+        </LoadState>
+      )}
+
+      {selected && <ItemModal item={selected} onClose={() => setSelected(null)} />}
+    </section>
+  );
+}
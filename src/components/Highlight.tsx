@@ -0,0 +1,23 @@
+import { type JSX } from "react";
+import type { Range } from "../utils/search";
+
+type Props = {
+  text: string;
+  ranges?: Range[];
+};
+
+// Wraps the given (sorted, non-overlapping) ranges of `text` in <mark>
+export default function Highlight({ text, ranges = [] }: Props): JSX.Element {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: Array<string | JSX.Element> = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start < cursor) continue;
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className="search-mark">{text.slice(start, end)}</mark>);
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
@@ -1,21 +1,62 @@
-import React, { type JSX } from "react";
+import { useEffect, useRef, type JSX } from "react";
+import { Link } from "react-router-dom";
 import type { Category } from "../types.ts";
+import { useLanguage } from "../context/LanguageContext";
+import { localizedName } from "../i18n";
+import { categoryPath } from "../routes";
 
 type Props = {
   categories: Category[];
-  lang?: string;
+  activeId?: string;
+  onHover?: (id: Category["id"]) => void;
+  // In-page mode: pills become buttons that report the tap instead of navigating
+  onSelect?: (id: Category["id"]) => void;
+  sticky?: boolean;
+  pathFor?: (id: Category["id"]) => string;
 };
 
-export default function HorizontalCategoryNav({ categories, lang = "en" }: Props): JSX.Element {
+export default function HorizontalCategoryNav({
+  categories,
+  activeId,
+  onHover,
+  onSelect,
+  sticky,
+  pathFor = categoryPath,
+}: Props): JSX.Element {
+  const { lang } = useLanguage();
+  const wrapperRef = useRef<HTMLDivElement>(null);
+
+  // Keep the active pill centred. Scrolling the strip itself (not scrollIntoView)
+  // leaves the page's vertical position alone.
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    const pill = wrapper?.querySelector<HTMLElement>(".nav-pill.active");
+    if (!wrapper || !pill) return;
+    const left = pill.offsetLeft - (wrapper.clientWidth - pill.offsetWidth) / 2;
+    wrapper.scrollTo({ left: Math.max(0, left), behavior: "smooth" });
+  }, [activeId, categories]);
+
   return (
-    <div className="horizontal-nav-wrapper">
-      <div className="horizontal-nav">
-        {categories.map((cat) => (
-          <a key={cat.id} href={`/category?category=${cat.id}`} className="nav-pill">
-            {cat[`name_${lang}` as keyof Category] ?? cat.name_en}
-          </a>
-        ))}
-      </div>
+    <div className={sticky ? "horizontal-nav-wrapper sticky" : "horizontal-nav-wrapper"} ref={wrapperRef}>
+      <nav className="horizontal-nav">
+        {categories.map((cat) => {
+          const active = String(cat.id) === activeId;
+          const pill = {
+            className: active ? "nav-pill active" : "nav-pill",
+            onMouseEnter: onHover && (() => onHover(cat.id)),
+            onFocus: onHover && (() => onHover(cat.id)),
+          };
+          return onSelect ? (
+            <button key={cat.id} type="button" {...pill} aria-pressed={active} onClick={() => onSelect(cat.id)}>
+              {localizedName(cat, lang)}
+            </button>
+          ) : (
+            <Link key={cat.id} to={pathFor(cat.id)} {...pill} aria-current={active ? "page" : undefined}>
+              {localizedName(cat, lang)}
+            </Link>
+          );
+        })}
+      </nav>
     </div>
   );
 }
@@ -1,19 +1,60 @@
-import React, { type JSX } from "react";
+import { type JSX } from "react";
 import type { Item } from "../types.ts";
+import { useCart } from "../context/CartContext";
+import { useLanguage } from "../context/LanguageContext";
+import { parsePrice } from "../utils/price";
+import { snippet, type ItemMatch } from "../utils/search";
+import { hasOptions } from "../utils/itemOptions";
+import Highlight from "./Highlight";
+import DietaryBadges from "./DietaryBadges";
+import FavoriteButton from "./FavoriteButton";
 
 type Props = {
   item: Item;
   onClick: () => void;
+  match?: ItemMatch; // search hit to highlight
 };
 
-export default function ItemCard({ item, onClick }: Props): JSX.Element {
+// When the hit is not in the title, show where it is
+function MatchSnippet({ item, match }: { item: Item; match: ItemMatch }) {
+  const field = match.ingredients.length > 0 ? "ingredients" : match.description.length > 0 ? "description" : null;
+  const text = field && item[field];
+  if (!field || !text || match.title.length > 0) return null;
+  const cut = snippet(text, match[field]);
+  return (
+    <p className="item-snippet">
+      <Highlight text={cut.text} ranges={cut.ranges} />
+    </p>
+  );
+}
+
+export default function ItemCard({ item, onClick, match }: Props): JSX.Element {
   const imgUrl = item.img ?? "/placeholder.jpg";
+  const { addItem } = useCart();
+  const { t, formatPrice } = useLanguage();
   return (
     <div className="item-card" onClick={onClick} role="button">
+      <FavoriteButton item={item} />
       <img src={imgUrl} alt={item.title} className="item-img" />
       <div className="item-info">
-        <h3>{item.title}</h3>
-        <div className="price-pill">{item.price ? `${item.price} сом` : "—"}</div>
+        <h3>{match ? <Highlight text={item.title} ranges={match.title} /> : item.title}</h3>
+        {match && <MatchSnippet item={item} match={match} />}
+        <DietaryBadges item={item} />
+        <div className="price-pill">{item.price ? formatPrice(item.price) : "—"}</div>
+        {parsePrice(item.price) > 0 && (
+          <button
+            className="add-btn"
+            aria-label={t("item.addToCart", { title: item.title })}
+            onClick={(e) => {
+              e.stopPropagation();
+              // sizes and extras have to be picked in the modal first
+              if (hasOptions(item)) onClick();
+              else addItem(item);
+            }}
+          >
+            +
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,96 @@
+import { type JSX } from "react";
+import type { Item, ItemOption, ModifierGroup } from "../types.ts";
+import { useLanguage } from "../context/LanguageContext";
+import type { TranslateParams, TranslationKey } from "../i18n";
+import { toggleModifier, type GroupError, type ItemSelection } from "../utils/itemOptions";
+
+type Props = {
+  item: Item;
+  selection: ItemSelection;
+  onChange: (next: ItemSelection) => void;
+  errors: GroupError[]; // only passed once the guest has tried to add
+};
+
+function groupHint(group: ModifierGroup): { key: TranslationKey; params?: TranslateParams } {
+  if (group.min === 1 && group.max === 1) return { key: "options.chooseOne" };
+  if (group.min === 0) return { key: "options.upTo", params: { max: group.max } };
+  return { key: "options.chooseRange", params: { min: group.min, max: group.max } };
+}
+
+function OptionLabel({ option }: { option: ItemOption }) {
+  const { formatPrice } = useLanguage();
+  const delta = option.priceDelta;
+  return (
+    <>
+      <span>{option.name}</span>
+      {delta !== 0 && (
+        <span className="option-delta">{delta > 0 ? "+" : "−"}{formatPrice(Math.abs(delta))}</span>
+      )}
+    </>
+  );
+}
+
+// Variant groups are radio buttons; modifier groups are checkboxes capped at `max`
+export default function ItemConfigurator({ item, selection, onChange, errors }: Props): JSX.Element {
+  const { t } = useLanguage();
+  const errorFor = (groupId: string) => errors.find((e) => e.groupId === groupId);
+
+  return (
+    <div className="item-config">
+      {(item.variants ?? []).map((group) => {
+        const error = errorFor(group.id);
+        return (
+          <fieldset key={group.id} className="option-group" aria-invalid={error ? true : undefined}>
+            <legend>
+              {group.name} <span className="option-hint">{t("options.required")}</span>
+            </legend>
+            {group.options.map((option) => (
+              <label key={option.id} className="option-row">
+                <input
+                  type="radio"
+                  name={`variant-${item.id}-${group.id}`}
+                  checked={selection.variants[group.id] === option.id}
+                  onChange={() => onChange({ ...selection, variants: { ...selection.variants, [group.id]: option.id } })}
+                />
+                <OptionLabel option={option} />
+              </label>
+            ))}
+            {error && <p className="field-error" role="alert">{t(error.key, error.params)}</p>}
+          </fieldset>
+        );
+      })}
+
+      {(item.modifiers ?? []).map((group) => {
+        const chosen = selection.modifiers[group.id] ?? [];
+        const full = group.max > 1 && chosen.length >= group.max;
+        const hint = groupHint(group);
+        const error = errorFor(group.id);
+        return (
+          <fieldset key={group.id} className="option-group" aria-invalid={error ? true : undefined}>
+            <legend>
+              {group.name}{" "}
+              <span className="option-hint">
+                {t(group.min > 0 ? "options.required" : "options.optional")} · {t(hint.key, hint.params)}
+              </span>
+            </legend>
+            {group.options.map((option) => {
+              const checked = chosen.includes(option.id);
+              return (
+                <label key={option.id} className="option-row">
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    disabled={full && !checked}
+                    onChange={() => onChange(toggleModifier(selection, group, option.id))}
+                  />
+                  <OptionLabel option={option} />
+                </label>
+              );
+            })}
+            {error && <p className="field-error" role="alert">{t(error.key, error.params)}</p>}
+          </fieldset>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,5 +1,12 @@
-import React, { type JSX } from "react";
+import { useState, type JSX } from "react";
 import type { Item } from "../types.ts";
+import { useCart } from "../context/CartContext";
+import { useLanguage } from "../context/LanguageContext";
+import { defaultSelection, hasOptions, unitPrice, validateSelection } from "../utils/itemOptions";
+import QuantityStepper from "./QuantityStepper";
+import DietaryBadges from "./DietaryBadges";
+import ItemConfigurator from "./ItemConfigurator";
+import FavoriteButton from "./FavoriteButton";
 
 type Props = {
   item: Item;
@@ -8,17 +15,53 @@ type Props = {
 
 export default function ItemModal({ item, onClose }: Props): JSX.Element {
   const imgUrl = item.img ?? "/placeholder.jpg";
+  const { addItem } = useCart();
+  const { t, formatPrice } = useLanguage();
+  const [quantity, setQuantity] = useState(1);
+  const [selection, setSelection] = useState(() => defaultSelection(item));
+  // errors stay hidden until the first add attempt, then follow every change
+  const [triedToAdd, setTriedToAdd] = useState(false);
+  const price = unitPrice(item, selection);
+  const errors = validateSelection(item, selection);
+
+  const onAdd = () => {
+    if (errors.length > 0) {
+      setTriedToAdd(true);
+      return;
+    }
+    addItem(item, quantity, selection);
+    onClose();
+  };
 
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="modal-card" onClick={(e) => e.stopPropagation()}>
         <img src={imgUrl} className="modal-img" alt={item.title} />
-        <h2>{item.title}</h2>
+        <h2>
+          {item.title} <FavoriteButton item={item} className="fav-btn inline" />
+        </h2>
         {item.description && <p className="modal-desc">{item.description}</p>}
-        {item.ingredients && <p className="modal-ing">Состав: {item.ingredients}</p>}
-        <div className="modal-price">{item.price ? `${item.price} сом` : "-"}</div>
+        {item.ingredients && <p className="modal-ing">{t("item.ingredients", { list: item.ingredients })}</p>}
+        <DietaryBadges item={item} detailed />
+        {hasOptions(item) && (
+          <ItemConfigurator
+            item={item}
+            selection={selection}
+            onChange={setSelection}
+            errors={triedToAdd ? errors : []}
+          />
+        )}
+        <div className="modal-price">{price > 0 ? formatPrice(price) : "-"}</div>
+        {price > 0 && (
+          <div className="modal-order">
+            <QuantityStepper value={quantity} onChange={setQuantity} />
+            <button className="modal-add" onClick={onAdd} aria-disabled={triedToAdd && errors.length > 0}>
+              {t("item.addWithTotal", { total: formatPrice(price * quantity) })}
+            </button>
+          </div>
+        )}
         <button className="modal-close" onClick={onClose}>
-          Закрыть
+          {t("common.close")}
         </button>
       </div>
     </div>
@@ -0,0 +1,83 @@
+import { useState, type JSX } from "react";
+import type { LeaderboardPeriod } from "../types";
+import { getLeaderboard } from "../api";
+import { useApiQuery } from "../api/useApiQuery";
+import { useAuth } from "../context/AuthContext";
+import { useLanguage } from "../context/LanguageContext";
+import LoadState from "./LoadState";
+
+const PERIODS: LeaderboardPeriod[] = ["all", "week", "today"];
+
+type Props = {
+  refreshKey?: number; // bump after a run was submitted to refetch
+  dark?: boolean; // on the game-over overlay
+};
+
+// Giraffe Jump rankings with a tab per period and the player's own place
+export default function JumpLeaderboard({ refreshKey = 0, dark = false }: Props): JSX.Element {
+  const { apiUser } = useAuth();
+  const { t } = useLanguage();
+  const [period, setPeriod] = useState<LeaderboardPeriod>("week");
+  const username = apiUser?.username ?? "";
+  const board = useApiQuery(
+    `leaderboard:${period}:${username}:${refreshKey}`,
+    (signal) => getLeaderboard(period, { signal }),
+  );
+  const entries = board.data?.entries ?? [];
+  const me = board.data?.me ?? null;
+  const isMe = (name: string) => !!username && name.toLowerCase() === username.toLowerCase();
+  const meListed = entries.some(entry => isMe(entry.username));
+
+  return (
+    <section className={`leaderboard${dark ? " dark" : ""}`}>
+      <h3 className="leaderboard-title">{t("leaderboard.title")}</h3>
+
+      <div className="leaderboard-tabs" role="tablist">
+        {PERIODS.map(p => (
+          <button
+            key={p}
+            type="button"
+            role="tab"
+            aria-selected={p === period}
+            className={p === period ? "active" : undefined}
+            onClick={() => setPeriod(p)}
+          >
+            {t(`leaderboard.period.${p}`)}
+          </button>
+        ))}
+      </div>
+
+      <LoadState
+        loading={board.loading}
+        error={board.error}
+        isEmpty={entries.length === 0}
+        emptyText={t("leaderboard.empty")}
+        onRetry={board.reload}
+      >
+        <ol className="leaderboard-list">
+          {entries.map(entry => (
+            <li key={entry.username} className={isMe(entry.username) ? "mine" : undefined}>
+              <span className="leaderboard-rank">#{entry.rank}</span>
+              <span className="leaderboard-name">
+                {entry.username}
+                {isMe(entry.username) && ` (${t("leaderboard.you")})`}
+              </span>
+              <span className="leaderboard-score">{entry.score}</span>
+            </li>
+          ))}
+        </ol>
+      </LoadState>
+
+      {me && !meListed && (
+        <p className="leaderboard-me">{t("leaderboard.yourRank", { rank: me.rank, score: me.score })}</p>
+      )}
+      {board.data && (
+        <p className="leaderboard-note">
+          {apiUser
+            ? t("leaderboard.personalBest", { score: board.data.personalBest })
+            : t("leaderboard.signIn")}
+        </p>
+      )}
+    </section>
+  );
+}
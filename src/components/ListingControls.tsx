@@ -0,0 +1,68 @@
+import { type JSX } from "react";
+import { useLanguage } from "../context/LanguageContext";
+import { PRICE_STEP, SORT_KEYS, type ListingParams, type PriceBounds } from "../utils/itemListing";
+
+type Props = {
+  value: ListingParams;
+  bounds: PriceBounds | null;
+  onChange: (next: ListingParams) => void;
+};
+
+const clamp = (n: number, { min, max }: PriceBounds) => Math.min(max, Math.max(min, n));
+
+// Sort dropdown plus a two-handle price slider. A handle resting on the end of
+// the range means "no limit", so the URL only carries limits that cut something.
+export default function ListingControls({ value, bounds, onChange }: Props): JSX.Element {
+  const { t, formatPrice } = useLanguage();
+
+  const low = bounds ? clamp(value.min ?? bounds.min, bounds) : 0;
+  const high = bounds ? clamp(value.max ?? bounds.max, bounds) : 0;
+
+  const setLow = (n: number) => bounds && onChange({ ...value, min: n <= bounds.min ? null : Math.min(n, high) });
+  const setHigh = (n: number) => bounds && onChange({ ...value, max: n >= bounds.max ? null : Math.max(n, low) });
+
+  return (
+    <div className="listing-controls">
+      <label className="listing-sort">
+        <span>{t("listing.sort")}</span>
+        <select
+          className="filter-select"
+          value={value.sort}
+          onChange={(e) => onChange({ ...value, sort: e.target.value as ListingParams["sort"] })}
+        >
+          {SORT_KEYS.map((key) => (
+            <option key={key} value={key}>{t(`listing.sort.${key}`)}</option>
+          ))}
+        </select>
+      </label>
+
+      {bounds && bounds.max > bounds.min && (
+        <div className="price-range" role="group" aria-label={t("listing.price")}>
+          <span className="price-range-label">
+            {t("listing.priceRange", { min: formatPrice(low), max: formatPrice(high) })}
+          </span>
+          <div className="price-range-track">
+            <input
+              type="range"
+              min={bounds.min}
+              max={bounds.max}
+              step={PRICE_STEP}
+              value={low}
+              aria-label={t("listing.priceMin")}
+              onChange={(e) => setLow(Number(e.target.value))}
+            />
+            <input
+              type="range"
+              min={bounds.min}
+              max={bounds.max}
+              step={PRICE_STEP}
+              value={high}
+              aria-label={t("listing.priceMax")}
+              onChange={(e) => setHigh(Number(e.target.value))}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
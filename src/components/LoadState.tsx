@@ -0,0 +1,40 @@
+import { type JSX, type ReactNode } from "react";
+import type { ApiError } from "../api";
+import { useLanguage } from "../context/LanguageContext";
+
+type Props = {
+  loading: boolean;
+  error?: ApiError;
+  isEmpty: boolean;
+  emptyText: string;
+  onRetry?: () => void;
+  children: ReactNode;
+};
+
+// Loading / error / empty placeholder around API-backed content
+export default function LoadState({ loading, error, isEmpty, emptyText, onRetry, children }: Props): JSX.Element {
+  const { t } = useLanguage();
+
+  if (loading) {
+    return <div className="load-state">{t("status.loading")}</div>;
+  }
+
+  if (error) {
+    return (
+      <div className="load-state load-state-error" role="alert">
+        <p>{t(`status.error.${error.kind}`)}</p>
+        {onRetry && (
+          <button className="modal-close" onClick={onRetry}>
+            {t("status.retry")}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (isEmpty) {
+    return <div className="load-state">{emptyText}</div>;
+  }
+
+  return <>{children}</>;
+}
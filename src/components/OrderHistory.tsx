@@ -0,0 +1,79 @@
+import { type JSX } from "react";
+import { Link } from "react-router-dom";
+import type { Order } from "../types.ts";
+import { getOrders } from "../api";
+import { useApiQuery } from "../api/useApiQuery";
+import { useAuth } from "../context/AuthContext";
+import { useLanguage } from "../context/LanguageContext";
+import { shortOrderId } from "../utils/orders";
+import { orderPath } from "../routes";
+import LoadState from "./LoadState";
+import ReorderButton from "./ReorderButton";
+
+// How many dish names a collapsed order shows before "+N more"
+const PREVIEW_LINES = 2;
+
+export function OrderStatusBadge({ status }: { status: Order["status"] }): JSX.Element {
+  const { t } = useLanguage();
+  return <span className={`order-status ${status}`}>{t(`orders.status.${status}`)}</span>;
+}
+
+function OrderRow({ order }: { order: Order }) {
+  const { lang, t, formatPrice } = useLanguage();
+  const preview = order.lines.slice(0, PREVIEW_LINES).map((l) => `${l.title} × ${l.quantity}`).join(", ");
+  const more = order.lines.length - PREVIEW_LINES;
+
+  return (
+    <li className="order-row">
+      <Link to={orderPath(order.id)} className="order-row-link">
+        <div className="order-row-head">
+          <span>
+            {t("orders.number", { id: shortOrderId(order.id) })}
+            {order.tableId && ` · ${t("table.label", { table: order.tableId })}`}
+          </span>
+          <OrderStatusBadge status={order.status} />
+        </div>
+        <div className="order-row-date">
+          {new Date(order.placedAt).toLocaleString(lang)} · {t(`checkout.type.${order.type}`)}
+        </div>
+        <div className="order-row-items">
+          {preview}
+          {more > 0 && ` ${t("orders.more", { count: more })}`}
+        </div>
+        <div className="order-row-total">
+          {formatPrice(order.total)}
+          {order.discountAmount > 0 && (
+            <span className="order-row-discount"> {t("checkout.discount", { percent: order.discountPercent })}</span>
+          )}
+        </div>
+      </Link>
+      <ReorderButton order={order} />
+    </li>
+  );
+}
+
+export default function OrderHistory(): JSX.Element {
+  const { apiUser } = useAuth();
+  const { t } = useLanguage();
+  const username = apiUser?.username ?? null;
+  const orders = useApiQuery(username ? `orders:${username}` : null, (signal) => getOrders({ signal }));
+
+  return (
+    <section className="order-history">
+      <h2 className="categories-title">{t("orders.title")}</h2>
+      <LoadState
+        loading={orders.loading}
+        error={orders.error}
+        isEmpty={(orders.data ?? []).length === 0}
+        emptyText={t("orders.empty")}
+        onRetry={orders.reload}
+      >
+        <ul className="order-list">
+          {(orders.data ?? []).map((order) => (
+            <OrderRow key={order.id} order={order} />
+          ))}
+        </ul>
+      </LoadState>
+    </section>
+  );
+}
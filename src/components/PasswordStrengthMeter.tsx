@@ -0,0 +1,22 @@
+import { type JSX } from "react";
+import { useLanguage } from "../context/LanguageContext";
+import { passwordStrength } from "../utils/authValidation";
+
+export default function PasswordStrengthMeter({ password }: { password: string }): JSX.Element | null {
+  const { t } = useLanguage();
+  if (!password) return null;
+
+  const strength = passwordStrength(password);
+  return (
+    <div className={`strength-meter strength-${strength}`} aria-live="polite">
+      <div className="strength-bars">
+        {[0, 1, 2, 3].map((i) => (
+          <span key={i} className={i <= strength ? "filled" : undefined} />
+        ))}
+      </div>
+      <span className="strength-label">
+        {t("auth.strength", { level: t(`auth.strength.${strength}`) })}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { type JSX } from "react";
+import { useLanguage } from "../context/LanguageContext";
+
+type Props = {
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+};
+
+export default function QuantityStepper({ value, onChange, min = 1, max = 99 }: Props): JSX.Element {
+  const { t } = useLanguage();
+  return (
+    <div className="qty-stepper" onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        className="qty-btn"
+        onClick={() => onChange(Math.max(min, value - 1))}
+        disabled={value <= min}
+        aria-label={t("common.decrease")}
+      >
+        −
+      </button>
+      <span className="qty-value">{value}</span>
+      <button
+        type="button"
+        className="qty-btn"
+        onClick={() => onChange(Math.min(max, value + 1))}
+        disabled={value >= max}
+        aria-label={t("common.increase")}
+      >
+        +
+      </button>
+    </div>
+  );
+}
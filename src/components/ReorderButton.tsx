@@ -0,0 +1,76 @@
+import { useState, type JSX } from "react";
+import { Link } from "react-router-dom";
+import type { Order } from "../types.ts";
+import { getFullMenu, toApiError, type ApiError } from "../api";
+import { useCart } from "../context/CartContext";
+import { useLanguage } from "../context/LanguageContext";
+import { planReorder, type ReorderPlan } from "../utils/orders";
+import { ROUTES } from "../routes";
+
+type Props = {
+  order: Order;
+};
+
+type Status = { pending?: boolean; plan?: ReorderPlan; error?: ApiError };
+
+// Puts an old order back in the cart at today's prices and says what couldn't be added
+export default function ReorderButton({ order }: Props): JSX.Element {
+  const { addItem } = useCart();
+  const { lang, t, formatPrice } = useLanguage();
+  const [status, setStatus] = useState<Status>({});
+
+  const onReorder = async () => {
+    setStatus({ pending: true });
+    try {
+      // always a fresh menu: the point is to charge today's prices
+      const menu = await getFullMenu(lang);
+      const plan = planReorder(order, menu.flatMap((s) => s.items));
+      for (const line of plan.available) addItem(line.item, line.quantity, line.selection);
+      setStatus({ plan });
+    } catch (error) {
+      setStatus({ error: toApiError(error) });
+    }
+  };
+
+  const plan = status.plan;
+  const repriced = plan?.available.filter((l) => l.price !== l.previousPrice) ?? [];
+
+  return (
+    <div className="reorder">
+      <button className="modal-close" onClick={onReorder} disabled={status.pending}>
+        {t(status.pending ? "orders.reordering" : "orders.reorder")}
+      </button>
+
+      {status.error && (
+        <p className="auth-error" role="alert">{t(`status.error.${status.error.kind}`)}</p>
+      )}
+
+      {plan && (
+        <div className="reorder-result" role="status">
+          {plan.available.length > 0 ? (
+            <p>
+              {t("orders.reorderAdded", { count: plan.available.reduce((sum, l) => sum + l.quantity, 0) })}{" "}
+              <Link to={ROUTES.cart}>{t("orders.toCart")}</Link>
+            </p>
+          ) : (
+            <p>{t("orders.nothingAvailable")}</p>
+          )}
+          {plan.unavailable.length > 0 && (
+            <p className="reorder-unavailable">
+              {t("orders.unavailable", { list: plan.unavailable.map((l) => l.title).join(", ") })}
+            </p>
+          )}
+          {repriced.map((l, i) => (
+            <p key={i} className="reorder-repriced">
+              {t("orders.priceChanged", {
+                title: l.item.title,
+                price: formatPrice(l.price),
+                was: formatPrice(l.previousPrice),
+              })}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,98 +2,155 @@
 import React, { useState } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { useAuth } from "../context/AuthContext";
+import { useCart } from "../context/CartContext";
+import { useLanguage } from "../context/LanguageContext";
+import { useTable } from "../context/TableContext";
+import { LANGUAGES } from "../i18n";
+import { ROUTES, searchPath } from "../routes";
+import { addRecentSearch } from "../utils/recentSearches";
+import { withRedirect } from "../utils/redirect";
 
 type Props = {
   showLogo?: boolean;
   showSignIn?: boolean;
   hideHamburger?: boolean;
+  showSearch?: boolean;
 };
 
 
-export default function Navbar({ showLogo = true, showSignIn = true, hideHamburger = false }: Props) {
+export default function Navbar({ showLogo = true, showSignIn = true, hideHamburger = false, showSearch = true }: Props) {
   const navigate = useNavigate();
   const location = useLocation();
   const { auth, requireAuthNavigate, logout } = useAuth();
+  const { count } = useCart();
+  const { lang, setLang, t } = useLanguage();
+  const { tableId, leaveTable } = useTable();
   const [menuOpen, setMenuOpen] = useState(false);
+  const [langOpen, setLangOpen] = useState(false);
+  const [search, setSearch] = useState("");
 
 
   const onCabinetClick = () => {
     setMenuOpen(false);
     if (!auth.user) {
-      navigate(requireAuthNavigate("/cabinet"));
+      navigate(requireAuthNavigate(ROUTES.cabinet));
     } else {
-      navigate("/cabinet");
+      navigate(ROUTES.cabinet);
     }
   };
 
+  const onSearchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    addRecentSearch(search);
+    navigate(searchPath(search));
+  };
+
   const onSignInClick = () => {
-    navigate(`/login?redirect=${encodeURIComponent(location.pathname + location.search)}`);
+    navigate(withRedirect(ROUTES.login, location.pathname + location.search));
   };
 
   return (
-    <nav className="navbar">
-      <div className="navbar-left">
-        {!showLogo ? (
-          <button className="back-btn" onClick={() => navigate('/')}>
-            ←
-          </button>
-        ) : (
-          <img src="src/assets/giraffeLogo.png" className="logo" alt="Giraffe Logo" />
-        )}
-      </div>
-
-      <div className="navbar-right">
-        {/* Sign-in button shows only if requested AND not logged in */}
-        {showSignIn && !auth.user && (
-          <button className="signin-btn" onClick={onSignInClick}>
-            Sign In
-          </button>
-        )}
+    <>
+      <nav className="navbar">
+        <div className="navbar-left">
+          {!showLogo ? (
+            <button className="back-btn" onClick={() => navigate('/')}>
+              ←
+            </button>
+          ) : (
+            <img src="src/assets/giraffeLogo.png" className="logo" alt="Giraffe Logo" />
+          )}
+        </div>
+
+        <div className="navbar-right">
+          {showSearch && (
+            <form className="navbar-search" role="search" onSubmit={onSearchSubmit}>
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={t("search.placeholder")}
+                aria-label={t("search.placeholder")}
+              />
+            </form>
+          )}
 
-        {auth.user && (
-          <button className="logout-btn" onClick={() => logout()}>
-            Logout
+          <button className="cart-btn" onClick={() => navigate("/cart")} aria-label={t("nav.cart")}>
+            🛒
+            {count > 0 && <span className="cart-badge">{count > 99 ? "99+" : count}</span>}
           </button>
-        )}
-
-        {/* small user greeting when logged in (optional) */}
-        {auth.user && (
-          <div style={{ fontWeight: 600, color: "#6b3b11" }}>
-            {auth.user.username}
-          </div>
-        )}
-
-        {!hideHamburger && (
-          <div className="burger" role="button" aria-label="menu" onClick={() => setMenuOpen(open => !open)}>
-            <div />
-            <div />
-            <div />
-          </div>
-        )}
-
-        {/* simple dropdown */}
-        {menuOpen && (
-          <div style={{
-            position: "absolute",
-            right: 12,
-            top: "3.75rem",
-            background: "white",
-            borderRadius: 12,
-            boxShadow: "0 12px 40px rgba(0,0,0,0.12)",
-            border: "1px solid rgba(0,0,0,0.04)",
-            overflow: "hidden",
-            zIndex: 2000,
-            width: 180,
-          }}>
-            <button onClick={onCabinetClick} style={{ display: "block", width: "100%", padding: "12px 16px", background: "transparent", border: "none", textAlign: "left", cursor: "pointer" }}>
-              Cabinet
+
+          {/* Sign-in button shows only if requested AND not logged in */}
+          {showSignIn && !auth.user && (
+            <button className="signin-btn" onClick={onSignInClick}>
+              {t("nav.signIn")}
             </button>
-            <button onClick={() => { setMenuOpen(false); }} style={{ display: "block", width: "100%", padding: "12px 16px", background: "transparent", border: "none", textAlign: "left", cursor: "pointer", color: "#999" }}>
-              Language
+          )}
+
+          {auth.user && (
+            <button className="logout-btn" onClick={() => logout()}>
+              {t("nav.logout")}
             </button>
-          </div>
-        )}
-      </div>
-    </nav>
+          )}
+
+          {/* small user greeting when logged in (optional) */}
+          {auth.user && (
+            <div style={{ fontWeight: 600, color: "#6b3b11" }}>
+              {auth.user.username}
+            </div>
+          )}
+
+          {!hideHamburger && (
+            <div className="burger" role="button" aria-label={t("nav.menu")} onClick={() => { setMenuOpen(open => !open); setLangOpen(false); }}>
+              <div />
+              <div />
+              <div />
+            </div>
+          )}
+
+          {/* simple dropdown */}
+          {menuOpen && (
+            <div style={{
+              position: "absolute",
+              right: 12,
+              top: "3.75rem",
+              background: "white",
+              borderRadius: 12,
+              boxShadow: "0 12px 40px rgba(0,0,0,0.12)",
+              border: "1px solid rgba(0,0,0,0.04)",
+              overflow: "hidden",
+              zIndex: 2000,
+              width: 180,
+            }}>
+              <button onClick={onCabinetClick} style={{ display: "block", width: "100%", padding: "12px 16px", background: "transparent", border: "none", textAlign: "left", cursor: "pointer" }}>
+                {t("nav.cabinet")}
+              </button>
+              <button onClick={() => setLangOpen(open => !open)} style={{ display: "flex", justifyContent: "space-between", width: "100%", padding: "12px 16px", background: "transparent", border: "none", textAlign: "left", cursor: "pointer" }}>
+                <span>{t("nav.language")}</span>
+                <span style={{ color: "#999", textTransform: "uppercase" }}>{lang}</span>
+              </button>
+              {langOpen && LANGUAGES.map(option => (
+                <button
+                  key={option.code}
+                  onClick={() => { setLang(option.code); setLangOpen(false); setMenuOpen(false); }}
+                  style={{ display: "block", width: "100%", padding: "10px 28px", background: option.code === lang ? "#FFF1E6" : "transparent", border: "none", textAlign: "left", cursor: "pointer", fontWeight: option.code === lang ? 700 : 400 }}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </nav>
+
+      {tableId && (
+        <div className="table-banner" role="status">
+          <span>🍽 {t("table.label", { table: tableId })}</span>
+          <button className="table-banner-leave" onClick={leaveTable}>
+            {t("table.leave")}
+          </button>
+        </div>
+      )}
+    </>
   );
 }
@@ -1,37 +1,44 @@
 // src/context/AuthContext.tsx
 import React, { createContext, useContext, useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
-
-export type User = {
-  username: string;
-  email: string;
-};
-
-type DiscountRecord = {
-  amount: number; // percent, 0..100
-  expiresAt: string | null; // ISO string or null
-};
+import { getWallet, migrateWallet, toApiError } from "../api";
+import type { LoyaltyWallet } from "../types";
+import { clearGameProgress } from "../utils/gameProgress";
+import { deviceWalletClaim, forgetDeviceWallet } from "../utils/loyaltyWallet";
+import { clearDietFilter } from "../utils/dietary";
+import { clearFavorites } from "../utils/favoritesStore";
+import { authProvider, getSession, setSession, subscribe } from "../auth/session";
+import { AuthError, type AuthErrorCode, type Session, type User } from "../auth/types";
+import { ROUTES } from "../routes";
+import { withRedirect } from "../utils/redirect";
+
+export type { User };
 
 type AuthState = {
   user: User | null;
   token: string | null;
-  discount: DiscountRecord;
 };
 
+export type AuthResult = { ok: boolean; message?: string; code?: AuthErrorCode };
+export type ResetRequestResult = AuthResult & { resetToken?: string };
+
 type AuthContextType = {
   auth: AuthState;
-  signup: (username: string, email: string, password: string) => Promise<{ ok: boolean; message?: string }>;
-  login: (usernameOrEmail: string, password: string) => Promise<{ ok: boolean; message?: string }>;
+  apiUser: User | null; // auth.user when the API knows the account; null for guests and local accounts
+  signup: (username: string, email: string, password: string) => Promise<AuthResult>;
+  login: (usernameOrEmail: string, password: string) => Promise<AuthResult>;
   logout: () => void;
   requireAuthNavigate: (path: string) => string; // returns redirect url to use
-  addDiscountPercent: (percent: number, extendDays?: number) => void;
-  addDiscountFromPoints: (points: number, pointsPerPercent?: number, extendDays?: number) => number;
-  resetDiscount: () => void;
+  wallet: LoyaltyWallet | null; // null for guests and until the server has answered
+  applyWallet: (wallet: LoyaltyWallet) => void; // a response that already carries the new balance
+  refreshWallet: () => void;
+  changePassword: (password: string, newPassword: string) => Promise<AuthResult>;
+  changeEmail: (email: string, password: string) => Promise<AuthResult>;
+  deleteAccount: (password: string) => Promise<AuthResult>;
+  requestPasswordReset: (email: string) => Promise<ResetRequestResult>;
+  resetPassword: (token: string, newPassword: string) => Promise<AuthResult>;
 };
 
-const LOCAL_KEY = "menu_frontend_auth_v1";
-const USERS_KEY = "menu_frontend_users_v1"; // simple mock DB
-
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -40,174 +47,168 @@ export const useAuth = () => {
   return ctx;
 };
 
-function loadState(): AuthState {
-  try {
-    const raw = localStorage.getItem(LOCAL_KEY);
-    if (!raw) {
-      return {
-        user: null,
-        token: null,
-        discount: { amount: 0, expiresAt: null },
-      };
-    }
-    return JSON.parse(raw) as AuthState;
-  } catch {
-    return {
-      user: null,
-      token: null,
-      discount: { amount: 0, expiresAt: null },
-    };
-  }
-}
-
-function saveState(state: AuthState) {
-  localStorage.setItem(LOCAL_KEY, JSON.stringify(state));
-}
+const toAuthState = (session: Session | null): AuthState => ({
+  user: session?.user ?? null,
+  token: session?.accessToken ?? null,
+});
+
+type WalletState = { owner: string | null; wallet: LoyaltyWallet | null };
+
+const failure = (error: unknown): AuthResult => {
+  const authError = error instanceof AuthError ? error : new AuthError("unavailable");
+  return { ok: false, message: authError.message, code: authError.code };
+};
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const navigate = useNavigate();
-  const [auth, setAuth] = useState<AuthState>(loadState);
-
+  const [auth, setAuth] = useState<AuthState>(() => toAuthState(getSession()));
+  const apiUser = authProvider.apiAccounts ? auth.user : null;
+  // only API accounts have a wallet
+  const owner = apiUser?.username ?? null;
+  const [walletState, setWalletState] = useState<WalletState>({ owner: null, wallet: null });
+  const [walletVersion, setWalletVersion] = useState(0);
+  // a wallet fetched for whoever was signed in before is never shown
+  const wallet = walletState.owner === owner ? walletState.wallet : null;
+
+  // The session can also change outside React: token refresh, or expiry after a 401.
+  // Losing the user here is what sends ProtectedRoute to /login?redirect=...
+  useEffect(() => subscribe(session => setAuth(toAuthState(session))), []);
+
+  // The balance is the server's; this only keeps a copy to show.
+  // A balance left on this device from before is offered to it first, once.
   useEffect(() => {
-    saveState(auth);
-  }, [auth]);
-
-  // simple mock users storage
-  const loadUsers = () => {
+    if (!owner) return;
+    const controller = new AbortController();
+    const { signal } = controller;
+    const claim = deviceWalletClaim(owner);
+    const load = claim
+      ? migrateWallet(claim, { signal }).then(
+        next => {
+          forgetDeviceWallet(owner);
+          return next;
+        },
+        error => {
+          // offline or signed out: keep the claim for the next try. Any other
+          // answer (already migrated, rejected) is final.
+          const apiError = toApiError(error);
+          if (apiError.kind !== "http" || apiError.isRetryable || apiError.status === 401) throw error;
+          forgetDeviceWallet(owner);
+          return getWallet({ signal });
+        },
+      )
+      : getWallet({ signal });
+    load.then(
+      next => setWalletState({ owner, wallet: next }),
+      () => {
+        // offline or aborted: keep what is shown, the next refresh tries again
+      },
+    );
+    return () => controller.abort();
+  }, [owner, walletVersion]);
+
+  // Signup: creates the account and signs in
+  const signup = async (username: string, email: string, password: string): Promise<AuthResult> => {
     try {
-      const raw = localStorage.getItem(USERS_KEY);
-      return raw ? JSON.parse(raw) as Array<{ username: string; email: string; password: string }> : [];
-    } catch {
-      return [];
+      setSession(await authProvider.signup(username, email, password), "login");
+      return { ok: true };
+    } catch (error) {
+      return failure(error);
     }
   };
-  const saveUsers = (users: Array<{ username: string; email: string; password: string }>) => {
-    localStorage.setItem(USERS_KEY, JSON.stringify(users));
-  };
-
-  // Signup: saves to mock DB and auto-login
-  const signup = async (username: string, email: string, password: string) => {
-    const users = loadUsers();
-    const emailTaken = users.some(u => u.email.toLowerCase() === email.toLowerCase());
-    const usernameTaken = users.some(u => u.username.toLowerCase() === username.toLowerCase());
-    if (emailTaken) {
-      return { ok: false, message: "Email already in use" };
-    }
-    if (usernameTaken) {
-      return { ok: false, message: "Username already taken" };
-    }
-    users.push({ username, email, password });
-    saveUsers(users);
-
-    // Auto-login
-    const token = "mock-token-" + Math.random().toString(36).slice(2);
-    const newState: AuthState = {
-      user: { username, email },
-      token,
-      discount: { amount: 0, expiresAt: null },
-    };
-    setAuth(newState);
-    return { ok: true };
-  };
 
   // Login by username or email
-  const login = async (usernameOrEmail: string, password: string) => {
-    const users = loadUsers();
-    const user = users.find(u => (u.email.toLowerCase() === usernameOrEmail.toLowerCase() || u.username.toLowerCase() === usernameOrEmail.toLowerCase()) && u.password === password);
-    if (!user) {
-      return { ok: false, message: "Invalid credentials" };
+  const login = async (usernameOrEmail: string, password: string): Promise<AuthResult> => {
+    try {
+      setSession(await authProvider.login(usernameOrEmail, password), "login");
+      return { ok: true };
+    } catch (error) {
+      return failure(error);
     }
-    const token = "mock-token-" + Math.random().toString(36).slice(2);
-    const newState: AuthState = {
-      user: { username: user.username, email: user.email },
-      token,
-      discount: auth.discount, // preserve discount if any
-    };
-    setAuth(newState);
-    return { ok: true };
   };
 
   const logout = () => {
-    setAuth({
-      user: null,
-      token: null,
-      discount: { amount: 0, expiresAt: null },
-    });
-    navigate("/");
+    const session = getSession();
+    if (session) void authProvider.logout(session);
+    setSession(null, "logout");
+    navigate(ROUTES.home);
   };
 
-  // helper: returns iso string for now + days
-  const addDaysISO = (days: number) => {
-    const d = new Date();
-    d.setDate(d.getDate() + days);
-    return d.toISOString();
+  // Account management needs a live session; a missing one reads as expired
+  const withSession = async (fn: (session: Session) => Promise<void>): Promise<AuthResult> => {
+    const session = getSession();
+    if (!session) return failure(new AuthError("session_expired"));
+    try {
+      await fn(session);
+      return { ok: true };
+    } catch (error) {
+      return failure(error);
+    }
   };
 
-  const isExpired = (expiresAt: string | null) => {
-    if (!expiresAt) return true;
-    return new Date(expiresAt).getTime() < Date.now();
-  };
+  const changePassword = (password: string, newPassword: string) =>
+    withSession(session => authProvider.changePassword(session, password, newPassword));
 
-  // add percent and extend expiration (default 7 days)
-  const addDiscountPercent = (percent: number, extendDays = 7) => {
-    setAuth(prev => {
-      if (!prev.user) return prev;
-      let current = prev.discount.amount ?? 0;
-      if (current >= 100) {
-        // locked at 100% — do not extend per your rule
-        return prev;
-      }
-      let newAmount = Math.min(100, Math.round((current + percent) * 100) / 100);
-      // if newAmount is 100% then expiration becomes now+extendDays but further wins won't extend
-      const newExpires = addDaysISO(extendDays);
-      // If previous expired, set fresh expiration; else extend from now (you wanted reset to 7 days from last win)
-      return {
-        ...prev,
-        discount: {
-          amount: newAmount,
-          expiresAt: newAmount >= 100 ? addDaysISO(extendDays) : newExpires,
-        },
-      };
+  const changeEmail = (email: string, password: string) =>
+    withSession(async session => {
+      const user = await authProvider.changeEmail(session, email, password);
+      setSession({ ...session, user }, "update");
+    });
+
+  // Wipes everything stored for the user on this device, then signs out
+  const deleteAccount = (password: string) =>
+    withSession(async session => {
+      await authProvider.deleteAccount(session, password);
+      clearGameProgress(session.user.username);
+      clearDietFilter(session.user.username);
+      clearFavorites(session.user.username);
+      forgetDeviceWallet(session.user.username);
+      setSession(null, "logout");
+      navigate(ROUTES.home);
     });
+
+  const requestPasswordReset = async (email: string): Promise<ResetRequestResult> => {
+    try {
+      return { ok: true, ...await authProvider.requestPasswordReset(email) };
+    } catch (error) {
+      return failure(error);
+    }
   };
 
-  // convert points into percent using pointsPerPercent (default 1000 points = 1%)
-  // returns percent added
-  const addDiscountFromPoints = (points: number, pointsPerPercent = 1000, extendDays = 7) => {
-    const percent = Math.floor(points / pointsPerPercent);
-    if (percent <= 0) return 0;
-    addDiscountPercent(percent, extendDays);
-    return percent;
+  const resetPassword = async (token: string, newPassword: string): Promise<AuthResult> => {
+    try {
+      await authProvider.resetPassword(token, newPassword);
+      return { ok: true };
+    } catch (error) {
+      return failure(error);
+    }
   };
 
-  const resetDiscount = () => {
-    setAuth(prev => ({ ...prev, discount: { amount: 0, expiresAt: null } }));
+  // Endpoints that change the wallet answer with it, which saves a refetch
+  const applyWallet = (next: LoyaltyWallet) => {
+    if (owner && next.username.toLowerCase() === owner.toLowerCase()) setWalletState({ owner, wallet: next });
   };
 
-  // On mount, if discount expired, clear it
-  useEffect(() => {
-    if (auth.discount && auth.discount.expiresAt && isExpired(auth.discount.expiresAt)) {
-      setAuth(prev => ({ ...prev, discount: { amount: 0, expiresAt: null } }));
-    }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  const refreshWallet = () => setWalletVersion(v => v + 1);
 
   // Helper for redirect url (used by UI)
-  const requireAuthNavigate = (path: string) => {
-    // return the redirect url for login page
-    return `/login?redirect=${encodeURIComponent(path)}`;
-  };
+  const requireAuthNavigate = (path: string) => withRedirect(ROUTES.login, path);
 
   return (
     <AuthContext.Provider value={{
       auth,
+      apiUser,
       signup,
       login,
       logout,
       requireAuthNavigate,
-      addDiscountPercent,
-      addDiscountFromPoints,
-      resetDiscount,
+      wallet,
+      applyWallet,
+      refreshWallet,
+      changePassword,
+      changeEmail,
+      deleteAccount,
+      requestPasswordReset,
+      resetPassword,
     }}>
       {children}
     </AuthContext.Provider>
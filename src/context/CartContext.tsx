@@ -0,0 +1,135 @@
+// src/context/CartContext.tsx
+import React, { createContext, useContext, useEffect, useState } from "react";
+import type { Item } from "../types";
+import { parsePrice } from "../utils/price";
+import { chosenOptions, defaultSelection, hasOptions, selectionKey, unitPrice, type ItemSelection } from "../utils/itemOptions";
+
+export type CartLine = {
+  key: string; // item id plus its options; the same dish configured twice makes two lines
+  id: number | string; // item id
+  title: string;
+  price: number; // unit price in сом, options included
+  img?: string;
+  options?: string[]; // names of the chosen variants/modifiers
+  selection?: ItemSelection; // kept with the order so a reorder can repeat it
+  quantity: number;
+};
+
+type CartContextType = {
+  lines: CartLine[];
+  count: number; // total quantity across lines
+  subtotal: number;
+  addItem: (item: Item, quantity?: number, selection?: ItemSelection) => void;
+  setQuantity: (key: CartLine["key"], quantity: number) => void;
+  removeItem: (key: CartLine["key"]) => void;
+  clearCart: () => void;
+  repriceLines: (items: Item[]) => void; // current prices for the lines whose item is among `items`
+};
+
+const CART_KEY = "menu_frontend_cart_v1";
+const MAX_QUANTITY = 99;
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+export const useCart = () => {
+  const ctx = useContext(CartContext);
+  if (!ctx) throw new Error("useCart must be used inside CartProvider");
+  return ctx;
+};
+
+function loadLines(): CartLine[] {
+  try {
+    const raw = localStorage.getItem(CART_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    // lines saved before options existed have no key and a price that may be a string
+    return (parsed as Array<Omit<CartLine, "key"> & { key?: string }>).map(line => ({
+      ...line,
+      key: line.key ?? String(line.id),
+      price: parsePrice(line.price),
+    }));
+  } catch {
+    return [];
+  }
+}
+
+function saveLines(lines: CartLine[]) {
+  localStorage.setItem(CART_KEY, JSON.stringify(lines));
+}
+
+const clampQuantity = (quantity: number) => Math.max(0, Math.min(MAX_QUANTITY, Math.floor(quantity)));
+
+export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [lines, setLines] = useState<CartLine[]>(loadLines);
+
+  useEffect(() => {
+    saveLines(lines);
+  }, [lines]);
+
+  const addItem = (item: Item, quantity = 1, selection = defaultSelection(item)) => {
+    if (quantity <= 0) return;
+    const key = selectionKey(item, selection);
+    setLines(prev => {
+      const existing = prev.find(l => l.key === key);
+      if (existing) {
+        return prev.map(l => l === existing ? { ...l, quantity: clampQuantity(l.quantity + quantity) } : l);
+      }
+      const options = chosenOptions(item, selection).map(o => o.name);
+      return [...prev, {
+        key,
+        id: item.id,
+        title: item.title,
+        price: unitPrice(item, selection),
+        img: item.img,
+        ...(options.length > 0 && { options }),
+        ...(hasOptions(item) && { selection }),
+        quantity: clampQuantity(quantity),
+      }];
+    });
+  };
+
+  // quantity 0 removes the line
+  const setQuantity = (key: CartLine["key"], quantity: number) => {
+    const next = clampQuantity(quantity);
+    setLines(prev => next === 0
+      ? prev.filter(l => l.key !== key)
+      : prev.map(l => l.key === key ? { ...l, quantity: next } : l));
+  };
+
+  const removeItem = (key: CartLine["key"]) => {
+    setLines(prev => prev.filter(l => l.key !== key));
+  };
+
+  const clearCart = () => setLines([]);
+
+  // Line prices are taken when the item is added and kept with the cart, so
+  // they go stale when the menu changes
+  const repriceLines = (items: Item[]) => {
+    const byId = new Map(items.map(item => [String(item.id), item]));
+    setLines(prev => prev.map(line => {
+      const item = byId.get(String(line.id));
+      if (!item) return line;
+      const price = unitPrice(item, line.selection ?? defaultSelection(item));
+      return price === line.price ? line : { ...line, price };
+    }));
+  };
+
+  const count = lines.reduce((sum, l) => sum + l.quantity, 0);
+  const subtotal = lines.reduce((sum, l) => sum + l.price * l.quantity, 0);
+
+  return (
+    <CartContext.Provider value={{
+      lines,
+      count,
+      subtotal,
+      addItem,
+      setQuantity,
+      removeItem,
+      clearCart,
+      repriceLines,
+    }}>
+      {children}
+    </CartContext.Provider>
+  );
+};
@@ -0,0 +1,95 @@
+// src/context/FavoritesContext.tsx
+import React, { createContext, useContext, useEffect, useRef, useState } from "react";
+import type { Item } from "../types";
+import { getFavorites, putFavorites } from "../api";
+import { useAuth } from "./AuthContext";
+import { loadFavorites, mergeFavorites, storeFavorites } from "../utils/favoritesStore";
+
+type FavoritesContextType = {
+  itemIds: string[]; // newest first
+  isFavorite: (id: Item["id"]) => boolean;
+  toggleFavorite: (id: Item["id"]) => void;
+};
+
+type FavoritesState = { owner: string | null; itemIds: string[] };
+
+const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+export const useFavorites = () => {
+  const ctx = useContext(FavoritesContext);
+  if (!ctx) throw new Error("useFavorites must be used inside FavoritesProvider");
+  return ctx;
+};
+
+export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { apiUser } = useAuth();
+  // a local account has nothing on the server to sync with, so it keeps the guest list
+  const owner = apiUser?.username ?? null;
+  const [state, setState] = useState<FavoritesState>(() => ({ owner, itemIds: loadFavorites(owner).itemIds }));
+  // a different user signed in: show their cached list until the server answers
+  const itemIds = state.owner === owner ? state.itemIds : loadFavorites(owner).itemIds;
+
+  // PUTs go out one at a time so an older list can never overwrite a newer one
+  const saving = useRef<Promise<unknown>>(Promise.resolve());
+  const latest = useRef<string[] | null>(null);
+
+  // On sign-in (or reload) reconcile three lists: the server's, any offline
+  // changes to the account, and whatever was saved as a guest before logging in
+  useEffect(() => {
+    if (!owner) return;
+    let cancelled = false;
+    const local = loadFavorites(owner);
+    const guest = loadFavorites(null).itemIds;
+
+    const sync = async () => {
+      const base = local.dirty ? local.itemIds : (await getFavorites()).itemIds;
+      const merged = mergeFavorites(base, guest);
+      const stored = local.dirty || guest.length > 0 ? (await putFavorites(merged)).itemIds : merged;
+      storeFavorites(owner, { itemIds: stored });
+      storeFavorites(null, { itemIds: [] });
+      if (!cancelled) setState({ owner, itemIds: stored });
+    };
+
+    sync().catch(() => {
+      // offline: keep the guest picks on the account and push them next time
+      if (guest.length === 0) return;
+      const merged = mergeFavorites(local.itemIds, guest);
+      storeFavorites(owner, { itemIds: merged, dirty: true });
+      storeFavorites(null, { itemIds: [] });
+      if (!cancelled) setState({ owner, itemIds: merged });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [owner]);
+
+  const isFavorite = (id: Item["id"]) => itemIds.includes(String(id));
+
+  const toggleFavorite = (id: Item["id"]) => {
+    const key = String(id);
+    const next = itemIds.includes(key) ? itemIds.filter(i => i !== key) : [key, ...itemIds];
+    setState({ owner, itemIds: next });
+
+    if (!owner) {
+      storeFavorites(null, { itemIds: next });
+      return;
+    }
+    storeFavorites(owner, { itemIds: next, dirty: true });
+    latest.current = next;
+    saving.current = saving.current
+      .then(() => putFavorites(next))
+      .then(() => {
+        // only the last toggle's save marks the copy clean
+        if (latest.current === next) storeFavorites(owner, { itemIds: next });
+      })
+      .catch(() => {
+        // stays dirty and is pushed on the next sign-in or reload
+      });
+  };
+
+  return (
+    <FavoritesContext.Provider value={{ itemIds, isFavorite, toggleFavorite }}>
+      {children}
+    </FavoritesContext.Provider>
+  );
+};
@@ -0,0 +1,59 @@
+// src/context/LanguageContext.tsx
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import {
+  DEFAULT_LANG,
+  isLang,
+  translate,
+  type Lang,
+  type TranslateParams,
+  type TranslationKey,
+} from "../i18n";
+
+type LanguageContextType = {
+  lang: Lang;
+  setLang: (lang: Lang) => void;
+  t: (key: TranslationKey, params?: TranslateParams) => string;
+  formatPrice: (amount: number | string) => string;
+};
+
+// CategoryPage has always read this key, so keep it
+const LANG_KEY = "lang";
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+export const useLanguage = () => {
+  const ctx = useContext(LanguageContext);
+  if (!ctx) throw new Error("useLanguage must be used inside LanguageProvider");
+  return ctx;
+};
+
+function loadLang(): Lang {
+  try {
+    const saved = localStorage.getItem(LANG_KEY);
+    return isLang(saved) ? saved : DEFAULT_LANG;
+  } catch {
+    return DEFAULT_LANG;
+  }
+}
+
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [lang, setLang] = useState<Lang>(loadLang);
+
+  useEffect(() => {
+    localStorage.setItem(LANG_KEY, lang);
+    document.documentElement.lang = lang;
+  }, [lang]);
+
+  // stable per language so effects and game loops can list `t` as a dependency
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslateParams) => translate(lang, key, params),
+    [lang],
+  );
+  const formatPrice = useCallback((amount: number | string) => t("common.currency", { amount }), [t]);
+
+  return (
+    <LanguageContext.Provider value={{ lang, setLang, t, formatPrice }}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
@@ -0,0 +1,38 @@
+// src/context/TableContext.tsx
+import React, { createContext, useCallback, useContext, useState } from "react";
+import { clearTable, loadTable, saveTable } from "../utils/tableSession";
+
+type TableContextType = {
+  tableId: string | null; // set while the guest is seated at a table
+  enterTable: (id: string) => void;
+  leaveTable: () => void;
+};
+
+const TableContext = createContext<TableContextType | undefined>(undefined);
+
+export const useTable = () => {
+  const ctx = useContext(TableContext);
+  if (!ctx) throw new Error("useTable must be used inside TableProvider");
+  return ctx;
+};
+
+export const TableProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [tableId, setTableId] = useState<string | null>(loadTable);
+
+  // stable, so the /t/:tableId route can call it from an effect
+  const enterTable = useCallback((id: string) => {
+    saveTable(id);
+    setTableId(id);
+  }, []);
+
+  const leaveTable = () => {
+    clearTable();
+    setTableId(null);
+  };
+
+  return (
+    <TableContext.Provider value={{ tableId, enterTable, leaveTable }}>
+      {children}
+    </TableContext.Provider>
+  );
+};
@@ -0,0 +1,363 @@
+// src/i18n/en.ts
+// English is the reference dictionary: its keys define TranslationKey.
+const en = {
+  // navbar
+  "nav.signIn": "Sign In",
+  "nav.logout": "Logout",
+  "nav.cabinet": "Cabinet",
+  "nav.language": "Language",
+  "nav.cart": "Cart",
+  "nav.menu": "Menu",
+
+  // common
+  "common.currency": "{amount} som",
+  "common.close": "Close",
+  "common.back": "Back",
+  "common.remove": "Remove",
+  "common.increase": "Increase quantity",
+  "common.decrease": "Decrease quantity",
+
+  // home
+  "home.getBonuses": "Get Bonuses",
+  "home.categories": "Menu Categories",
+  "home.banner.bonusText": "GET UP",
+  "home.banner.fruitCakes": "Fruit Cakes",
+  "home.banner.off": "50%              off",
+  "home.banner.orderNow": "Order Now & Enjoy",
+  "banner.playNow": "Play Now",
+  "banner.prev": "Previous banner",
+  "banner.next": "Next banner",
+  "banner.goTo": "Go to slide {n}",
+
+  // loading / errors
+  "status.loading": "Loading…",
+  "status.retry": "Try again",
+  "status.error.network": "Can't reach the server. Check your connection.",
+  "status.error.timeout": "The server is taking too long to respond.",
+  "status.error.http": "Something went wrong on our side.",
+  "status.error.validation": "Received unexpected data from the server.",
+  "status.error.aborted": "The request was cancelled.",
+  "status.emptyCategories": "The menu is empty for now.",
+  "status.emptyItems": "No dishes in this category yet.",
+
+  // category / items
+  "category.fallbackTitle": "Category",
+  "menu.fullMenu": "See the full menu",
+  "item.ingredients": "Ingredients: {list}",
+  "item.addToCart": "Add {title} to cart",
+  "item.addWithTotal": "Add to cart · {total}",
+  "options.required": "Required",
+  "options.optional": "Optional",
+  "options.chooseOne": "choose 1",
+  "options.upTo": "up to {max}",
+  "options.chooseRange": "choose {min} to {max}",
+  "options.error.required": "Please make a choice",
+  "options.error.min": "Choose at least {min}",
+  "options.error.max": "Choose no more than {max}",
+
+  // favorites
+  "favorites.title": "Favorites",
+  "favorites.add": "Add {title} to favorites",
+  "favorites.remove": "Remove {title} from favorites",
+  "favorites.empty": "Tap ♡ on a dish to keep it here.",
+  "favorites.unavailable": "Your favorite dishes are not on the menu right now.",
+
+  // order history
+  "orders.title": "Order history",
+  "orders.empty": "You haven't placed any orders yet.",
+  "orders.number": "Order #{id}",
+  "orders.more": "+{count} more",
+  "orders.status.placed": "Placed",
+  "orders.status.preparing": "Preparing",
+  "orders.status.ready": "Ready",
+  "orders.status.completed": "Completed",
+  "orders.status.cancelled": "Cancelled",
+  "orders.reorder": "Reorder",
+  "orders.reordering": "Adding…",
+  "orders.reorderAdded": "Added to cart: {count}.",
+  "orders.toCart": "Go to cart",
+  "orders.nothingAvailable": "None of these dishes are on the menu any more.",
+  "orders.unavailable": "No longer available: {list}",
+  "orders.priceChanged": "{title} now costs {price} (was {was})",
+  "orders.back": "Back to cabinet",
+  "orders.notFound": "Order not found.",
+  "orders.scheduledFor": "for {time}",
+
+  // dine-in tables
+  "table.label": "Table {table}",
+  "table.leave": "Leave table",
+  "table.servedAt": "We'll bring it to table {table}.",
+  "tableQr.title": "Table QR codes",
+  "tableQr.ids": "Table ids",
+  "tableQr.idsHint": "Separate with commas or spaces; ranges like 1-12 work too.",
+  "tableQr.baseUrl": "Site address",
+  "tableQr.print": "Print",
+  "tableQr.invalid": "Skipped, not a valid table id: {list}",
+  "tableQr.tooMany": "Only the first {max} tables are shown.",
+  "tableQr.empty": "Enter at least one table id.",
+  "tableQr.codeFor": "QR code for table {table}",
+
+  // dietary tags / filters
+  "diet.tag.vegetarian": "Vegetarian",
+  "diet.tag.vegan": "Vegan",
+  "diet.tag.gluten_free": "Gluten-free",
+  "diet.tag.halal": "Halal",
+  "diet.spiciness": "Spiciness: {n} of 3",
+  "diet.allergen.gluten": "gluten",
+  "diet.allergen.dairy": "milk",
+  "diet.allergen.eggs": "eggs",
+  "diet.allergen.nuts": "tree nuts",
+  "diet.allergen.peanuts": "peanuts",
+  "diet.allergen.soy": "soy",
+  "diet.allergen.fish": "fish",
+  "diet.allergen.shellfish": "shellfish",
+  "diet.allergen.sesame": "sesame",
+  "diet.contains": "Contains: {list}",
+  "diet.noAllergens": "No major allergens",
+  "diet.allergensUnknown": "Allergen information is not available, please ask the staff",
+  "filter.title": "Dietary filters",
+  "filter.spice": "Spiciness",
+  "filter.spiceAny": "Any spiciness",
+  "filter.spice0": "Not spicy",
+  "filter.spice1": "Mild at most",
+  "filter.spice2": "Medium at most",
+  "filter.allergens": "Exclude allergens",
+  "filter.reset": "Reset filters",
+  "filter.count": "Showing {shown} of {total}",
+  "filter.empty": "No dishes match your filters.",
+  "listing.sort": "Sort",
+  "listing.sort.default": "Recommended",
+  "listing.sort.price_asc": "Price: low to high",
+  "listing.sort.price_desc": "Price: high to low",
+  "listing.sort.popular": "Most popular",
+  "listing.sort.newest": "Newest first",
+  "listing.sort.name": "Name, A to Z",
+  "listing.price": "Price range",
+  "listing.priceRange": "{min} – {max}",
+  "listing.priceMin": "Minimum price",
+  "listing.priceMax": "Maximum price",
+
+  // search
+  "search.placeholder": "Search dishes",
+  "search.hint": "Type a dish name or an ingredient, in any language",
+  "search.recent": "Recent searches",
+  "search.clearRecent": "Clear",
+  "search.removeRecent": "Remove “{query}” from recent searches",
+  "search.results": "Found: {n}",
+  "search.empty": "Nothing found for “{query}”",
+
+  // cart
+  "cart.title": "Cart",
+  "cart.empty": "Your cart is empty",
+  "cart.toMenu": "Go to menu",
+  "cart.placeOrder": "Place order",
+  "cart.clear": "Clear cart",
+  "cart.placed": "Order placed!",
+  "cart.toPay": "To pay: {total}",
+  "cart.backToMenu": "Back to menu",
+  "cart.viewOrder": "View order",
+  "cart.checkout": "Checkout",
+  "checkout.subtotal": "Subtotal",
+  "checkout.useDiscount": "Use {percent}% discount",
+  "checkout.until": "(until {date})",
+  "checkout.discount": "Discount {percent}%",
+  "checkout.total": "Total",
+  "checkout.title": "Checkout",
+  "checkout.step.type": "Order type",
+  "checkout.step.time": "Time",
+  "checkout.step.contact": "Contact",
+  "checkout.step.review": "Review",
+  "checkout.typeTitle": "How would you like your order?",
+  "checkout.type.dine_in": "Dine-in",
+  "checkout.type.takeaway": "Takeaway",
+  "checkout.type.delivery": "Delivery",
+  "checkout.tableNumber": "Table number",
+  "checkout.timeTitle": "When should it be ready?",
+  "checkout.hoursToday": "Open today {open}–{close}",
+  "checkout.closedToday": "Closed today",
+  "checkout.asap": "As soon as possible",
+  "checkout.scheduled": "At a set time",
+  "checkout.name": "Name",
+  "checkout.phone": "Phone",
+  "checkout.emailOptional": "Email (optional)",
+  "checkout.address": "Delivery address",
+  "checkout.notes": "Notes for the kitchen",
+  "checkout.next": "Next",
+  "checkout.placing": "Placing order…",
+  "checkout.error.phoneRequired": "Enter a phone number",
+  "checkout.error.phoneInvalid": "Enter a valid phone number",
+  "checkout.error.tableRequired": "Enter your table number",
+  "checkout.error.addressRequired": "Enter a delivery address",
+  "checkout.error.closed": "The kitchen is closed right now. Pick a time instead.",
+  "checkout.error.slotGone": "That time is no longer available. Pick another one.",
+  "checkout.error.discountChanged": "Your discount has changed since you opened checkout. Check the new total and place the order again.",
+  "checkout.error.priceChanged": "Some prices on the menu have changed. Check the new total and place the order again.",
+
+  // auth
+  "auth.username": "Username",
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.login": "Log In",
+  "auth.signup": "Sign Up",
+  "auth.noAccount": "Don’t have an account?",
+  "auth.signupLink": "Sign up",
+  "auth.haveAccount": "Already have an account?",
+  "auth.loginLink": "Log in",
+  "auth.usernameOrEmail": "Username or email",
+  "auth.confirmPassword": "Confirm password",
+  "auth.pending": "Please wait…",
+  "auth.strength": "Password strength: {level}",
+  "auth.strength.0": "weak",
+  "auth.strength.1": "fair",
+  "auth.strength.2": "good",
+  "auth.strength.3": "strong",
+  "auth.error.required": "This field is required",
+  "auth.error.usernameRequired": "Enter a username",
+  "auth.error.usernameLength": "Username must be {min}–{max} characters",
+  "auth.error.usernameChars": "Use letters, digits, “_” or “.”, starting with a letter",
+  "auth.error.emailRequired": "Enter your email",
+  "auth.error.emailInvalid": "Enter a valid email address",
+  "auth.error.passwordRequired": "Enter a password",
+  "auth.error.passwordShort": "Password must be at least {min} characters",
+  "auth.error.passwordWeak": "Mix letters with digits, capitals or symbols",
+  "auth.error.confirmRequired": "Repeat your password",
+  "auth.error.passwordMismatch": "Passwords do not match",
+  "auth.error.invalidCredentials": "Wrong username/email or password",
+  "auth.error.emailTaken": "This email is already registered",
+  "auth.error.usernameTaken": "This username is already taken",
+  "auth.error.sessionExpired": "Your session has expired. Please log in again",
+  "auth.error.unavailable": "Sign-in is unavailable right now. Try again later",
+  "auth.error.invalidResetToken": "This reset link is invalid or has expired",
+  "auth.forgotLink": "Forgot password?",
+
+  // password reset
+  "forgot.title": "Reset password",
+  "forgot.intro": "Enter the email you signed up with and we'll send you a reset link.",
+  "forgot.submit": "Send reset link",
+  "forgot.sent": "If an account exists for {email}, a reset link is on its way.",
+  "forgot.devLink": "No mail server in development: open the reset link",
+  "forgot.backToLogin": "Back to log in",
+  "reset.title": "Choose a new password",
+  "reset.submit": "Save password",
+  "reset.done": "Your password has been changed. You can log in now.",
+
+  // cabinet
+  "cabinet.title": "Personal Cabinet",
+  "cabinet.username": "Username:",
+  "cabinet.email": "Email:",
+  "cabinet.discount": "Your Discount",
+  "cabinet.noDiscount": "No discount available",
+  "cabinet.discountOff": "Discount: {percent}% OFF",
+  "cabinet.expiresOn": "Expires on: {date}",
+  "cabinet.daysLeft": "Days left: {days}",
+  "cabinet.points": "Points: {points} ({per} points = 1%)",
+  "cabinet.history": "History",
+  "cabinet.localAccount": "This account is kept on this device only, so discounts, order history and ranked games are not available.",
+  "account.title": "Account settings",
+  "account.changeEmail": "Change email",
+  "account.newEmail": "New email",
+  "account.currentPassword": "Current password",
+  "account.saveEmail": "Update email",
+  "account.emailChanged": "Email updated",
+  "account.changePassword": "Change password",
+  "account.newPassword": "New password",
+  "account.confirmNewPassword": "Repeat new password",
+  "account.savePassword": "Update password",
+  "account.passwordChanged": "Password updated",
+  "account.delete": "Delete account",
+  "account.deleteHint": "Removes your account together with your discount and game progress. This cannot be undone.",
+  "account.deleteConfirm": "Delete your account permanently?",
+  "account.deleteButton": "Delete my account",
+  "account.error.wrongPassword": "Current password is incorrect",
+  "wallet.source.jump": "Giraffe Jump",
+  "wallet.source.guess": "Guess the Word",
+  "wallet.source.order": "Order",
+  "wallet.source.migration": "Previous discount",
+  "wallet.source.system": "Expired",
+  "wallet.pts": "{points} pts",
+
+  // games page
+  "games.choose": "Choose Your Game",
+  "games.intro": "Play games to earn discounts on our menu!",
+  "games.howItWorks": "How Discounts Work",
+  "games.pointsRate": "{per} points = 1% discount",
+  "games.firstGuess": "First guess: {percent}% discount",
+  "games.earnSubtitle": "Earn {per} points for 1% discount",
+  "games.guessSubtitle": "First guesser gets {percent}% off",
+  "games.guessHint": "Play daily to win",
+  "games.start": "Start Game",
+
+  // giraffe jump
+  "jump.title": "Giraffe Jump",
+  "jump.score": "Score: {score}",
+  "jump.best": "Best: {score}",
+  "jump.discount": "Discount: {percent}%",
+  "jump.daysLeftShort": "{days}d left",
+  "jump.gameOver": "Game Over!",
+  "jump.yourScore": "Your score",
+  "jump.verifying": "Checking your run…",
+  "jump.credited": "+{points} points added to your wallet",
+  "jump.rejected": "This run could not be verified, so no points were added.",
+  "jump.unranked": "This run started offline, so it earns no points and is not ranked.",
+  "jump.totalDiscount": "🎉 Total Discount!",
+  "jump.off": "{percent}% OFF",
+  "jump.validUntil": "Valid until: {date}",
+  "jump.pointsPer": "({per} points per 1%)",
+  "jump.newHighScore": "NEW HIGH SCORE!",
+  "jump.playAgain": "Play Again",
+  "jump.backToMenu": "Back to Menu",
+  "jump.pause": "Pause",
+  "jump.paused": "Paused",
+  "jump.pauseHint": "Esc or P to pause and resume",
+  "jump.resume": "Resume",
+  "jump.restart": "Restart",
+  "jump.earnRate": "Earn {per} points for 1% discount!",
+  "jump.currentDiscount": "Current Discount: {percent}%",
+  "jump.expires": "Expires: {date}",
+  "jump.maxReached": " (Max reached!)",
+  "jump.features": "Game Features:",
+  "jump.feature1": "Jump on platforms to climb higher",
+  "jump.feature2": "Different platform types with special effects",
+  "jump.feature3": "Collect power-ups for bonuses",
+  "jump.feature4": "Higher score = more discount!",
+  "jump.touchHint": "Touch left/right sides to move",
+  "jump.keysHint": "Use arrow keys to move",
+  "leaderboard.title": "Leaderboard",
+  "leaderboard.period.all": "All time",
+  "leaderboard.period.week": "This week",
+  "leaderboard.period.today": "Today",
+  "leaderboard.empty": "No scores yet. Be the first!",
+  "leaderboard.you": "you",
+  "leaderboard.yourRank": "Your rank: #{rank} with {score}",
+  "leaderboard.personalBest": "Your personal best: {score}",
+  "leaderboard.signIn": "Sign in to get your runs on the board.",
+
+  // guess the word
+  "guess.title": "Guess the Word",
+  "guess.backToGames": "Back to Games",
+  "guess.alreadyPlayed": "You've already played today. Come back tomorrow!",
+  "guess.alreadyPlayedLong": "You've already played today. Come back tomorrow for a new word!",
+  "guess.enterGuess": "Please enter a guess!",
+  "guess.wrongLength": "Please enter a {n}-letter word!",
+  "guess.alreadyCorrect": "You've already guessed correctly today!",
+  "guess.noAttempts": "No attempts remaining. Try again tomorrow!",
+  "guess.firstWin": "CONGRATULATIONS! You're the first to guess today! You win {percent}% discount!",
+  "guess.notFirst": "Correct! But someone else guessed first today. Try again tomorrow!",
+  "guess.incorrect": "Incorrect! {n} attempt(s) remaining.",
+  "guess.lost": "Game over! The word was: {word}. Try again tomorrow!",
+  "guess.attempts": "Attempts:",
+  "guess.subtitle": "Daily word puzzle • Win discounts!",
+  "guess.firstBonus": "🎯 First guess: {percent}% discount • Valid for {days} days",
+  "guess.riddle": "Today's Riddle:",
+  "guess.wordLength": "Word length: {n} letters",
+  "guess.earned": "🎉 DISCOUNT EARNED! 🎉",
+  "guess.offNext": "{percent}% OFF your next order!",
+  "guess.validUntil": "Valid until: {date}",
+  "guess.yourGuess": "Your Guess ({n} letters):",
+  "guess.placeholder": "TYPE HERE",
+  "guess.guessed": "GUESSED!",
+  "guess.submit": "GUESS",
+  "guess.signIn": "Sign in to play today's riddle.",
+};
+
+export default en;
@@ -0,0 +1,37 @@
+// src/i18n/index.ts
+import en from "./en";
+import ru from "./ru";
+import ky from "./ky";
+import type { Category } from "../types";
+
+export type TranslationKey = keyof typeof en;
+export type Dictionary = Record<TranslationKey, string>;
+export type Lang = "ru" | "ky" | "en";
+export type TranslateParams = Record<string, string | number>;
+
+export const LANGUAGES: Array<{ code: Lang; label: string }> = [
+  { code: "ru", label: "Русский" },
+  { code: "ky", label: "Кыргызча" },
+  { code: "en", label: "English" },
+];
+
+export const DEFAULT_LANG: Lang = "en";
+
+const dictionaries: Record<Lang, Dictionary> = { en, ru, ky };
+
+export function isLang(value: unknown): value is Lang {
+  return value === "ru" || value === "ky" || value === "en";
+}
+
+// "Score: {score}" + { score: 10 } -> "Score: 10"; unknown keys fall back to English
+export function translate(lang: Lang, key: TranslationKey, params?: TranslateParams): string {
+  const template = dictionaries[lang][key] ?? en[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match);
+}
+
+// Category names come from the backend per language, with English as the fallback
+export function localizedName(category: Category, lang: Lang): string {
+  return category[`name_${lang}`] || category.name_en || category.name_ru || category.name_ky || "";
+}
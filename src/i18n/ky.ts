@@ -0,0 +1,364 @@
+// src/i18n/ky.ts
+import type { Dictionary } from "./index";
+
+const ky: Dictionary = {
+  // navbar
+  "nav.signIn": "Кирүү",
+  "nav.logout": "Чыгуу",
+  "nav.cabinet": "Кабинет",
+  "nav.language": "Тил",
+  "nav.cart": "Себет",
+  "nav.menu": "Меню",
+
+  // common
+  "common.currency": "{amount} сом",
+  "common.close": "Жабуу",
+  "common.back": "Артка",
+  "common.remove": "Өчүрүү",
+  "common.increase": "Санын көбөйтүү",
+  "common.decrease": "Санын азайтуу",
+
+  // home
+  "home.getBonuses": "Бонус алуу",
+  "home.categories": "Меню категориялары",
+  "home.banner.bonusText": "АЛЫҢЫЗ",
+  "home.banner.fruitCakes": "Жемиш торттору",
+  "home.banner.off": "-50%",
+  "home.banner.orderNow": "Буйрутма бериңиз",
+  "banner.playNow": "Ойноо",
+  "banner.prev": "Мурунку баннер",
+  "banner.next": "Кийинки баннер",
+  "banner.goTo": "{n}-слайдга өтүү",
+
+  // loading / errors
+  "status.loading": "Жүктөлүүдө…",
+  "status.retry": "Кайталоо",
+  "status.error.network": "Сервер менен байланыш жок. Туташууну текшериңиз.",
+  "status.error.timeout": "Сервер өтө узак жооп бербей жатат.",
+  "status.error.http": "Биз тараптан ката кетти.",
+  "status.error.validation": "Серверден күтүлбөгөн маалымат келди.",
+  "status.error.aborted": "Суроо жокко чыгарылды.",
+  "status.emptyCategories": "Меню азырынча бош.",
+  "status.emptyItems": "Бул категорияда азырынча тамак жок.",
+
+  // category / items
+  "category.fallbackTitle": "Категория",
+  "menu.fullMenu": "Толук меню бир баракта",
+  "item.ingredients": "Курамы: {list}",
+  "item.addToCart": "{title} себетке кошуу",
+  "item.addWithTotal": "Себетке · {total}",
+  "options.required": "Милдеттүү",
+  "options.optional": "Каалоо боюнча",
+  "options.chooseOne": "1ди тандаңыз",
+  "options.upTo": "{max} чейин",
+  "options.chooseRange": "{min}дөн {max}гө чейин тандаңыз",
+  "options.error.required": "Тандоо жасаңыз",
+  "options.error.min": "Кеминде {min} тандаңыз",
+  "options.error.max": "{max} ашык тандабаңыз",
+
+  // favorites
+  "favorites.title": "Тандалгандар",
+  "favorites.add": "{title} тандалгандарга кошуу",
+  "favorites.remove": "{title} тандалгандардан алып салуу",
+  "favorites.empty": "Тамакты бул жерде сактоо үчүн ♡ басыңыз.",
+  "favorites.unavailable": "Тандалган тамактар азыр менюда жок.",
+
+  // order history
+  "orders.title": "Буйрутмалар тарыхы",
+  "orders.empty": "Сиз азырынча буйрутма бере элексиз.",
+  "orders.number": "Буйрутма №{id}",
+  "orders.more": "дагы {count}",
+  "orders.status.placed": "Кабыл алынды",
+  "orders.status.preparing": "Даярдалууда",
+  "orders.status.ready": "Даяр",
+  "orders.status.completed": "Аткарылды",
+  "orders.status.cancelled": "Жокко чыгарылды",
+  "orders.reorder": "Кайра буйрутма берүү",
+  "orders.reordering": "Кошулууда…",
+  "orders.reorderAdded": "Себетке кошулду: {count}.",
+  "orders.toCart": "Себетке өтүү",
+  "orders.nothingAvailable": "Бул тамактардын бири да менюда жок.",
+  "orders.unavailable": "Мындан ары жеткиликсиз: {list}",
+  "orders.priceChanged": "{title} азыр {price} турат (мурда {was})",
+  "orders.back": "Кабинетке кайтуу",
+  "orders.notFound": "Буйрутма табылган жок.",
+  "orders.scheduledFor": "{time} убагына",
+
+  // dine-in tables
+  "table.label": "Үстөл {table}",
+  "table.leave": "Үстөлдөн чыгуу",
+  "table.servedAt": "Аны {table}-үстөлгө алып келебиз.",
+  "tableQr.title": "Үстөлдөрдүн QR-коддору",
+  "tableQr.ids": "Үстөлдөрдүн номерлери",
+  "tableQr.idsHint": "Үтүр же боштук менен бөлүңүз; 1-12 сыяктуу аралыктар да болот.",
+  "tableQr.baseUrl": "Сайттын дареги",
+  "tableQr.print": "Басып чыгаруу",
+  "tableQr.invalid": "Өткөрүлүп жиберилди, туура эмес номер: {list}",
+  "tableQr.tooMany": "Алгачкы {max} үстөл гана көрсөтүлдү.",
+  "tableQr.empty": "Жок дегенде бир үстөлдүн номерин жазыңыз.",
+  "tableQr.codeFor": "{table}-үстөлдүн QR-коду",
+
+  // dietary tags / filters
+  "diet.tag.vegetarian": "Вегетариандык",
+  "diet.tag.vegan": "Вегандык",
+  "diet.tag.gluten_free": "Глютенсиз",
+  "diet.tag.halal": "Халал",
+  "diet.spiciness": "Ачуулугу: 3төн {n}",
+  "diet.allergen.gluten": "глютен",
+  "diet.allergen.dairy": "сүт",
+  "diet.allergen.eggs": "жумуртка",
+  "diet.allergen.nuts": "жаңгак",
+  "diet.allergen.peanuts": "арахис",
+  "diet.allergen.soy": "соя",
+  "diet.allergen.fish": "балык",
+  "diet.allergen.shellfish": "деңиз азыктары",
+  "diet.allergen.sesame": "кунжут",
+  "diet.contains": "Курамында: {list}",
+  "diet.noAllergens": "Негизги аллергендер жок",
+  "diet.allergensUnknown": "Аллергендер тууралуу маалымат жок, кызматкерден сураңыз",
+  "filter.title": "Тамактануу чыпкалары",
+  "filter.spice": "Ачуулугу",
+  "filter.spiceAny": "Ачуулугу баары бир",
+  "filter.spice0": "Ачуу эмес",
+  "filter.spice1": "Бир аз ачуу",
+  "filter.spice2": "Орточо ачуу",
+  "filter.allergens": "Аллергендерди чыгаруу",
+  "filter.reset": "Чыпкаларды тазалоо",
+  "filter.count": "{total} ичинен {shown} көрсөтүлдү",
+  "filter.empty": "Чыпкаларга ылайык тамак жок.",
+  "listing.sort": "Иреттөө",
+  "listing.sort.default": "Сунушталган",
+  "listing.sort.price_asc": "Адегенде арзаны",
+  "listing.sort.price_desc": "Адегенде кымбаты",
+  "listing.sort.popular": "Эң популярдуу",
+  "listing.sort.newest": "Жаңылары",
+  "listing.sort.name": "Аталышы боюнча, А–Я",
+  "listing.price": "Баа аралыгы",
+  "listing.priceRange": "{min} – {max}",
+  "listing.priceMin": "Эң төмөнкү баа",
+  "listing.priceMax": "Эң жогорку баа",
+
+  // search
+  "search.placeholder": "Тамак издөө",
+  "search.hint": "Тамактын атын же курамын каалаган тилде жазыңыз",
+  "search.recent": "Акыркы издөөлөр",
+  "search.clearRecent": "Тазалоо",
+  "search.removeRecent": "«{query}» акыркы издөөлөрдөн өчүрүү",
+  "search.results": "Табылды: {n}",
+  "search.empty": "«{query}» боюнча эч нерсе табылган жок",
+
+  // cart
+  "cart.title": "Себет",
+  "cart.empty": "Себет бош",
+  "cart.toMenu": "Менюга өтүү",
+  "cart.placeOrder": "Буйрутма берүү",
+  "cart.clear": "Себетти тазалоо",
+  "cart.placed": "Буйрутма кабыл алынды!",
+  "cart.toPay": "Төлөө: {total}",
+  "cart.backToMenu": "Менюга кайтуу",
+  "cart.viewOrder": "Буйрутманы көрүү",
+  "cart.checkout": "Буйрутма берүү",
+  "checkout.subtotal": "Сумма",
+  "checkout.useDiscount": "{percent}% арзандатууну колдонуу",
+  "checkout.until": "({date} чейин)",
+  "checkout.discount": "Арзандатуу {percent}%",
+  "checkout.total": "Жыйынтык",
+  "checkout.title": "Буйрутманы тариздөө",
+  "checkout.step.type": "Буйрутманын түрү",
+  "checkout.step.time": "Убакыт",
+  "checkout.step.contact": "Байланыш",
+  "checkout.step.review": "Текшерүү",
+  "checkout.typeTitle": "Буйрутманы кантип аласыз?",
+  "checkout.type.dine_in": "Залда",
+  "checkout.type.takeaway": "Өзү менен",
+  "checkout.type.delivery": "Жеткирүү",
+  "checkout.tableNumber": "Үстөлдүн номери",
+  "checkout.timeTitle": "Качанга даярдоо керек?",
+  "checkout.hoursToday": "Бүгүн {open}–{close} иштейбиз",
+  "checkout.closedToday": "Бүгүн жабык",
+  "checkout.asap": "Мүмкүн болушунча тезирээк",
+  "checkout.scheduled": "Белгилүү убакытка",
+  "checkout.name": "Аты",
+  "checkout.phone": "Телефон",
+  "checkout.emailOptional": "Email (милдеттүү эмес)",
+  "checkout.address": "Жеткирүү дареги",
+  "checkout.notes": "Ашканага каалоолор",
+  "checkout.next": "Кийинки",
+  "checkout.placing": "Буйрутма берилүүдө…",
+  "checkout.error.phoneRequired": "Телефон номерин жазыңыз",
+  "checkout.error.phoneInvalid": "Туура телефон номерин жазыңыз",
+  "checkout.error.tableRequired": "Үстөлдүн номерин жазыңыз",
+  "checkout.error.addressRequired": "Жеткирүү дарегин жазыңыз",
+  "checkout.error.closed": "Ашкана азыр жабык. Убакыт тандаңыз.",
+  "checkout.error.slotGone": "Бул убакыт мындан ары жеткиликсиз. Башкасын тандаңыз.",
+  "checkout.error.discountChanged": "Буйрутма берип жатканда арзандатууңуз өзгөрдү. Жаңы сумманы текшерип, кайра буйрутма бериңиз.",
+  "checkout.error.priceChanged": "Менюдагы айрым баалар өзгөрдү. Жаңы сумманы текшерип, кайра буйрутма бериңиз.",
+
+  // auth
+  "auth.username": "Колдонуучу аты",
+  "auth.email": "Эл. почта",
+  "auth.password": "Сырсөз",
+  "auth.login": "Кирүү",
+  "auth.signup": "Катталуу",
+  "auth.noAccount": "Аккаунтуңуз жокпу?",
+  "auth.signupLink": "Катталуу",
+  "auth.haveAccount": "Аккаунтуңуз барбы?",
+  "auth.loginLink": "Кирүү",
+  "auth.usernameOrEmail": "Колдонуучу аты же эл. почта",
+  "auth.confirmPassword": "Сырсөздү кайталаңыз",
+  "auth.pending": "Күтө туруңуз…",
+  "auth.strength": "Сырсөздүн бекемдиги: {level}",
+  "auth.strength.0": "алсыз",
+  "auth.strength.1": "орточо",
+  "auth.strength.2": "жакшы",
+  "auth.strength.3": "бекем",
+  "auth.error.required": "Милдеттүү талаа",
+  "auth.error.usernameRequired": "Колдонуучу атын жазыңыз",
+  "auth.error.usernameLength": "Колдонуучу аты {min}–{max} белгиден турушу керек",
+  "auth.error.usernameChars": "Тамга, сан, «_» же «.» колдонуңуз, тамга менен башталсын",
+  "auth.error.emailRequired": "Эл. почтаңызды жазыңыз",
+  "auth.error.emailInvalid": "Туура эл. почта дарегин жазыңыз",
+  "auth.error.passwordRequired": "Сырсөз жазыңыз",
+  "auth.error.passwordShort": "Сырсөз кеминде {min} белгиден турушу керек",
+  "auth.error.passwordWeak": "Тамгаларга сан, баш тамга же белги кошуңуз",
+  "auth.error.confirmRequired": "Сырсөздү кайталаңыз",
+  "auth.error.passwordMismatch": "Сырсөздөр дал келбейт",
+  "auth.error.invalidCredentials": "Колдонуучу аты/эл. почта же сырсөз туура эмес",
+  "auth.error.emailTaken": "Бул эл. почта мурун катталган",
+  "auth.error.usernameTaken": "Бул колдонуучу аты бош эмес",
+  "auth.error.sessionExpired": "Сеанс бүттү. Кайра кириңиз",
+  "auth.error.unavailable": "Азыр кирүү мүмкүн эмес. Кийинчерээк аракет кылыңыз",
+  "auth.error.invalidResetToken": "Калыбына келтирүү шилтемеси жараксыз же мөөнөтү өткөн",
+  "auth.forgotLink": "Сырсөздү унуттуңузбу?",
+
+  // password reset
+  "forgot.title": "Сырсөздү калыбына келтирүү",
+  "forgot.intro": "Катталган эл. почтаңызды жазыңыз, биз калыбына келтирүү шилтемесин жөнөтөбүз.",
+  "forgot.submit": "Шилтеме жөнөтүү",
+  "forgot.sent": "Эгер {email} дареги менен аккаунт бар болсо, шилтеме жөнөтүлдү.",
+  "forgot.devLink": "Иштеп чыгуу режиминде кат жөнөтүлбөйт: шилтемени ачуу",
+  "forgot.backToLogin": "Кирүүгө кайтуу",
+  "reset.title": "Жаңы сырсөз",
+  "reset.submit": "Сырсөздү сактоо",
+  "reset.done": "Сырсөз өзгөртүлдү. Эми кире аласыз.",
+
+  // cabinet
+  "cabinet.title": "Жеке кабинет",
+  "cabinet.username": "Колдонуучу аты:",
+  "cabinet.email": "Эл. почта:",
+  "cabinet.discount": "Сиздин арзандатуу",
+  "cabinet.noDiscount": "Арзандатуу жок",
+  "cabinet.discountOff": "Арзандатуу: {percent}%",
+  "cabinet.expiresOn": "Мөөнөтү: {date}",
+  "cabinet.daysLeft": "Калган күн: {days}",
+  "cabinet.points": "Упай: {points} ({per} упай = 1%)",
+  "cabinet.history": "Тарых",
+  "cabinet.localAccount": "Бул аккаунт ушул түзмөктө гана сакталат, ошондуктан арзандатуулар, буйрутмалар тарыхы жана рейтингдик оюндар жеткиликсиз.",
+  "account.title": "Аккаунттун жөндөөлөрү",
+  "account.changeEmail": "Эл. почтаны өзгөртүү",
+  "account.newEmail": "Жаңы эл. почта",
+  "account.currentPassword": "Учурдагы сырсөз",
+  "account.saveEmail": "Почтаны сактоо",
+  "account.emailChanged": "Эл. почта жаңыртылды",
+  "account.changePassword": "Сырсөздү өзгөртүү",
+  "account.newPassword": "Жаңы сырсөз",
+  "account.confirmNewPassword": "Жаңы сырсөздү кайталаңыз",
+  "account.savePassword": "Сырсөздү сактоо",
+  "account.passwordChanged": "Сырсөз жаңыртылды",
+  "account.delete": "Аккаунтту өчүрүү",
+  "account.deleteHint": "Аккаунт арзандатуу жана оюн прогресси менен кошо өчүрүлөт. Муну артка кайтаруу мүмкүн эмес.",
+  "account.deleteConfirm": "Аккаунтту биротоло өчүрөсүзбү?",
+  "account.deleteButton": "Аккаунтумду өчүрүү",
+  "account.error.wrongPassword": "Учурдагы сырсөз туура эмес",
+  "wallet.source.jump": "Giraffe Jump",
+  "wallet.source.guess": "Сөздү тап",
+  "wallet.source.order": "Буйрутма",
+  "wallet.source.migration": "Мурунку арзандатуу",
+  "wallet.source.system": "Мөөнөтү бүттү",
+  "wallet.pts": "{points} упай",
+
+  // games page
+  "games.choose": "Оюнду тандаңыз",
+  "games.intro": "Ойноп, менюбузга арзандатуу алыңыз!",
+  "games.howItWorks": "Арзандатуулар кантип иштейт",
+  "games.pointsRate": "{per} упай = 1% арзандатуу",
+  "games.firstGuess": "Биринчи тапкан: {percent}% арзандатуу",
+  "games.earnSubtitle": "{per} упай = 1% арзандатуу",
+  "games.guessSubtitle": "Биринчи тапканга {percent}% арзандатуу",
+  "games.guessHint": "Күн сайын ойноңуз",
+  "games.start": "Оюнду баштоо",
+
+  // giraffe jump
+  "jump.title": "Giraffe Jump",
+  "jump.score": "Упай: {score}",
+  "jump.best": "Рекорд: {score}",
+  "jump.discount": "Арзандатуу: {percent}%",
+  "jump.daysLeftShort": "{days} күн калды",
+  "jump.gameOver": "Оюн бүттү!",
+  "jump.yourScore": "Сиздин упай",
+  "jump.verifying": "Оюн текшерилүүдө…",
+  "jump.credited": "Капчыкка +{points} упай кошулду",
+  "jump.rejected": "Бул оюнду ырастоо мүмкүн болгон жок, упайлар кошулган жок.",
+  "jump.unranked": "Бул оюн серверсиз башталды, ошондуктан упай берилбейт жана рейтингге кирбейт.",
+  "jump.totalDiscount": "🎉 Жалпы арзандатуу!",
+  "jump.off": "−{percent}%",
+  "jump.validUntil": "Мөөнөтү: {date}",
+  "jump.pointsPer": "(1% үчүн {per} упай)",
+  "jump.newHighScore": "ЖАҢЫ РЕКОРД!",
+  "jump.playAgain": "Кайра ойноо",
+  "jump.backToMenu": "Менюга",
+  "jump.pause": "Тыныгуу",
+  "jump.paused": "Тыныгууда",
+  "jump.pauseHint": "Esc же P — тыныгуу жана улантуу",
+  "jump.resume": "Улантуу",
+  "jump.restart": "Кайра баштоо",
+  "jump.earnRate": "{per} упай = 1% арзандатуу!",
+  "jump.currentDiscount": "Учурдагы арзандатуу: {percent}%",
+  "jump.expires": "Мөөнөтү: {date}",
+  "jump.maxReached": " (Максимум!)",
+  "jump.features": "Оюндун өзгөчөлүктөрү:",
+  "jump.feature1": "Платформалар менен жогору секириңиз",
+  "jump.feature2": "Ар түрдүү атайын платформалар",
+  "jump.feature3": "Бонустарды чогултуңуз",
+  "jump.feature4": "Көп упай — чоң арзандатуу!",
+  "jump.touchHint": "Жылуу үчүн сол/оң жагын басыңыз",
+  "jump.keysHint": "Жылуу үчүн жебе баскычтарын колдонуңуз",
+  "leaderboard.title": "Лидерлер тизмеси",
+  "leaderboard.period.all": "Бардык убакыт",
+  "leaderboard.period.week": "Ушул жума",
+  "leaderboard.period.today": "Бүгүн",
+  "leaderboard.empty": "Азырынча жыйынтык жок. Биринчи болуңуз!",
+  "leaderboard.you": "сиз",
+  "leaderboard.yourRank": "Сиздин орун: #{rank}, {score} упай",
+  "leaderboard.personalBest": "Жеке рекордуңуз: {score}",
+  "leaderboard.signIn": "Тизмеге кирүү үчүн аккаунтка кириңиз.",
+
+  // guess the word
+  "guess.title": "Сөздү тап",
+  "guess.backToGames": "Оюндарга",
+  "guess.alreadyPlayed": "Бүгүн ойнодуңуз. Эртең келиңиз!",
+  "guess.alreadyPlayedLong": "Бүгүн ойнодуңуз. Жаңы сөз үчүн эртең келиңиз!",
+  "guess.enterGuess": "Жообуңузду жазыңыз!",
+  "guess.wrongLength": "{n} тамгалуу сөз жазыңыз!",
+  "guess.alreadyCorrect": "Бүгүн туура таптыңыз!",
+  "guess.noAttempts": "Аракет калган жок. Эртең кайталаңыз!",
+  "guess.firstWin": "КУТТУКТАЙБЫЗ! Бүгүн биринчи таптыңыз! {percent}% арзандатуу утуп алдыңыз!",
+  "guess.notFirst": "Туура! Бирок бүгүн башка бирөө биринчи тапты. Эртең кайталаңыз!",
+  "guess.incorrect": "Туура эмес! Калган аракет: {n}.",
+  "guess.lost": "Оюн бүттү! Сөз: {word}. Эртең кайталаңыз!",
+  "guess.attempts": "Аракеттер:",
+  "guess.subtitle": "Күнүмдүк табышмак • Арзандатуу утуңуз!",
+  "guess.firstBonus": "🎯 Биринчи тапкан: {percent}% арзандатуу • {days} күнгө жарактуу",
+  "guess.riddle": "Бүгүнкү табышмак:",
+  "guess.wordLength": "Сөздүн узундугу: {n} тамга",
+  "guess.earned": "🎉 АРЗАНДАТУУ АЛЫНДЫ! 🎉",
+  "guess.offNext": "Кийинки буйрутмага {percent}% арзандатуу!",
+  "guess.validUntil": "Мөөнөтү: {date}",
+  "guess.yourGuess": "Жообуңуз ({n} тамга):",
+  "guess.placeholder": "ЖАЗЫҢЫЗ",
+  "guess.guessed": "ТАБЫЛДЫ!",
+  "guess.submit": "ЖООП",
+  "guess.signIn": "Күндүн табышмагын чечүү үчүн аккаунтуңузга кириңиз.",
+};
+
+export default ky;
@@ -0,0 +1,364 @@
+// src/i18n/ru.ts
+import type { Dictionary } from "./index";
+
+const ru: Dictionary = {
+  // navbar
+  "nav.signIn": "Войти",
+  "nav.logout": "Выйти",
+  "nav.cabinet": "Кабинет",
+  "nav.language": "Язык",
+  "nav.cart": "Корзина",
+  "nav.menu": "Меню",
+
+  // common
+  "common.currency": "{amount} сом",
+  "common.close": "Закрыть",
+  "common.back": "Назад",
+  "common.remove": "Удалить",
+  "common.increase": "Увеличить количество",
+  "common.decrease": "Уменьшить количество",
+
+  // home
+  "home.getBonuses": "Получить бонусы",
+  "home.categories": "Категории меню",
+  "home.banner.bonusText": "ПОЛУЧИ ДО",
+  "home.banner.fruitCakes": "Фруктовые торты",
+  "home.banner.off": "-50%",
+  "home.banner.orderNow": "Закажи и наслаждайся",
+  "banner.playNow": "Играть",
+  "banner.prev": "Предыдущий баннер",
+  "banner.next": "Следующий баннер",
+  "banner.goTo": "Перейти к слайду {n}",
+
+  // loading / errors
+  "status.loading": "Загрузка…",
+  "status.retry": "Повторить",
+  "status.error.network": "Нет связи с сервером. Проверьте подключение.",
+  "status.error.timeout": "Сервер слишком долго не отвечает.",
+  "status.error.http": "Что-то пошло не так на нашей стороне.",
+  "status.error.validation": "Сервер вернул неожиданные данные.",
+  "status.error.aborted": "Запрос отменён.",
+  "status.emptyCategories": "Меню пока пусто.",
+  "status.emptyItems": "В этой категории пока нет блюд.",
+
+  // category / items
+  "category.fallbackTitle": "Категория",
+  "menu.fullMenu": "Всё меню на одной странице",
+  "item.ingredients": "Состав: {list}",
+  "item.addToCart": "Добавить {title} в корзину",
+  "item.addWithTotal": "В корзину · {total}",
+  "options.required": "Обязательно",
+  "options.optional": "По желанию",
+  "options.chooseOne": "выберите 1",
+  "options.upTo": "до {max}",
+  "options.chooseRange": "выберите от {min} до {max}",
+  "options.error.required": "Сделайте выбор",
+  "options.error.min": "Выберите не меньше {min}",
+  "options.error.max": "Выберите не больше {max}",
+
+  // favorites
+  "favorites.title": "Избранное",
+  "favorites.add": "Добавить {title} в избранное",
+  "favorites.remove": "Убрать {title} из избранного",
+  "favorites.empty": "Нажмите ♡ на блюде, чтобы сохранить его здесь.",
+  "favorites.unavailable": "Избранных блюд сейчас нет в меню.",
+
+  // order history
+  "orders.title": "История заказов",
+  "orders.empty": "Вы ещё не сделали ни одного заказа.",
+  "orders.number": "Заказ №{id}",
+  "orders.more": "и ещё {count}",
+  "orders.status.placed": "Принят",
+  "orders.status.preparing": "Готовится",
+  "orders.status.ready": "Готов",
+  "orders.status.completed": "Выполнен",
+  "orders.status.cancelled": "Отменён",
+  "orders.reorder": "Повторить заказ",
+  "orders.reordering": "Добавляем…",
+  "orders.reorderAdded": "Добавлено в корзину: {count}.",
+  "orders.toCart": "Перейти в корзину",
+  "orders.nothingAvailable": "Ни одного из этих блюд больше нет в меню.",
+  "orders.unavailable": "Больше недоступно: {list}",
+  "orders.priceChanged": "{title} теперь стоит {price} (было {was})",
+  "orders.back": "Назад в кабинет",
+  "orders.notFound": "Заказ не найден.",
+  "orders.scheduledFor": "на {time}",
+
+  // dine-in tables
+  "table.label": "Стол {table}",
+  "table.leave": "Покинуть стол",
+  "table.servedAt": "Мы принесём его к столу {table}.",
+  "tableQr.title": "QR-коды столов",
+  "tableQr.ids": "Номера столов",
+  "tableQr.idsHint": "Через запятую или пробел; диапазоны вроде 1-12 тоже подходят.",
+  "tableQr.baseUrl": "Адрес сайта",
+  "tableQr.print": "Печать",
+  "tableQr.invalid": "Пропущено, неверный номер стола: {list}",
+  "tableQr.tooMany": "Показаны только первые {max} столов.",
+  "tableQr.empty": "Введите хотя бы один номер стола.",
+  "tableQr.codeFor": "QR-код для стола {table}",
+
+  // dietary tags / filters
+  "diet.tag.vegetarian": "Вегетарианское",
+  "diet.tag.vegan": "Веганское",
+  "diet.tag.gluten_free": "Без глютена",
+  "diet.tag.halal": "Халяль",
+  "diet.spiciness": "Острота: {n} из 3",
+  "diet.allergen.gluten": "глютен",
+  "diet.allergen.dairy": "молоко",
+  "diet.allergen.eggs": "яйца",
+  "diet.allergen.nuts": "орехи",
+  "diet.allergen.peanuts": "арахис",
+  "diet.allergen.soy": "соя",
+  "diet.allergen.fish": "рыба",
+  "diet.allergen.shellfish": "морепродукты",
+  "diet.allergen.sesame": "кунжут",
+  "diet.contains": "Содержит: {list}",
+  "diet.noAllergens": "Без основных аллергенов",
+  "diet.allergensUnknown": "Нет данных об аллергенах, уточните у персонала",
+  "filter.title": "Фильтры по питанию",
+  "filter.spice": "Острота",
+  "filter.spiceAny": "Любая острота",
+  "filter.spice0": "Не острое",
+  "filter.spice1": "Не острее слабого",
+  "filter.spice2": "Не острее среднего",
+  "filter.allergens": "Исключить аллергены",
+  "filter.reset": "Сбросить фильтры",
+  "filter.count": "Показано {shown} из {total}",
+  "filter.empty": "Нет блюд, подходящих под фильтры.",
+  "listing.sort": "Сортировка",
+  "listing.sort.default": "Рекомендуемые",
+  "listing.sort.price_asc": "Сначала дешевле",
+  "listing.sort.price_desc": "Сначала дороже",
+  "listing.sort.popular": "Популярные",
+  "listing.sort.newest": "Новинки",
+  "listing.sort.name": "По названию, А–Я",
+  "listing.price": "Диапазон цен",
+  "listing.priceRange": "{min} – {max}",
+  "listing.priceMin": "Минимальная цена",
+  "listing.priceMax": "Максимальная цена",
+
+  // search
+  "search.placeholder": "Поиск блюд",
+  "search.hint": "Введите название блюда или ингредиент на любом языке",
+  "search.recent": "Недавние запросы",
+  "search.clearRecent": "Очистить",
+  "search.removeRecent": "Удалить «{query}» из недавних",
+  "search.results": "Найдено: {n}",
+  "search.empty": "По запросу «{query}» ничего не найдено",
+
+  // cart
+  "cart.title": "Корзина",
+  "cart.empty": "Корзина пуста",
+  "cart.toMenu": "Перейти в меню",
+  "cart.placeOrder": "Оформить заказ",
+  "cart.clear": "Очистить корзину",
+  "cart.placed": "Заказ принят!",
+  "cart.toPay": "К оплате: {total}",
+  "cart.backToMenu": "Вернуться в меню",
+  "cart.viewOrder": "Посмотреть заказ",
+  "cart.checkout": "Оформить заказ",
+  "checkout.subtotal": "Сумма",
+  "checkout.useDiscount": "Использовать скидку {percent}%",
+  "checkout.until": "(до {date})",
+  "checkout.discount": "Скидка {percent}%",
+  "checkout.total": "Итого",
+  "checkout.title": "Оформление заказа",
+  "checkout.step.type": "Тип заказа",
+  "checkout.step.time": "Время",
+  "checkout.step.contact": "Контакты",
+  "checkout.step.review": "Проверка",
+  "checkout.typeTitle": "Как вы хотите получить заказ?",
+  "checkout.type.dine_in": "В зале",
+  "checkout.type.takeaway": "С собой",
+  "checkout.type.delivery": "Доставка",
+  "checkout.tableNumber": "Номер стола",
+  "checkout.timeTitle": "К какому времени приготовить?",
+  "checkout.hoursToday": "Сегодня открыто {open}–{close}",
+  "checkout.closedToday": "Сегодня закрыто",
+  "checkout.asap": "Как можно скорее",
+  "checkout.scheduled": "К определённому времени",
+  "checkout.name": "Имя",
+  "checkout.phone": "Телефон",
+  "checkout.emailOptional": "Email (необязательно)",
+  "checkout.address": "Адрес доставки",
+  "checkout.notes": "Пожелания для кухни",
+  "checkout.next": "Далее",
+  "checkout.placing": "Оформляем заказ…",
+  "checkout.error.phoneRequired": "Введите номер телефона",
+  "checkout.error.phoneInvalid": "Введите корректный номер телефона",
+  "checkout.error.tableRequired": "Введите номер стола",
+  "checkout.error.addressRequired": "Введите адрес доставки",
+  "checkout.error.closed": "Кухня сейчас закрыта. Выберите время.",
+  "checkout.error.slotGone": "Это время больше недоступно. Выберите другое.",
+  "checkout.error.discountChanged": "Ваша скидка изменилась, пока вы оформляли заказ. Проверьте новую сумму и оформите заказ ещё раз.",
+  "checkout.error.priceChanged": "Некоторые цены в меню изменились. Проверьте новую сумму и оформите заказ ещё раз.",
+
+  // auth
+  "auth.username": "Имя пользователя",
+  "auth.email": "Эл. почта",
+  "auth.password": "Пароль",
+  "auth.login": "Войти",
+  "auth.signup": "Регистрация",
+  "auth.noAccount": "Нет аккаунта?",
+  "auth.signupLink": "Зарегистрироваться",
+  "auth.haveAccount": "Уже есть аккаунт?",
+  "auth.loginLink": "Войти",
+  "auth.usernameOrEmail": "Имя пользователя или эл. почта",
+  "auth.confirmPassword": "Повторите пароль",
+  "auth.pending": "Подождите…",
+  "auth.strength": "Надёжность пароля: {level}",
+  "auth.strength.0": "слабый",
+  "auth.strength.1": "средний",
+  "auth.strength.2": "хороший",
+  "auth.strength.3": "надёжный",
+  "auth.error.required": "Обязательное поле",
+  "auth.error.usernameRequired": "Введите имя пользователя",
+  "auth.error.usernameLength": "Имя пользователя: от {min} до {max} символов",
+  "auth.error.usernameChars": "Буквы, цифры, «_» или «.», начиная с буквы",
+  "auth.error.emailRequired": "Введите эл. почту",
+  "auth.error.emailInvalid": "Введите корректный адрес эл. почты",
+  "auth.error.passwordRequired": "Введите пароль",
+  "auth.error.passwordShort": "Пароль должен быть не короче {min} символов",
+  "auth.error.passwordWeak": "Добавьте к буквам цифры, заглавные буквы или символы",
+  "auth.error.confirmRequired": "Повторите пароль",
+  "auth.error.passwordMismatch": "Пароли не совпадают",
+  "auth.error.invalidCredentials": "Неверное имя/эл. почта или пароль",
+  "auth.error.emailTaken": "Эта эл. почта уже зарегистрирована",
+  "auth.error.usernameTaken": "Это имя пользователя уже занято",
+  "auth.error.sessionExpired": "Сеанс истёк. Войдите снова",
+  "auth.error.unavailable": "Вход сейчас недоступен. Попробуйте позже",
+  "auth.error.invalidResetToken": "Ссылка для сброса недействительна или устарела",
+  "auth.forgotLink": "Забыли пароль?",
+
+  // password reset
+  "forgot.title": "Сброс пароля",
+  "forgot.intro": "Укажите эл. почту, с которой вы регистрировались, и мы пришлём ссылку для сброса.",
+  "forgot.submit": "Отправить ссылку",
+  "forgot.sent": "Если аккаунт с адресом {email} существует, ссылка уже отправлена.",
+  "forgot.devLink": "В режиме разработки почта не отправляется: открыть ссылку для сброса",
+  "forgot.backToLogin": "Вернуться ко входу",
+  "reset.title": "Новый пароль",
+  "reset.submit": "Сохранить пароль",
+  "reset.done": "Пароль изменён. Теперь можно войти.",
+
+  // cabinet
+  "cabinet.title": "Личный кабинет",
+  "cabinet.username": "Имя пользователя:",
+  "cabinet.email": "Эл. почта:",
+  "cabinet.discount": "Ваша скидка",
+  "cabinet.noDiscount": "Скидки нет",
+  "cabinet.discountOff": "Скидка: {percent}%",
+  "cabinet.expiresOn": "Действует до: {date}",
+  "cabinet.daysLeft": "Осталось дней: {days}",
+  "cabinet.points": "Баллы: {points} ({per} баллов = 1%)",
+  "cabinet.history": "История",
+  "cabinet.localAccount": "Этот аккаунт хранится только на этом устройстве, поэтому скидки, история заказов и рейтинговые игры недоступны.",
+  "account.title": "Настройки аккаунта",
+  "account.changeEmail": "Сменить эл. почту",
+  "account.newEmail": "Новая эл. почта",
+  "account.currentPassword": "Текущий пароль",
+  "account.saveEmail": "Сохранить почту",
+  "account.emailChanged": "Эл. почта обновлена",
+  "account.changePassword": "Сменить пароль",
+  "account.newPassword": "Новый пароль",
+  "account.confirmNewPassword": "Повторите новый пароль",
+  "account.savePassword": "Сохранить пароль",
+  "account.passwordChanged": "Пароль обновлён",
+  "account.delete": "Удалить аккаунт",
+  "account.deleteHint": "Аккаунт будет удалён вместе со скидкой и игровым прогрессом. Это действие необратимо.",
+  "account.deleteConfirm": "Удалить аккаунт навсегда?",
+  "account.deleteButton": "Удалить мой аккаунт",
+  "account.error.wrongPassword": "Неверный текущий пароль",
+  "wallet.source.jump": "Giraffe Jump",
+  "wallet.source.guess": "Угадай слово",
+  "wallet.source.order": "Заказ",
+  "wallet.source.migration": "Прежняя скидка",
+  "wallet.source.system": "Истекла",
+  "wallet.pts": "{points} б.",
+
+  // games page
+  "games.choose": "Выберите игру",
+  "games.intro": "Играйте и получайте скидки на наше меню!",
+  "games.howItWorks": "Как работают скидки",
+  "games.pointsRate": "{per} баллов = скидка 1%",
+  "games.firstGuess": "Первый угадавший: скидка {percent}%",
+  "games.earnSubtitle": "{per} баллов = скидка 1%",
+  "games.guessSubtitle": "Первый угадавший получает {percent}%",
+  "games.guessHint": "Играйте каждый день",
+  "games.start": "Начать игру",
+
+  // giraffe jump
+  "jump.title": "Giraffe Jump",
+  "jump.score": "Счёт: {score}",
+  "jump.best": "Рекорд: {score}",
+  "jump.discount": "Скидка: {percent}%",
+  "jump.daysLeftShort": "ещё {days} дн.",
+  "jump.gameOver": "Игра окончена!",
+  "jump.yourScore": "Ваш счёт",
+  "jump.verifying": "Проверяем забег…",
+  "jump.credited": "+{points} очков добавлено в кошелёк",
+  "jump.rejected": "Не удалось подтвердить этот забег, очки не начислены.",
+  "jump.unranked": "Этот забег начался без связи с сервером, поэтому очки не начислены и он не попадёт в рейтинг.",
+  "jump.totalDiscount": "🎉 Общая скидка!",
+  "jump.off": "−{percent}%",
+  "jump.validUntil": "Действует до: {date}",
+  "jump.pointsPer": "({per} баллов за 1%)",
+  "jump.newHighScore": "НОВЫЙ РЕКОРД!",
+  "jump.playAgain": "Играть снова",
+  "jump.backToMenu": "В меню",
+  "jump.pause": "Пауза",
+  "jump.paused": "Пауза",
+  "jump.pauseHint": "Esc или P — пауза и продолжение",
+  "jump.resume": "Продолжить",
+  "jump.restart": "Заново",
+  "jump.earnRate": "{per} баллов = скидка 1%!",
+  "jump.currentDiscount": "Текущая скидка: {percent}%",
+  "jump.expires": "Истекает: {date}",
+  "jump.maxReached": " (Максимум!)",
+  "jump.features": "Особенности игры:",
+  "jump.feature1": "Прыгайте по платформам всё выше",
+  "jump.feature2": "Разные платформы с особыми эффектами",
+  "jump.feature3": "Собирайте бонусы",
+  "jump.feature4": "Больше очков — больше скидка!",
+  "jump.touchHint": "Касайтесь левой/правой стороны для движения",
+  "jump.keysHint": "Используйте стрелки для движения",
+  "leaderboard.title": "Таблица лидеров",
+  "leaderboard.period.all": "За всё время",
+  "leaderboard.period.week": "За неделю",
+  "leaderboard.period.today": "Сегодня",
+  "leaderboard.empty": "Пока нет результатов. Станьте первым!",
+  "leaderboard.you": "вы",
+  "leaderboard.yourRank": "Ваше место: #{rank}, {score} очков",
+  "leaderboard.personalBest": "Ваш личный рекорд: {score}",
+  "leaderboard.signIn": "Войдите, чтобы попасть в таблицу.",
+
+  // guess the word
+  "guess.title": "Угадай слово",
+  "guess.backToGames": "К играм",
+  "guess.alreadyPlayed": "Вы уже играли сегодня. Приходите завтра!",
+  "guess.alreadyPlayedLong": "Вы уже играли сегодня. Приходите завтра за новым словом!",
+  "guess.enterGuess": "Введите слово!",
+  "guess.wrongLength": "Введите слово из {n} букв!",
+  "guess.alreadyCorrect": "Вы уже угадали сегодня!",
+  "guess.noAttempts": "Попытки закончились. Попробуйте завтра!",
+  "guess.firstWin": "ПОЗДРАВЛЯЕМ! Вы угадали первым сегодня! Ваша скидка {percent}%!",
+  "guess.notFirst": "Верно! Но кто-то угадал раньше. Попробуйте завтра!",
+  "guess.incorrect": "Неверно! Осталось попыток: {n}.",
+  "guess.lost": "Игра окончена! Загаданное слово: {word}. Попробуйте завтра!",
+  "guess.attempts": "Попытки:",
+  "guess.subtitle": "Ежедневная загадка • Выигрывайте скидки!",
+  "guess.firstBonus": "🎯 Первый угадавший: скидка {percent}% • Действует {days} дн.",
+  "guess.riddle": "Загадка дня:",
+  "guess.wordLength": "Длина слова: {n} букв",
+  "guess.earned": "🎉 СКИДКА ПОЛУЧЕНА! 🎉",
+  "guess.offNext": "Скидка {percent}% на следующий заказ!",
+  "guess.validUntil": "Действует до: {date}",
+  "guess.yourGuess": "Ваш ответ ({n} букв):",
+  "guess.placeholder": "ВВЕДИТЕ",
+  "guess.guessed": "УГАДАНО!",
+  "guess.submit": "ОТВЕТИТЬ",
+  "guess.signIn": "Войдите, чтобы разгадать загадку дня.",
+};
+
+export default ru;
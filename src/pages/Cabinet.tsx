@@ -1,55 +1,27 @@
-import React, { useEffect, useState } from "react";
+import { useState } from "react";
 import Navbar from "../components/navbar";
+import AccountSettings from "../components/AccountSettings";
+import FavoritesSection from "../components/FavoritesSection";
+import OrderHistory from "../components/OrderHistory";
 import { useAuth } from "../context/AuthContext";
-
-interface DiscountData {
-  pointsEarned: number;
-  discountPercent: number;
-  totalDiscount: number;
-  expirationDate: string | Date;
-}
+import { useLanguage } from "../context/LanguageContext";
+import { daysLeft as walletDaysLeft, isWalletExpired, WALLET_CONFIG } from "../utils/loyaltyWallet";
 
 export default function CabinetPage() {
-  const { user } = useAuth();
-
-  const [discountInfo, setDiscountInfo] = useState<DiscountData | null>(null);
-  const [daysLeft, setDaysLeft] = useState<number>(0);
-  const [isExpired, setIsExpired] = useState<boolean>(true);
-
-  // Load discount from storage
-  useEffect(() => {
-    try {
-      const saved = localStorage.getItem("user_discount");
-      if (!saved) {
-        setDiscountInfo(null);
-        setIsExpired(true);
-        return;
-      }
-
-      const data = JSON.parse(saved);
-      const expDate = new Date(data.expirationDate);
-
-      const now = new Date();
-      const diff = expDate.getTime() - now.getTime();
-      const left = Math.ceil(diff / (1000 * 60 * 60 * 24));
-
-      setDiscountInfo({ ...data, expirationDate: expDate });
-      setDaysLeft(left);
-      setIsExpired(left <= 0);
-    } catch (e) {
-      console.error("Failed to parse discount");
-      setDiscountInfo(null);
-      setIsExpired(true);
-    }
-  }, []);
+  const { auth, apiUser, wallet } = useAuth();
+  const user = auth.user;
+  const { lang, t } = useLanguage();
 
+  const [now] = useState(() => new Date());
+  const isExpired = !wallet || isWalletExpired(wallet, now) || wallet.percent <= 0;
+  const daysLeft = wallet ? walletDaysLeft(wallet, now) : 0;
 
   return (
     <div style={{ minHeight: "100vh", background: "#FFF7F0" }}>
       <Navbar showLogo={false} showSignIn={false} hideHamburger={true} />
 
       <div style={{ padding: "30px", maxWidth: 600, margin: "0 auto" }}>
-        <h1 style={{ color: "#E67A3C", marginBottom: 20 }}>Personal Cabinet</h1>
+        <h1 style={{ color: "#E67A3C", marginBottom: 20 }}>{t("cabinet.title")}</h1>
 
         <div style={{
           background: "white",
@@ -58,49 +30,89 @@ export default function CabinetPage() {
           boxShadow: "0 4px 12px rgba(0,0,0,0.06)",
           border: "1px solid rgba(255,160,80,0.15)"
         }}>
-          <p><b>Username:</b> {user?.username}</p>
-          <p><b>Email:</b> {user?.email}</p>
+          <p><b>{t("cabinet.username")}</b> {user?.username}</p>
+          <p><b>{t("cabinet.email")}</b> {user?.email}</p>
 
           <hr style={{ margin: "20px 0", opacity: 0.2 }} />
 
-          <h2 style={{ marginBottom: 12, color: "#E67A3C" }}>Your Discount</h2>
-
-          {isExpired || !discountInfo ? (
-            <div style={{
-              background: "#FFE0E0",
-              padding: 15,
-              borderRadius: 10,
-              border: "1px solid #FF9A9A",
-              color: "#B30000",
-              fontWeight: 600
-            }}>
-              No discount available
-            </div>
-          ) : (
-            <div
-              style={{
-                background: "#E8F5E9",
-                padding: 15,
-                borderRadius: 10,
-                border: "1px solid #4CAF50",
-                color: "#2E7D32",
-              }}
-            >
-              <p style={{ margin: "0 0 8px 0", fontWeight: "bold" }}>
-                Discount: {discountInfo.totalDiscount}% OFF
-              </p>
-
-              <p style={{ margin: "4px 0" }}>
-                Expires on:{" "}
-                {new Date(discountInfo.expirationDate).toLocaleDateString()}
+          {apiUser ? (
+            <>
+              <h2 style={{ marginBottom: 12, color: "#E67A3C" }}>{t("cabinet.discount")}</h2>
+
+              {isExpired || !wallet ? (
+                <div style={{
+                  background: "#FFE0E0",
+                  padding: 15,
+                  borderRadius: 10,
+                  border: "1px solid #FF9A9A",
+                  color: "#B30000",
+                  fontWeight: 600
+                }}>
+                  {t("cabinet.noDiscount")}
+                </div>
+              ) : (
+                <div
+                  style={{
+                    background: "#E8F5E9",
+                    padding: 15,
+                    borderRadius: 10,
+                    border: "1px solid #4CAF50",
+                    color: "#2E7D32",
+                  }}
+                >
+                  <p style={{ margin: "0 0 8px 0", fontWeight: "bold" }}>
+                    {t("cabinet.discountOff", { percent: wallet.percent })}
+                  </p>
+
+                  <p style={{ margin: "4px 0" }}>
+                    {t("cabinet.expiresOn", { date: new Date(wallet.expiresAt!).toLocaleDateString(lang) })}
+                  </p>
+
+                  <p style={{ margin: "4px 0" }}>
+                    {t("cabinet.daysLeft", { days: daysLeft })}
+                  </p>
+                </div>
+              )}
+
+              <p style={{ margin: "12px 0 0 0", color: "#6b6b6b", fontSize: 14 }}>
+                {t("cabinet.points", { points: wallet?.points ?? 0, per: WALLET_CONFIG.pointsPerPercent })}
               </p>
 
-              <p style={{ margin: "4px 0" }}>
-                Days left: {daysLeft}
-              </p>
-            </div>
+              {wallet && wallet.history.length > 0 && (
+                <>
+                  <h3 style={{ margin: "20px 0 8px 0", color: "#E67A3C" }}>{t("cabinet.history")}</h3>
+                  <ul style={{ listStyle: "none", margin: 0, padding: 0, fontSize: 14 }}>
+                    {wallet.history.map((event, index) => (
+                      <li key={index} style={{
+                        display: "flex",
+                        justifyContent: "space-between",
+                        padding: "6px 0",
+                        borderBottom: "1px solid rgba(0,0,0,0.05)",
+                      }}>
+                        <span>
+                          {new Date(event.at).toLocaleDateString(lang)} · {t(`wallet.source.${event.source}`)}
+                        </span>
+                        <span style={{ fontWeight: 600, color: event.type === "earn" ? "#2E7D32" : "#B30000" }}>
+                          {event.type === "earn" ? "+" : "−"}{event.percent}%
+                          {event.points > 0 && ` · ${t("wallet.pts", { points: event.points })}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </>
+          ) : (
+            // the API doesn't know local accounts, so there is no wallet to show
+            <p style={{ margin: 0, color: "#6b6b6b" }}>{t("cabinet.localAccount")}</p>
           )}
         </div>
+
+        {apiUser && <OrderHistory />}
+
+        <FavoritesSection />
+
+        <AccountSettings />
       </div>
     </div>
   );
@@ -0,0 +1,76 @@
+// src/pages/Cart.tsx
+import { useState, type JSX } from "react";
+import { useNavigate } from "react-router-dom";
+import Navbar from "../components/navbar";
+import QuantityStepper from "../components/QuantityStepper";
+import CheckoutSummary from "../components/CheckoutSummary";
+import { useCart } from "../context/CartContext";
+import { useAuth } from "../context/AuthContext";
+import { useLanguage } from "../context/LanguageContext";
+import { toActiveDiscount, priceOrder } from "../utils/pricing";
+import { ROUTES } from "../routes";
+import "../App.css";
+
+export default function CartPage(): JSX.Element {
+  const navigate = useNavigate();
+  const { wallet } = useAuth();
+  const { lines, setQuantity, removeItem, clearCart } = useCart();
+  const { t, formatPrice } = useLanguage();
+
+  const [now] = useState(() => new Date());
+
+  // a preview: whether to redeem the discount is decided at checkout
+  const discount = toActiveDiscount(wallet, now);
+  const totals = priceOrder(lines, discount);
+
+  return (
+    <div className="page-container">
+      <Navbar showLogo={false} showSignIn={false} />
+
+      <h1 className="category-title-large">{t("cart.title")}</h1>
+
+      {lines.length === 0 ? (
+        <div className="cart-empty">
+          <p>{t("cart.empty")}</p>
+          <button className="modal-close" onClick={() => navigate("/")}>
+            {t("cart.toMenu")}
+          </button>
+        </div>
+      ) : (
+        <div className="cart-list">
+          {totals.lines.map((line) => (
+            <div key={line.key} className="cart-line">
+              <img src={line.img ?? "/placeholder.jpg"} alt={line.title} className="cart-line-img" />
+              <div className="cart-line-info">
+                <h3>{line.title}</h3>
+                {line.options && <div className="cart-line-options">{line.options.join(", ")}</div>}
+                <div className="cart-line-unit">{formatPrice(line.price)}</div>
+                <QuantityStepper
+                  value={line.quantity}
+                  min={0}
+                  onChange={(q) => setQuantity(line.key, q)}
+                />
+              </div>
+              <div className="cart-line-side">
+                <div className="cart-line-total">{formatPrice(line.lineTotal)}</div>
+                <button className="cart-line-remove" onClick={() => removeItem(line.key)} aria-label={t("common.remove")}>
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <CheckoutSummary totals={totals} discount={discount} />
+
+          <button className="auth-btn" onClick={() => navigate(ROUTES.checkout)}>
+            {t("cart.checkout")}
+          </button>
+
+          <button className="cart-clear" onClick={clearCart}>
+            {t("cart.clear")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
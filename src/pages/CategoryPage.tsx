@@ -1,83 +1,151 @@
-import React, { useEffect, useState, type JSX } from "react";
+import React, { useEffect, useLayoutEffect, useRef, useState, type JSX } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import Navbar from "../components/navbar.tsx";
 import HorizontalCategoryNav from "../components/HorizontalCategoryNav.tsx";
 import ItemCard from "../components/ItemCard.tsx";
 import ItemModal from "../components/ItemModal.tsx";
+import LoadState from "../components/LoadState.tsx";
+import DietFilterBar from "../components/DietFilterBar.tsx";
+import ListingControls from "../components/ListingControls.tsx";
 import type { Category, Item } from "../types.ts";
+import { getCategories, getItems } from "../api";
+import { CATALOG_CACHE_MS, prefetchQuery, useApiQuery } from "../api/useApiQuery";
+import { useAuth } from "../context/AuthContext";
+import { useLanguage } from "../context/LanguageContext";
+import { localizedName } from "../i18n";
+import { categoryPath, ROUTES } from "../routes";
+import { loadDietFilter, matchesDietFilter, saveDietFilter, type DietFilter } from "../utils/dietary";
+import {
+  inPriceRange,
+  priceBounds,
+  readListingParams,
+  sortItems,
+  writeListingParams,
+  type ListingParams,
+} from "../utils/itemListing";
 import "../App.css";
 
-const API_URL = "http://localhost:3000";
+const itemsKey = (categoryId: Category["id"], lang: string) => `items:${categoryId}:${lang}`;
+
+function prefetchItems(categoryId: Category["id"], lang: string) {
+  prefetchQuery(itemsKey(categoryId, lang), (signal) => getItems(categoryId, lang, { signal }));
+}
+
+// Last scroll offset of each category, kept for the lifetime of the tab
+const scrollPositions = new Map<string, number>();
+
+// Restores the saved offset once the category's items are on screen and keeps it
+// up to date while they are. Layout effects matter here: the listener has to be
+// gone before the browser reports the scroll caused by swapping in shorter content.
+function useCategoryScroll(categoryId: string | undefined, ready: boolean) {
+  const restoredFor = useRef<string | undefined>(undefined);
+
+  useLayoutEffect(() => {
+    if (!ready || !categoryId || restoredFor.current === categoryId) return;
+    restoredFor.current = categoryId;
+    window.scrollTo(0, scrollPositions.get(categoryId) ?? 0);
+  }, [categoryId, ready]);
+
+  useLayoutEffect(() => {
+    if (!ready || !categoryId) return;
+    const onScroll = () => scrollPositions.set(categoryId, window.scrollY);
+    window.addEventListener("scroll", onScroll, { passive: true });
+    return () => window.removeEventListener("scroll", onScroll);
+  }, [categoryId, ready]);
+}
+
+// The saved filter follows whoever is signed in; switching accounts swaps it
+function useDietFilter(): [DietFilter, (next: DietFilter) => void] {
+  const { auth } = useAuth();
+  const owner = auth.user?.username ?? null;
+  const [stored, setStored] = useState(() => ({ owner, filter: loadDietFilter(owner) }));
+  const filter = stored.owner === owner ? stored.filter : loadDietFilter(owner);
+
+  const setFilter = (next: DietFilter) => {
+    saveDietFilter(owner, next);
+    setStored({ owner, filter: next });
+  };
+  return [filter, setFilter];
+}
 
 export default function CategoryPage(): JSX.Element {
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [items, setItems] = useState<Item[]>([]);
   const [selected, setSelected] = useState<Item | null>(null);
 
-  const params = new URLSearchParams(window.location.search);
-  const categoryId = params.get("category") ?? undefined;
-  const lang = localStorage.getItem("lang") || "en";
+  const [searchParams, setSearchParams] = useSearchParams();
+  const categoryId = searchParams.get("category") ?? undefined;
+  const listing = readListingParams(searchParams);
+  const { lang, t } = useLanguage();
 
-  useEffect(() => {
-    // load categories (replace with fetch)
-    fetch(`${API_URL}/categories`)
-      .then((r) => r.json())
-      .then((data) => setCategories(data))
-      .catch(() => {
-        // fallback sample categories if backend not available:
-        setCategories([
-          { id: 1, name_en: "Breakfast", img: "/cat1.jpg" },
-          { id: 2, name_en: "Soups", img: "/cat2.jpg" },
-          { id: 2, name_en: "Hot Meals", img: "/cat3.jpg" },
-          { id: 2, name_en: "Pasta & Risotto", img: "/cat4.jpg" },
-        ]);
-      });
-  }, []);
+  const { data: categories = [] } = useApiQuery(
+    "categories",
+    (signal) => getCategories({ signal }),
+    { cacheMs: CATALOG_CACHE_MS },
+  );
+  const itemsQuery = useApiQuery(
+    categoryId ? itemsKey(categoryId, lang) : null,
+    (signal) => getItems(categoryId ?? "", lang, { signal }),
+    { cacheMs: CATALOG_CACHE_MS },
+  );
+  const allItems = itemsQuery.data ?? [];
+  const [dietFilter, setDietFilter] = useDietFilter();
+  const bounds = priceBounds(allItems);
+  const items = sortItems(
+    allItems.filter((it) => matchesDietFilter(it, dietFilter) && inPriceRange(it, listing)),
+    listing.sort,
+    lang,
+  );
 
+  // Slider drags fire constantly, so listing changes replace the entry instead of piling up history
+  const setListing = (next: ListingParams) =>
+    setSearchParams(writeListingParams(searchParams, next), { replace: true });
+  // The sort order follows the user to the next category; a price range is per category
+  const pathFor = (id: Category["id"]) =>
+    categoryPath(id, listing.sort === "default" ? {} : { sort: listing.sort });
+
+  const currentIndex = categories.findIndex((c) => String(c.id) === String(categoryId));
+  const currentCategory = categories[currentIndex];
+
+  useCategoryScroll(categoryId, itemsQuery.data !== undefined);
+
+  // The next pill the user is likely to tap is a neighbour of the current one
   useEffect(() => {
-    if (!categoryId) return;
-    // load items by category (replace with fetch)
-    fetch(`${API_URL}/items/${categoryId}?lang=${lang}`)
-      .then((r) => r.json())
-      .then((data) => setItems(data))
-      .catch(() => {
-        // fallback mock items if backend down
-        setItems([
-          {
-            id: 1,
-            title: "Джо комбо",
-            description: "Tasty combo with drink and fries",
-            ingredients: "Meat, potatoes, sauce",
-            price: "490",
-            img: "/item1.jpg",
-          },
-          {
-            id: 2,
-            title: "Фаст Комбо",
-            description: "Fast and delicious",
-            ingredients: "Pizza, drink",
-            price: "780",
-            img: "/item2.jpg",
-          },
-        ]);
-      });
-  }, [categoryId, lang]);
+    if (currentIndex < 0) return;
+    for (const neighbour of [categories[currentIndex - 1], categories[currentIndex + 1]]) {
+      if (neighbour) prefetchItems(neighbour.id, lang);
+    }
+  }, [categories, currentIndex, lang]);
 
   return (
     <div className="page-container">
       <Navbar showLogo={false} showSignIn={false} />
-      <HorizontalCategoryNav categories={categories} lang={lang} />
+      <HorizontalCategoryNav
+        categories={categories}
+        activeId={categoryId}
+        pathFor={pathFor}
+        onHover={(id) => prefetchItems(id, lang)}
+      />
 
       <h1 className="category-title-large">
-        {categories.find((c) => String(c.id) === String(categoryId))?.[
-          `name_${lang}` as keyof Category
-        ] ?? "Категория"}
+        {currentCategory ? localizedName(currentCategory, lang) : t("category.fallbackTitle")}
       </h1>
+      <Link to={ROUTES.menu} className="menu-link">{t("menu.fullMenu")}</Link>
+
+      <DietFilterBar value={dietFilter} onChange={setDietFilter} shown={items.length} total={allItems.length} />
+      <ListingControls value={listing} bounds={bounds} onChange={setListing} />
 
-      <div className="items-grid">
-        {items.map((it) => (
-          <ItemCard key={it.id} item={it} onClick={() => setSelected(it)} />
-        ))}
-      </div>
+      <LoadState
+        loading={itemsQuery.loading}
+        error={itemsQuery.error}
+        isEmpty={items.length === 0}
+        emptyText={allItems.length > 0 ? t("filter.empty") : t("status.emptyItems")}
+        onRetry={itemsQuery.reload}
+      >
+        <div className="items-grid">
+          {items.map((it) => (
+            <ItemCard key={it.id} item={it} onClick={() => setSelected(it)} />
+          ))}
+        </div>
+      </LoadState>
 
       {selected && <ItemModal item={selected} onClose={() => setSelected(null)} />}
     </div>
@@ -0,0 +1,415 @@
+// src/pages/Checkout.tsx
+// Four steps: order type, time, contact details, review. The current step lives
+// in the URL so the browser's back button walks back through them.
+import { useEffect, useRef, useState, type ChangeEvent, type JSX } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import Navbar from "../components/navbar";
+import AuthField from "../components/AuthField";
+import CheckoutSummary from "../components/CheckoutSummary";
+import { useAuth } from "../context/AuthContext";
+import { useCart } from "../context/CartContext";
+import { useLanguage } from "../context/LanguageContext";
+import { useTable } from "../context/TableContext";
+import { getFullMenu, placeOrder, toApiError, type ApiError } from "../api";
+import type { Order, OrderType } from "../types";
+import {
+  ASAP,
+  CHECKOUT_STEPS,
+  NOTES_MAX,
+  ORDER_TYPES,
+  firstIncompleteStep,
+  hasErrors,
+  toNewOrder,
+  validateStep,
+  type CheckoutDraft,
+  type CheckoutStep,
+  type DraftErrors,
+} from "../utils/checkout";
+import { asapAvailable, hoursOn, timeSlots } from "../utils/openingHours";
+import { priceOrder, toActiveDiscount } from "../utils/pricing";
+import { shortOrderId } from "../utils/orders";
+import { ROUTES, orderPath } from "../routes";
+import "../App.css";
+
+const isStep = (value: string | null): value is CheckoutStep =>
+  CHECKOUT_STEPS.includes(value as CheckoutStep);
+
+// Server refusals that have a better message than the generic one
+const SUBMIT_ERROR_KEYS = {
+  kitchen_closed: "checkout.error.closed",
+  slot_unavailable: "checkout.error.slotGone",
+  discount_unavailable: "checkout.error.discountChanged",
+  price_changed: "checkout.error.priceChanged",
+} as const;
+
+// Keeps the chosen time if the new order type can still make it
+function defaultWhen(type: OrderType, current: string | null, now: Date): string {
+  const slots = timeSlots(type, now);
+  if (current && current !== ASAP && slots.some((s) => s.toISOString() === current)) return current;
+  if (asapAvailable(type, now)) return ASAP;
+  return slots[0]?.toISOString() ?? ASAP;
+}
+
+export default function CheckoutPage(): JSX.Element {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { auth, apiUser, wallet, refreshWallet } = useAuth();
+  const { lines, clearCart, repriceLines } = useCart();
+  const { lang, t, formatPrice } = useLanguage();
+  const { tableId } = useTable();
+
+  const [now, setNow] = useState(() => new Date());
+  const [draft, setDraft] = useState<CheckoutDraft>(() => {
+    const type: OrderType = tableId ? "dine_in" : "takeaway";
+    return {
+      type,
+      tableId: tableId ?? "",
+      when: defaultWhen(type, null, now),
+      contact: { name: auth.user?.username ?? "", phone: "", email: auth.user?.email ?? "", address: "" },
+      notes: "",
+      useDiscount: true,
+    };
+  });
+  const [shownErrors, setShownErrors] = useState<CheckoutStep | null>(null);
+  const [submit, setSubmit] = useState<{ pending?: boolean; error?: ApiError }>({});
+  const [placed, setPlaced] = useState<Order | null>(null);
+
+  // One key per distinct order: resending the same order reuses it, changing the order gets a new one
+  const attempt = useRef<{ key: string; fingerprint: string } | null>(null);
+  const sending = useRef(false);
+
+  // slots that have passed drop out of the list
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const discount = toActiveDiscount(wallet, now);
+  const totals = priceOrder(lines, draft.useDiscount ? discount : null);
+
+  // A step can't be opened by URL before the ones ahead of it are filled in
+  const requested = searchParams.get("step");
+  const reachable = CHECKOUT_STEPS.indexOf(firstIncompleteStep(draft, now));
+  const wanted = isStep(requested) ? CHECKOUT_STEPS.indexOf(requested) : 0;
+  const step = CHECKOUT_STEPS[Math.min(wanted, reachable)];
+  const errors: DraftErrors = shownErrors === step || wanted > reachable ? validateStep(step, draft, now) : {};
+  const message = (field: keyof DraftErrors) => {
+    const error = errors[field];
+    return error ? t(error.key, error.params) : null;
+  };
+
+  const edit = (patch: Partial<CheckoutDraft>) => setDraft((d) => ({ ...d, ...patch }));
+  const editContact = (field: keyof CheckoutDraft["contact"]) => (e: ChangeEvent<HTMLInputElement>) =>
+    setDraft((d) => ({ ...d, contact: { ...d.contact, [field]: e.target.value } }));
+
+  const goTo = (next: CheckoutStep) => {
+    setShownErrors(null);
+    setSearchParams(next === "type" ? {} : { step: next });
+  };
+
+  const onNext = () => {
+    if (hasErrors(validateStep(step, draft, now))) return setShownErrors(step);
+    goTo(CHECKOUT_STEPS[CHECKOUT_STEPS.indexOf(step) + 1]);
+  };
+
+  const onSubmit = async () => {
+    if (sending.current) return;
+    const order = toNewOrder(draft, lines, totals);
+    const fingerprint = JSON.stringify(order);
+    if (attempt.current?.fingerprint !== fingerprint) {
+      attempt.current = { key: crypto.randomUUID(), fingerprint };
+    }
+
+    sending.current = true;
+    setSubmit({ pending: true });
+    try {
+      const result = await placeOrder(order, attempt.current.key, lang);
+      // the server spent the discount along with the order; show the emptied wallet
+      if (result.discountAmount > 0) refreshWallet();
+      attempt.current = null;
+      clearCart();
+      setPlaced(result);
+    } catch (error) {
+      const apiError = toApiError(error);
+      // spent or earned elsewhere meanwhile: show the wallet as it is now
+      if (apiError.code === "discount_unavailable") refreshWallet();
+      // the menu changed after these lines were added: show what the order costs now
+      if (apiError.code === "price_changed") {
+        getFullMenu(lang).then(
+          menu => repriceLines(menu.flatMap(section => section.items)),
+          () => {
+            // offline: the next attempt gets the same answer and tries again
+          },
+        );
+      }
+      setSubmit({ error: apiError });
+    } finally {
+      sending.current = false;
+    }
+  };
+
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleString(lang, { weekday: "short", hour: "2-digit", minute: "2-digit" });
+  const whenText = (when: string | undefined) => (!when || when === ASAP ? t("checkout.asap") : formatTime(when));
+
+  if (placed) {
+    return (
+      <div className="page-container">
+        <Navbar showLogo={false} showSignIn={false} />
+        <div className="cart-empty">
+          <h2>{t("cart.placed")}</h2>
+          <p>{t("orders.number", { id: shortOrderId(placed.id) })}</p>
+          <p>{t(`checkout.type.${placed.type}`)} · {whenText(placed.scheduledFor)}</p>
+          <p>{t("cart.toPay", { total: formatPrice(placed.total) })}</p>
+          {placed.tableId && <p>{t("table.servedAt", { table: placed.tableId })}</p>}
+          {apiUser && <Link to={orderPath(placed.id)} className="menu-link">{t("cart.viewOrder")}</Link>}
+          <button className="modal-close" onClick={() => navigate(ROUTES.home)}>
+            {t("cart.backToMenu")}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (lines.length === 0) {
+    return (
+      <div className="page-container">
+        <Navbar showLogo={false} showSignIn={false} />
+        <div className="cart-empty">
+          <p>{t("cart.empty")}</p>
+          <button className="modal-close" onClick={() => navigate(ROUTES.home)}>
+            {t("cart.toMenu")}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const hours = hoursOn(now);
+  const slots = timeSlots(draft.type, now);
+  const canAsap = asapAvailable(draft.type, now);
+
+  return (
+    <div className="page-container">
+      <Navbar showLogo={false} showSignIn={false} showSearch={false} />
+
+      <h1 className="category-title-large">{t("checkout.title")}</h1>
+
+      <ol className="checkout-steps">
+        {CHECKOUT_STEPS.map((s, i) => (
+          <li key={s} className={s === step ? "current" : i < CHECKOUT_STEPS.indexOf(step) ? "done" : undefined}>
+            {i < CHECKOUT_STEPS.indexOf(step) ? (
+              <button type="button" onClick={() => goTo(s)}>{t(`checkout.step.${s}`)}</button>
+            ) : (
+              <span aria-current={s === step ? "step" : undefined}>{t(`checkout.step.${s}`)}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="checkout-panel">
+        {step === "type" && (
+          <fieldset className="option-group">
+            <legend>{t("checkout.typeTitle")}</legend>
+            {ORDER_TYPES.map((type) => (
+              <label key={type} className="option-row">
+                <input
+                  type="radio"
+                  name="order-type"
+                  checked={draft.type === type}
+                  onChange={() => edit({ type, when: defaultWhen(type, draft.when, now) })}
+                />
+                <span>{t(`checkout.type.${type}`)}</span>
+              </label>
+            ))}
+            {draft.type === "dine_in" && (
+              <div className="auth-form checkout-fields">
+                <AuthField
+                  id="checkout-table"
+                  type="text"
+                  inputMode="text"
+                  placeholder={t("checkout.tableNumber")}
+                  aria-label={t("checkout.tableNumber")}
+                  value={draft.tableId}
+                  onChange={(e) => edit({ tableId: e.target.value })}
+                  error={message("tableId")}
+                />
+              </div>
+            )}
+          </fieldset>
+        )}
+
+        {step === "time" && (
+          <fieldset className="option-group" aria-invalid={errors.when ? true : undefined}>
+            <legend>{t("checkout.timeTitle")}</legend>
+            <p className="option-hint">
+              {hours
+                ? t("checkout.hoursToday", {
+                  open: hours.open.toLocaleTimeString(lang, { hour: "2-digit", minute: "2-digit" }),
+                  close: hours.close.toLocaleTimeString(lang, { hour: "2-digit", minute: "2-digit" }),
+                })
+                : t("checkout.closedToday")}
+            </p>
+            <label className="option-row">
+              <input
+                type="radio"
+                name="order-when"
+                checked={draft.when === ASAP}
+                disabled={!canAsap}
+                onChange={() => edit({ when: ASAP })}
+              />
+              <span>{t("checkout.asap")}</span>
+            </label>
+            <label className="option-row">
+              <input
+                type="radio"
+                name="order-when"
+                checked={draft.when !== ASAP}
+                disabled={slots.length === 0}
+                onChange={() => edit({ when: slots[0].toISOString() })}
+              />
+              <span>{t("checkout.scheduled")}</span>
+            </label>
+            {draft.when !== ASAP && (
+              <select
+                className="listing-sort"
+                value={draft.when}
+                onChange={(e) => edit({ when: e.target.value })}
+                aria-label={t("checkout.scheduled")}
+              >
+                {!slots.some((s) => s.toISOString() === draft.when) && <option value={draft.when}>—</option>}
+                {slots.map((slot) => (
+                  <option key={slot.getTime()} value={slot.toISOString()}>{formatTime(slot.toISOString())}</option>
+                ))}
+              </select>
+            )}
+            {errors.when && <p className="field-error" role="alert">{message("when")}</p>}
+          </fieldset>
+        )}
+
+        {step === "contact" && (
+          <div className="auth-form checkout-fields">
+            <AuthField
+              id="checkout-name"
+              type="text"
+              autoComplete="name"
+              placeholder={t("checkout.name")}
+              aria-label={t("checkout.name")}
+              value={draft.contact.name}
+              onChange={editContact("name")}
+              error={message("name")}
+            />
+            <AuthField
+              id="checkout-phone"
+              type="tel"
+              autoComplete="tel"
+              placeholder={t("checkout.phone")}
+              aria-label={t("checkout.phone")}
+              value={draft.contact.phone}
+              onChange={editContact("phone")}
+              error={message("phone")}
+            />
+            <AuthField
+              id="checkout-email"
+              type="email"
+              autoComplete="email"
+              placeholder={t("checkout.emailOptional")}
+              aria-label={t("checkout.emailOptional")}
+              value={draft.contact.email}
+              onChange={editContact("email")}
+              error={message("email")}
+            />
+            {draft.type === "delivery" && (
+              <AuthField
+                id="checkout-address"
+                type="text"
+                autoComplete="street-address"
+                placeholder={t("checkout.address")}
+                aria-label={t("checkout.address")}
+                value={draft.contact.address}
+                onChange={editContact("address")}
+                error={message("address")}
+              />
+            )}
+            <textarea
+              className="checkout-notes"
+              placeholder={t("checkout.notes")}
+              aria-label={t("checkout.notes")}
+              maxLength={NOTES_MAX}
+              rows={3}
+              value={draft.notes}
+              onChange={(e) => edit({ notes: e.target.value })}
+            />
+          </div>
+        )}
+
+        {step === "review" && (
+          <div className="cart-list">
+            <dl className="checkout-review">
+              <dt>{t("checkout.step.type")}</dt>
+              <dd>
+                {t(`checkout.type.${draft.type}`)}
+                {draft.type === "dine_in" && ` · ${t("table.label", { table: draft.tableId.trim() })}`}
+              </dd>
+              <dt>{t("checkout.step.time")}</dt>
+              <dd>{whenText(draft.when)}</dd>
+              <dt>{t("checkout.step.contact")}</dt>
+              <dd>
+                {[draft.contact.name, draft.contact.phone, draft.contact.email, draft.type === "delivery" && draft.contact.address]
+                  .filter((part) => part && part.trim())
+                  .join(" · ")}
+              </dd>
+              {draft.notes.trim() && (
+                <>
+                  <dt>{t("checkout.notes")}</dt>
+                  <dd>{draft.notes.trim()}</dd>
+                </>
+              )}
+            </dl>
+
+            {totals.lines.map((line) => (
+              <div key={line.key} className="checkout-row">
+                <span>
+                  {line.title} × {line.quantity}
+                  {line.options && <small className="cart-line-options"> {line.options.join(", ")}</small>}
+                </span>
+                <span>{formatPrice(line.lineTotal)}</span>
+              </div>
+            ))}
+
+            <CheckoutSummary
+              totals={totals}
+              discount={discount}
+              useDiscount={draft.useDiscount}
+              onToggleDiscount={(useDiscount) => edit({ useDiscount })}
+            />
+
+            {submit.error && (
+              <p className="auth-error" role="alert">
+                {t(SUBMIT_ERROR_KEYS[submit.error.code as keyof typeof SUBMIT_ERROR_KEYS]
+                  ?? `status.error.${submit.error.kind}`)}
+              </p>
+            )}
+
+            <button className="auth-btn" onClick={onSubmit} disabled={submit.pending}>
+              {t(submit.pending ? "checkout.placing" : "cart.placeOrder")}
+            </button>
+          </div>
+        )}
+
+        <div className="checkout-nav">
+          {step !== "type" && (
+            <button type="button" className="cart-clear" onClick={() => goTo(CHECKOUT_STEPS[CHECKOUT_STEPS.indexOf(step) - 1])}>
+              {t("common.back")}
+            </button>
+          )}
+          {step !== "review" && (
+            <button type="button" className="auth-btn" onClick={onNext}>
+              {t("checkout.next")}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
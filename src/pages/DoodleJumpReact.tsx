@@ -1,136 +1,50 @@
 import React, { useRef, useEffect, useState, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
+import { useAuth } from "../context/AuthContext";
+import { useLanguage } from "../context/LanguageContext";
+import { WALLET_CONFIG, type LoyaltyWallet } from "../utils/loyaltyWallet";
+import { hasPlayedRiddle, loadHighScore, markRiddlePlayed, saveHighScore } from "../utils/gameProgress";
+import { getDailyRiddle, solveRiddle, startJumpRun, submitJumpRun, toApiError } from "../api";
+import { useApiQuery } from "../api/useApiQuery";
+import LoadState from "../components/LoadState";
+import JumpLeaderboard from "../components/JumpLeaderboard";
+import type { DailyRiddle } from "../types";
+import {
+  NO_INPUT,
+  POWER_UP_COLORS,
+  TICK_SECONDS,
+  createGame,
+  finalScore,
+  step,
+  type GameState,
+  type JumpInput,
+  type PlatformType,
+} from "../utils/jumpEngine";
+import { recordInput, startReplay, type JumpReplay } from "../utils/jumpReplay";
 
 type Props = {
   width?: number;
   height?: number;
   spriteSrc?: string;
   onGameOver?: (score: number) => void;
-  onDiscountEarned?: (discountData: DiscountData) => void;
+  onDiscountEarned?: (wallet: LoyaltyWallet) => void;
 };
 
-// ---------------- Discount Interfaces ----------------
-interface DiscountData {
-  pointsEarned: number;
-  discountPercent: number;
-  totalDiscount: number;
-  expirationDate: Date;
-}
-
-interface DiscountConfig {
-  pointsPerPercent: number;
-  maxDiscount: number;
-  discountValidityDays: number;
-}
-
-const DISCOUNT_CONFIG: DiscountConfig = {
-  pointsPerPercent: 100, // 100 points = 1% discount
-  maxDiscount: 100,
-  discountValidityDays: 7
-};
-
-// ---------------- Enhanced FullScreenDoodleJump Interfaces ----------------
-interface Platform {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  vx: number;
-  type: number;
-  isBreakable: boolean;
-  isDisappearing: boolean;
-  disappearTimer: number;
-  hasPowerUp?: boolean;
-}
-
-interface PowerUp {
-  x: number;
-  y: number;
-  type: 'jetpack' | 'spring' | 'rocket' | 'shield';
-  width: number;
-  height: number;
-  activeTime: number;
-  isActive: boolean;
-}
-
-interface Particle {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  size: number;
-  color: string;
-  life: number;
-  maxLife: number;
-}
-
-interface Player {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  width: number;
-  height: number;
-  isMovingLeft: boolean;
-  isMovingRight: boolean;
-  isDead: boolean;
-  hasJetpack: boolean;
-  jetpackFuel: number;
-  hasShield: boolean;
-  shieldTimer: number;
-  rocketBoost: number;
-  isInvincible: boolean;
-  invincibleTimer: number;
-}
-
-interface GameState {
-  W: number;
-  H: number;
-  player: Player;
-  platforms: Platform[];
-  powerUps: PowerUp[];
-  particles: Particle[];
-  gravity: number;
-  scrollThreshold: number;
-  score: number;
-  highScore: number;
-  level: number;
-  base: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  difficulty: number;
-  lastPlatformY: number;
-  platformGap: number;
-  time: number;
-  combo: number;
-  comboMultiplier: number;
-  discountData: DiscountData;
-}
-
 // ---------------- GuessTheWord Interfaces ----------------
 interface GuessTheWordProps {
   onExit: () => void;
   onGuess?: (isCorrect: boolean, isFirstGuess: boolean) => void;
-  onDiscountEarned?: (discountData: DiscountData) => void;
+  onDiscountEarned?: (wallet: LoyaltyWallet) => void;
 }
 
-const MOCK_GAME_DATA = {
-  question: "What has keys but can't open locks?",
-  wordLength: 5,
-  correctAnswer: "PIANO",
-  maxAttempts: 3,
-  hasBeenGuessedToday: false,
-  firstGuesser: null as string | null,
-  discountAmount: 5,
-};
+interface GuessTheWordGameProps extends GuessTheWordProps {
+  riddle: DailyRiddle;
+}
 
 interface GuessGameState {
   question: string;
   wordLength: number;
-  correctAnswer: string;
+  revealedAnswer: string | null; // sent by the server once the game is over
   maxAttempts: number;
   attemptsRemaining: number;
   hasBeenGuessedToday: boolean;
@@ -152,109 +66,126 @@ const ctaStyle: React.CSSProperties = {
   transition: "all 0.2s ease",
 };
 
-// ---------------- Discount Helper Functions ----------------
-// Load existing discount from storage
-// ---------------- Discount Helper Functions (WEB VERSION) ----------------
-
-// Load discount from localStorage
-const loadDiscount = (): DiscountData | null => {
-  try {
-    const raw = localStorage.getItem("user_discount");
-    if (!raw) return null;
-
-    const data = JSON.parse(raw);
-
-    return {
-      ...data,
-      expirationDate: new Date(data.expirationDate)
-    };
-  } catch (error) {
-    console.log("No existing discount found");
-    return null;
-  }
+// ---------------- FullScreenDoodleJump Rendering ----------------
+// The simulation lives in utils/jumpEngine; this only paints a GameState.
+const PLATFORM_COLORS: Record<PlatformType, string> = {
+  1: '#D9F7E8',
+  2: '#CDECF6',
+  3: '#FBE6C8',
+  4: '#FFCCCB',
+  5: '#E6E6FA',
 };
 
-// Save discount to localStorage
-const saveDiscount = (discount: DiscountData): void => {
-  try {
-    localStorage.setItem("user_discount", JSON.stringify(discount));
-  } catch (error) {
-    console.error("Failed to save discount:", error);
-  }
-};
+// For runs that could not get a seed from the server; those are never submitted
+const localSeed = () => Math.floor(Math.random() * 0x100000000);
 
-const calculateDiscount = (score: number, config: DiscountConfig): DiscountData => {
-  const pointsEarned = Math.floor(score);
-  const discountPercent = Math.min(
-    Math.floor(pointsEarned / config.pointsPerPercent),
-    config.maxDiscount
-  );
+// A frame can land between two ticks: things are drawn part of the way from
+// where they were before the latest tick to where they are now.
+type Point = { x: number; y: number };
+type Positions = Map<object, Point>;
 
-  const totalDiscount = discountPercent;
+// A background tab can come back after minutes; past this the game just runs slower
+const MAX_FRAME_SECONDS = 0.25;
 
-  const expirationDate = new Date();
-  expirationDate.setDate(expirationDate.getDate() + config.discountValidityDays);
+const RESUME_COUNTDOWN = 3; // seconds of "3, 2, 1" before a paused game moves again
 
-  return {
-    pointsEarned,
-    discountPercent,
-    totalDiscount,
-    expirationDate
-  };
-};
+function snapshot(s: GameState): Positions {
+  const positions: Positions = new Map();
+  for (const thing of [s.player, s.base, ...s.platforms, ...s.powerUps, ...s.particles]) {
+    positions.set(thing, { x: thing.x, y: thing.y });
+  }
+  return positions;
+}
 
-const updateDiscount = async (newPoints: number, source: "jump" | "guess"): Promise<DiscountData> => {
-  const existing = loadDiscount();
-  const now = new Date();
+function blend(thing: Point, previous: Positions, alpha: number, s: GameState): Point {
+  const from = previous.get(thing);
+  // Wrapping around, recycling and breaking are teleports, not movement
+  if (!from || Math.abs(thing.x - from.x) > s.W / 2 || Math.abs(thing.y - from.y) > s.H / 2) return thing;
+  return { x: from.x + (thing.x - from.x) * alpha, y: from.y + (thing.y - from.y) * alpha };
+}
 
-  // Expired -> start fresh
-  if (existing && existing.expirationDate < now) {
-    const fresh = calculateDiscount(newPoints, DISCOUNT_CONFIG);
-    saveDiscount(fresh);
-    return fresh;
+function drawGame(ctx: CanvasRenderingContext2D, s: GameState, sprite: HTMLImageElement | null, previous: Positions, alpha: number) {
+  const at = (thing: Point) => blend(thing, previous, alpha, s);
+
+  ctx.clearRect(0, 0, s.W, s.H);
+
+  // Gradient background
+  const gradient = ctx.createLinearGradient(0, 0, 0, s.H);
+  gradient.addColorStop(0, '#FFF7EE');
+  gradient.addColorStop(1, '#FFEEDD');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, s.W, s.H);
+
+  for (const particle of s.particles) {
+    const { x, y } = at(particle);
+    ctx.globalAlpha = particle.life / particle.maxLife;
+    ctx.fillStyle = particle.color;
+    ctx.beginPath();
+    ctx.arc(x, y, particle.size, 0, Math.PI * 2);
+    ctx.fill();
   }
+  ctx.globalAlpha = 1;
 
-  // No previous discount -> create new
-  if (!existing) {
-    const fresh = calculateDiscount(newPoints, DISCOUNT_CONFIG);
-    saveDiscount(fresh);
-    return fresh;
-  }
+  for (const pl of s.platforms) {
+    const { x, y } = at(pl);
+    ctx.fillStyle = PLATFORM_COLORS[pl.type];
+    if (pl.isDisappearing) {
+      ctx.globalAlpha = Math.max(0, 1 - pl.disappearTimer);
+    }
+    ctx.fillRect(x, y, pl.width, pl.height);
+    ctx.globalAlpha = 1;
 
-  // Already max → keep expiration, do not add points
-  if (existing.totalDiscount >= DISCOUNT_CONFIG.maxDiscount) {
-    return existing;
-  }
+    ctx.strokeStyle = pl.type === 4 ? '#FF6B6B' : pl.type === 5 ? '#9370DB' : '#AAAAAA';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(x, y, pl.width, pl.height);
 
-  // Merge with existing
-  let totalPoints = existing.pointsEarned;
-  let totalDiscount = existing.totalDiscount;
+    // Power-up indicator
+    if (pl.hasPowerUp) {
+      ctx.fillStyle = '#FFD700';
+      ctx.beginPath();
+      ctx.arc(x + pl.width/2, y - 5, 4, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
 
-  if (source === "jump") {
-    totalPoints += newPoints;
-    totalDiscount = Math.min(
-      Math.floor(totalPoints / DISCOUNT_CONFIG.pointsPerPercent),
-      DISCOUNT_CONFIG.maxDiscount
-    );
-  } else if (source === "guess") {
-    totalDiscount = Math.min(existing.totalDiscount + 5, DISCOUNT_CONFIG.maxDiscount);
+  for (const powerUp of s.powerUps) {
+    const { x, y } = at(powerUp);
+    ctx.fillStyle = POWER_UP_COLORS[powerUp.type];
+    ctx.beginPath();
+    ctx.arc(x + powerUp.width/2, y + powerUp.height/2, 15, 0, Math.PI * 2);
+    ctx.fill();
   }
 
-  // Extend expiration
-  const expirationDate = new Date();
-  expirationDate.setDate(expirationDate.getDate() + DISCOUNT_CONFIG.discountValidityDays);
+  // Player, blinking while invincible
+  const p = s.player;
+  const { x, y } = at(p);
+  if (!p.isInvincible || Math.floor(s.time * 10) % 2 === 0) {
+    if (sprite && sprite.complete) {
+      ctx.drawImage(sprite, x, y, p.width, p.height);
+    } else {
+      ctx.fillStyle = '#FFB88C';
+      ctx.fillRect(x, y, p.width, p.height);
 
-  const updated: DiscountData = {
-    pointsEarned: totalPoints,
-    discountPercent: totalDiscount,
-    totalDiscount,
-    expirationDate
-  };
+      ctx.fillStyle = '#7A3E00';
+      ctx.fillRect(x + 10, y + 10, 8, 8);
+      ctx.fillRect(x + p.width - 18, y + 10, 8, 8);
+      ctx.fillRect(x + 20, y + 25, p.width - 40, 4);
+    }
+  }
 
-  saveDiscount(updated);
-  return updated;
-};
+  if (p.hasShield) {
+    ctx.strokeStyle = '#96CEB4';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(x + p.width/2, y + p.height/2, p.width/2 + 5, 0, Math.PI * 2);
+    ctx.stroke();
+  }
 
+  // Base
+  const base = at(s.base);
+  ctx.fillStyle = '#E6D8CF';
+  ctx.fillRect(base.x, base.y, s.base.width, s.base.height);
+}
 
 // ---------------- Enhanced FullScreenDoodleJump Component ----------------
 function FullScreenDoodleJump({ 
@@ -267,27 +198,30 @@ function FullScreenDoodleJump({
   const animationRef = useRef<number | null>(null);
   const stateRef = useRef<GameState | null>(null);
   const spriteRef = useRef<HTMLImageElement | null>(null);
-  const lastScoreRef = useRef<number>(0);
+  const inputRef = useRef<JumpInput>({ ...NO_INPUT });
+  const replayRef = useRef<JumpReplay | null>(null);
+  const nextSeedRef = useRef<number | null>(null); // issued by the server for the next run
+  const rankedRef = useRef(false); // the current run was started from an issued seed
+  const lastFrameRef = useRef<number | null>(null); // rAF timestamp of the previous frame
+  const accumulatorRef = useRef(0); // seconds of real time not yet simulated
+  const previousRef = useRef<Positions>(new Map());
 
   const [isRunning, setIsRunning] = useState(false);
   const [score, setScore] = useState(0);
-  const [highScore, setHighScore] = useState(() => {
-    return parseInt(localStorage.getItem('giraffeJumpHighScore') || '0');
-  });
+  // the discount lives in the signed-in user's loyalty wallet; a local
+  // account has none and plays like a guest
+  const { apiUser, wallet: discountInfo, applyWallet } = useAuth();
+  const username = apiUser?.username ?? "";
+  // only ever a best the server verified; an unchecked local score never gets in
+  const [highScore, setHighScore] = useState(() => loadHighScore(username));
+  const [newBest, setNewBest] = useState(false);
   const [gameOver, setGameOver] = useState(false);
+  const [creditMessage, setCreditMessage] = useState<string | null>(null);
+  const [boardVersion, setBoardVersion] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [countdown, setCountdown] = useState<number | null>(null); // set while resuming
   const [isMobile, setIsMobile] = useState<boolean>(typeof window !== 'undefined' ? window.innerWidth <= 768 : true);
-  const [discountInfo, setDiscountInfo] = useState<DiscountData | null>(null);
-
-  // Load existing discount on mount
-  useEffect(() => {
-    const loadExistingDiscount = async () => {
-      const existing = await loadDiscount();
-      if (existing) {
-        setDiscountInfo(existing);
-      }
-    };
-    loadExistingDiscount();
-  }, []);
+  const { lang, t } = useLanguage();
 
   // Load sprite image
   useEffect(() => {
@@ -336,118 +270,72 @@ function FullScreenDoodleJump({
     };
   }, [resizeCanvas]);
 
-  const createParticles = useCallback((x: number, y: number, count: number, color: string) => {
-    const particles: Particle[] = [];
-    const actualCount = Math.min(count, 8); // Limit particles for performance
-    for (let i = 0; i < actualCount; i++) {
-      particles.push({
-        x: x + Math.random() * 10 - 5,
-        y: y + Math.random() * 10 - 5,
-        vx: Math.random() * 3 - 1.5,
-        vy: Math.random() * 3 - 1.5,
-        size: Math.random() * 2 + 1,
-        color,
-        life: 1,
-        maxLife: 0.5 + Math.random() * 0.3
-      });
-    }
-    return particles;
-  }, []);
-
-  const resetState = useCallback(() => {
+  const resetState = useCallback((seed: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    
+
     const W = canvas.clientWidth || 420;
     const H = canvas.clientHeight || 600;
-
-    const player: Player = {
-      x: W / 2 - 27,
-      y: H - 220,
-      vx: 0,
-      vy: 8, // Reduced from 11
-      width: 80,
-      height: 80,
-      isMovingLeft: false,
-      isMovingRight: false,
-      isDead: false,
-      hasJetpack: false,
-      jetpackFuel: 0,
-      hasShield: false,
-      shieldTimer: 0,
-      rocketBoost: 0,
-      isInvincible: false,
-      invincibleTimer: 0
-    };
-
-    const platforms: Platform[] = [];
-    const powerUps: PowerUp[] = [];
-    const platformCount = 15;
-
-    // Create initial platforms with variety
-    let y = 30;
-    for (let i = 0; i < platformCount; i++) {
-      const pw = 50 + Math.random() * 30;
-      const type = Math.floor(Math.random() * 5) + 1;
-      const isBreakable = type === 4 && Math.random() > 0.7;
-      const isDisappearing = type === 5 && Math.random() > 0.5;
-      
-      platforms.push({
-        x: Math.random() * (W - pw),
-        y,
-        width: pw,
-        height: 16,
-        vx: Math.random() > 0.85 ? (Math.random() > 0.5 ? 1.5 : -1.5) : 0,
-        type,
-        isBreakable,
-        isDisappearing,
-        disappearTimer: 0,
-        hasPowerUp: Math.random() > 0.85
-      });
-      y += H / (platformCount - 1);
-    }
-
-    // Ensure there's a platform directly beneath player's start area
-    const startPlatform: Platform = {
-      x: Math.max(10, player.x - 10),
-      y: player.y + player.height + 8,
-      width: 80,
-      height: 16,
-      vx: 0,
-      type: 1,
-      isBreakable: false,
-      isDisappearing: false,
-      disappearTimer: 0
-    };
-    platforms.push(startPlatform);
-
-    stateRef.current = {
-      W,
-      H,
-      player,
-      platforms,
-      powerUps,
-      particles: [],
-      gravity: 0.25, // Reduced from 0.28
-      scrollThreshold: H * 0.36,
-      score: 0,
-      highScore: parseInt(localStorage.getItem('giraffeJumpHighScore') || '0'),
-      level: 1,
-      base: { x: 0, y: H - 6, width: W, height: 6 },
-      difficulty: 1,
-      lastPlatformY: -100,
-      platformGap: H / (platformCount - 1),
-      time: 0,
-      combo: 0,
-      comboMultiplier: 1,
-      discountData: calculateDiscount(0, DISCOUNT_CONFIG)
-    };
+    stateRef.current = createGame(seed, W, H);
+    replayRef.current = startReplay(seed, W, H);
+    inputRef.current = { ...NO_INPUT };
+    lastFrameRef.current = null;
+    accumulatorRef.current = 0;
+    previousRef.current = new Map();
 
     setScore(0);
     setGameOver(false);
+    setCreditMessage(null);
+    setNewBest(false);
   }, []);
 
-  const gameLoop = useCallback(() => {
+  // Ranked runs need a seed the server chose. It is fetched while the player
+  // is between runs, so pressing start never waits on the network.
+  useEffect(() => {
+    if (!username || isRunning || nextSeedRef.current !== null) return;
+    const controller = new AbortController();
+    startJumpRun({ signal: controller.signal }).then(({ seed }) => {
+      nextSeedRef.current = seed;
+    }, () => {
+      // offline: the next run is played on a local seed and not submitted
+    });
+    return () => {
+      controller.abort();
+      // a seed issued to whoever was signed in before can't be submitted now
+      nextSeedRef.current = null;
+    };
+  }, [username, isRunning]);
+
+  // Points are only added for the score the server verified from the replay
+  const creditRun = useCallback((runScore: number, replay: JumpReplay | null) => {
+    if (!apiUser || !replay || runScore <= 0) return;
+    if (!rankedRef.current) {
+      setCreditMessage(t('jump.unranked'));
+      return;
+    }
+    setCreditMessage(t('jump.verifying'));
+    submitJumpRun(runScore, replay).then(({ score: verified, personalBest, wallet }) => {
+      applyWallet(wallet);
+      setCreditMessage(t('jump.credited', { points: verified }));
+      // the account's best counts on every device, not just this browser's
+      const previousBest = loadHighScore(username);
+      setHighScore(saveHighScore(username, personalBest));
+      setNewBest(verified === personalBest && verified > previousBest);
+      setBoardVersion(v => v + 1);
+      if (onDiscountEarned) {
+        onDiscountEarned(wallet);
+      }
+    }, (error) => {
+      const apiError = toApiError(error);
+      setCreditMessage(apiError.code === 'replay_rejected' || apiError.code === 'replay_seed_unknown'
+        ? t('jump.rejected')
+        : t(`status.error.${apiError.kind}`));
+    });
+  }, [apiUser, applyWallet, onDiscountEarned, username, t]);
+
+  // Real elapsed time is fed to the engine in fixed ticks, so a 120Hz screen
+  // runs two frames per tick and a 30Hz one two ticks per frame.
+  const gameLoop = useCallback((now: number) => {
     const s = stateRef.current;
     if (!s) return;
     const canvas = canvasRef.current;
@@ -456,430 +344,137 @@ function FullScreenDoodleJump({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Update time
-    s.time += 1/60;
-
-    // Clear
-    ctx.clearRect(0, 0, s.W, s.H);
-
-    // Gradient background
-    const gradient = ctx.createLinearGradient(0, 0, 0, s.H);
-    gradient.addColorStop(0, '#FFF7EE');
-    gradient.addColorStop(1, '#FFEEDD');
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, s.W, s.H);
+    const elapsed = lastFrameRef.current === null ? 0 : (now - lastFrameRef.current) / 1000;
+    lastFrameRef.current = now;
+    accumulatorRef.current += Math.min(elapsed, MAX_FRAME_SECONDS);
 
-    const p = s.player;
-
-    // Update power-ups
-    s.powerUps = s.powerUps.filter(powerUp => {
-      powerUp.activeTime -= 1/60;
-      return powerUp.activeTime > 0;
-    });
-
-    // Update shield
-    if (p.hasShield) {
-      p.shieldTimer -= 1/60;
-      if (p.shieldTimer <= 0) {
-        p.hasShield = false;
-      }
+    while (accumulatorRef.current >= TICK_SECONDS && !s.player.isDead) {
+      previousRef.current = snapshot(s);
+      step(s, inputRef.current);
+      if (replayRef.current) recordInput(replayRef.current, inputRef.current);
+      accumulatorRef.current -= TICK_SECONDS;
     }
-
-    // Update invincibility
-    if (p.isInvincible) {
-      p.invincibleTimer -= 1/60;
-      if (p.invincibleTimer <= 0) {
-        p.isInvincible = false;
-      }
-    }
-
-    // Update jetpack
-    if (p.hasJetpack && p.jetpackFuel > 0) {
-      p.vy = Math.max(p.vy - 0.5, -20);
-      p.jetpackFuel -= 1/60;
-      if (p.jetpackFuel <= 0) {
-        p.hasJetpack = false;
-      }
-    }
-
-    // Update rocket boost
-    if (p.rocketBoost > 0) {
-      p.vy = -18;
-      p.rocketBoost -= 1/60;
-    }
-
-    // Horizontal movement with acceleration
-    if (p.isMovingLeft) p.vx = Math.max(p.vx - 0.8, -10);
-    else if (p.isMovingRight) p.vx = Math.min(p.vx + 0.8, 10);
-    else p.vx *= 0.85;
-
-    p.x += p.vx;
-
-    // Wrap around screen
-    if (p.x > s.W) p.x = -p.width;
-    if (p.x < -p.width) p.x = s.W;
-
-    // Vertical movement with gravity
-    p.y += p.vy;
-    p.vy += s.gravity * (p.hasJetpack ? 0.3 : 1);
-
-    // Update particles
-    s.particles = s.particles.filter(particle => {
-      particle.x += particle.vx;
-      particle.y += particle.vy;
-      particle.vy += 0.1;
-      particle.life -= 1/60;
-      return particle.life > 0;
-    });
-
-    // Draw particles
-    s.particles.forEach(particle => {
-      ctx.globalAlpha = particle.life / particle.maxLife;
-      ctx.fillStyle = particle.color;
-      ctx.beginPath();
-      ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
-      ctx.fill();
-    });
-    ctx.globalAlpha = 1;
-
-    // Scrolling with adjusted scoring
-    if (p.y < s.scrollThreshold) {
-      const scroll = s.scrollThreshold - p.y;
-      p.y = s.scrollThreshold;
-
-      for (const pl of s.platforms) {
-        pl.y += scroll;
-      }
-      for (const powerUp of s.powerUps) {
-        powerUp.y += scroll;
-      }
-      s.base.y += scroll;
-      
-      // Reduced scoring rate - 0.2 instead of 0.5
-      const pointsEarned = scroll * 0.2;
-      s.score += pointsEarned;
-      
-      // Update discount data
-      s.discountData = calculateDiscount(s.score, DISCOUNT_CONFIG);
-    }
-
-    // Draw platforms and check collisions
-    for (const pl of s.platforms) {
-      // Update disappearing platforms
-      if (pl.isDisappearing) {
-        pl.disappearTimer += 1/60;
-        if (pl.disappearTimer > 1) {
-          pl.y = -1000;
-          s.particles.push(...createParticles(pl.x + pl.width/2, pl.y, 8, '#FF6B6B'));
-          continue;
-        }
-      }
-
-      // Moving platforms
-      if (pl.vx) {
-        pl.x += pl.vx;
-        if (pl.x < 0 || pl.x + pl.width > s.W) pl.vx *= -1;
-      }
-
-      // Platform colors based on type
-      let platformColor;
-      switch(pl.type) {
-        case 1: platformColor = '#D9F7E8'; break;
-        case 2: platformColor = '#CDECF6'; break;
-        case 3: platformColor = '#FBE6C8'; break;
-        case 4: platformColor = '#FFCCCB'; break;
-        case 5: platformColor = '#E6E6FA'; break;
-        default: platformColor = '#D9F7E8';
-      }
-
-      ctx.fillStyle = platformColor;
-      if (pl.isDisappearing) {
-        ctx.globalAlpha = 1 - pl.disappearTimer;
-      }
-      ctx.fillRect(pl.x, pl.y, pl.width, pl.height);
-      ctx.globalAlpha = 1;
-
-      // Draw platform outline
-      ctx.strokeStyle = pl.type === 4 ? '#FF6B6B' : pl.type === 5 ? '#9370DB' : '#AAAAAA';
-      ctx.lineWidth = 1;
-      ctx.strokeRect(pl.x, pl.y, pl.width, pl.height);
-
-      // Draw power-up indicator
-      if (pl.hasPowerUp) {
-        ctx.fillStyle = '#FFD700';
-        ctx.beginPath();
-        ctx.arc(pl.x + pl.width/2, pl.y - 5, 4, 0, Math.PI * 2);
-        ctx.fill();
-      }
-
-      // Collision detection with enhanced physics
-      if (
-        p.vy > 0 &&
-        p.x < pl.x + pl.width &&
-        p.x + p.width > pl.x &&
-        p.y + p.height > pl.y &&
-        p.y + p.height < pl.y + pl.height + 10
-      ) {
-        // Platform-specific behavior
-        if (pl.type === 3) { // Bouncy
-          p.vy = -13; // Reduced from -16
-          s.score += 5; // Reduced from 15
-        } else if (pl.type === 4 && pl.isBreakable) { // Breakable
-          p.vy = -10; // Reduced from -12
-          pl.y = -1000;
-          s.particles.push(...createParticles(pl.x + pl.width/2, pl.y, 8, '#FF6B6B'));
-        } else if (pl.type === 5 && pl.isDisappearing) { // Disappearing
-          p.vy = -10;
-          pl.disappearTimer = 0.1;
-        } else {
-          p.vy = -10; // Reduced from -12
-        }
-        
-        // Reduced landing bonus
-        s.score += 3;
-        s.discountData = calculateDiscount(s.score, DISCOUNT_CONFIG);
-        
-        // Fewer particles
-        s.particles.push(...createParticles(p.x + p.width/2, p.y + p.height, 5, '#4ECDC4'));
-
-        // Chance to spawn power-up
-        if (pl.hasPowerUp && Math.random() > 0.7) {
-          const powerUpTypes: PowerUp['type'][] = ['jetpack', 'spring', 'rocket', 'shield'];
-          const type = powerUpTypes[Math.floor(Math.random() * powerUpTypes.length)];
-          
-          s.powerUps.push({
-            x: pl.x + pl.width/2 - 15,
-            y: pl.y - 30,
-            type,
-            width: 30,
-            height: 30,
-            activeTime: type === 'jetpack' ? 5 : type === 'shield' ? 10 : 0,
-            isActive: true
-          });
-          
-          pl.hasPowerUp = false;
-        }
-      }
-
-      // Recycle platforms with simpler generation
-      if (pl.y > s.H + 40) {
-        pl.x = Math.random() * (s.W - pl.width);
-        pl.y = -20 - Math.random() * 50;
-        
-        // Simple platform type distribution
-        const rand = Math.random();
-        if (rand > 0.85) {
-          pl.type = Math.random() > 0.5 ? 4 : 5; // Breakable or disappearing
-        } else if (rand > 0.7) {
-          pl.type = 3; // Bouncy
-        } else if (rand > 0.5) {
-          pl.type = 2; // Moving
-        } else {
-          pl.type = 1; // Normal
-        }
-          
-        pl.isBreakable = pl.type === 4 && Math.random() > 0.5;
-        pl.isDisappearing = pl.type === 5 && Math.random() > 0.5;
-        pl.disappearTimer = 0;
-        
-        pl.vx = pl.type === 2 && Math.random() > 0.6 ? 
-          (Math.random() > 0.5 ? 1 : -1) : 
-          0;
-          
-        pl.width = 50 + Math.random() * 30;
-        pl.hasPowerUp = Math.random() > 0.92;
-      }
-    }
-
-    // Draw power-ups
-    for (const powerUp of s.powerUps) {
-      let color;
-      switch(powerUp.type) {
-        case 'jetpack': color = '#FF6B6B'; break;
-        case 'spring': color = '#4ECDC4'; break;
-        case 'rocket': color = '#45B7D1'; break;
-        case 'shield': color = '#96CEB4'; break;
-      }
-      
-      ctx.fillStyle = color;
-      ctx.beginPath();
-      ctx.arc(powerUp.x + powerUp.width/2, powerUp.y + powerUp.height/2, 15, 0, Math.PI * 2);
-      ctx.fill();
-      
-      // Power-up collision
-      if (
-        p.x < powerUp.x + powerUp.width &&
-        p.x + p.width > powerUp.x &&
-        p.y < powerUp.y + powerUp.height &&
-        p.y + p.height > powerUp.y
-      ) {
-        switch(powerUp.type) {
-          case 'jetpack':
-            p.hasJetpack = true;
-            p.jetpackFuel = 3;
-            break;
-          case 'spring':
-            p.vy = -20; // Reduced from -25
-            break;
-          case 'rocket':
-            p.rocketBoost = 1;
-            break;
-          case 'shield':
-            p.hasShield = true;
-            p.shieldTimer = 10;
-            break;
-        }
-        powerUp.activeTime = -1;
-        s.score += 20; // Reduced from 50
-        s.discountData = calculateDiscount(s.score, DISCOUNT_CONFIG);
-        s.particles.push(...createParticles(powerUp.x + 15, powerUp.y + 15, 10, color));
-      }
-    }
-
-    // Draw player
-    if (spriteRef.current && spriteRef.current.complete) {
-      if (!p.isInvincible || Math.floor(s.time * 10) % 2 === 0) {
-        const scale = 1.0;
-        const scaledWidth = p.width * scale;
-        const scaledHeight = p.height * scale;
-        const offsetX = (p.width - scaledWidth) / 2;
-        const offsetY = (p.height - scaledHeight) / 2;
-        
-        ctx.drawImage(
-          spriteRef.current,
-          p.x + offsetX,
-          p.y + offsetY,
-          scaledWidth,
-          scaledHeight
-        );
-      }
-      
-      if (p.hasShield) {
-        ctx.strokeStyle = '#96CEB4';
-        ctx.lineWidth = 3;
-        ctx.beginPath();
-        ctx.arc(p.x + p.width/2, p.y + p.height/2, p.width/2 + 5, 0, Math.PI * 2);
-        ctx.stroke();
-      }
-    } else {
-      if (!p.isInvincible || Math.floor(s.time * 10) % 2 === 0) {
-        ctx.fillStyle = '#FFB88C';
-        ctx.fillRect(p.x, p.y, p.width, p.height);
-        
-        ctx.fillStyle = '#7A3E00';
-        ctx.fillRect(p.x + 10, p.y + 10, 8, 8);
-        ctx.fillRect(p.x + p.width - 18, p.y + 10, 8, 8);
-        ctx.fillRect(p.x + 20, p.y + 25, p.width - 40, 4);
-      }
-      
-      if (p.hasShield) {
-        ctx.strokeStyle = '#96CEB4';
-        ctx.lineWidth = 3;
-        ctx.beginPath();
-        ctx.arc(p.x + p.width/2, p.y + p.height/2, p.width/2 + 5, 0, Math.PI * 2);
-        ctx.stroke();
-      }
-    }
-
-    // Draw base
-    ctx.fillStyle = '#E6D8CF';
-    ctx.fillRect(s.base.x, s.base.y, s.base.width, s.base.height);
+    const alpha = s.player.isDead ? 1 : accumulatorRef.current / TICK_SECONDS;
+    drawGame(ctx, s, spriteRef.current, previousRef.current, alpha);
 
     // Draw score with shadow
     ctx.fillStyle = '#7A3E00';
     ctx.font = 'bold 18px sans-serif';
-    ctx.fillText(`Score: ${Math.floor(s.score)}`, 12, 24);
+    ctx.fillText(t('jump.score', { score: finalScore(s) }), 12, 24);
     
     // Draw high score
     ctx.fillStyle = '#E67A3C';
     ctx.font = '14px sans-serif';
-    ctx.fillText(`Best: ${s.highScore}`, 12, 44);
+    ctx.fillText(t('jump.best', { score: highScore }), 12, 44);
     
     // Draw current discount
-    if (discountInfo) {
+    if (discountInfo && discountInfo.expiresAt) {
       ctx.fillStyle = '#4CAF50';
       ctx.font = 'bold 14px sans-serif';
-      ctx.fillText(`Discount: ${discountInfo.totalDiscount}%`, s.W - 120, 24);
+      ctx.fillText(t('jump.discount', { percent: discountInfo.percent }), s.W - 120, 24);
       
       // Show expiration countdown
       const now = new Date();
-      const timeLeft = discountInfo.expirationDate.getTime() - now.getTime();
+      const timeLeft = new Date(discountInfo.expiresAt).getTime() - now.getTime();
       const daysLeft = Math.ceil(timeLeft / (1000 * 60 * 60 * 24));
       if (daysLeft > 0) {
         ctx.font = '12px sans-serif';
-        ctx.fillText(`${daysLeft}d left`, s.W - 120, 42);
+        ctx.fillText(t('jump.daysLeftShort', { days: daysLeft }), s.W - 120, 42);
       }
     }
 
-    // Check game over with shield protection
-    if (p.y > s.H + 60) {
-      if (p.hasShield) {
-        p.hasShield = false;
-        p.y = s.H - 100;
-        p.vy = -15;
-        p.isInvincible = true;
-        p.invincibleTimer = 2;
-      } else {
-        p.isDead = true;
-        setIsRunning(false);
-        setGameOver(true);
-        const finalScore = Math.floor(s.score);
-        setScore(finalScore);
-        
-        // Update high score
-        if (finalScore > s.highScore) {
-          s.highScore = finalScore;
-          setHighScore(s.highScore);
-          localStorage.setItem('giraffeJumpHighScore', s.highScore.toString());
-        }
-        
-        // Calculate and save final discount
-        (async () => {
-          const finalDiscount = await updateDiscount(finalScore, 'jump');
-          setDiscountInfo(finalDiscount);
-          
-          // Notify parent component
-          if (onDiscountEarned) {
-            onDiscountEarned(finalDiscount);
-          }
-        })();
-        
-        if (onGameOver) onGameOver(finalScore);
-        
-        if (animationRef.current) {
-          cancelAnimationFrame(animationRef.current);
-          animationRef.current = null;
-        }
-        return;
-      }
+    if (s.player.isDead) {
+      setIsRunning(false);
+      setGameOver(true);
+      const runScore = finalScore(s);
+      setScore(runScore);
+
+      creditRun(runScore, replayRef.current);
+
+      if (onGameOver) onGameOver(runScore);
+
+      animationRef.current = null;
+      return;
     }
 
     animationRef.current = requestAnimationFrame(gameLoop);
-  }, [onGameOver, onDiscountEarned, createParticles, discountInfo]);
+  }, [onGameOver, creditRun, discountInfo, highScore, t]);
+
+  const stopLoop = useCallback(() => {
+    if (animationRef.current) {
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    }
+  }, []);
 
   const startGame = useCallback(() => {
-    resetState();
+    stopLoop();
+    rankedRef.current = nextSeedRef.current !== null;
+    resetState(nextSeedRef.current ?? localSeed());
+    nextSeedRef.current = null;
     setIsRunning(true);
     setGameOver(false);
+    setPaused(false);
+    setCountdown(null);
     animationRef.current = requestAnimationFrame(gameLoop);
-  }, [resetState, gameLoop]);
+  }, [stopLoop, resetState, gameLoop]);
+
+  // Freezes the simulation where it is; also cancels a resume countdown in progress
+  const pauseGame = useCallback(() => {
+    if (!isRunning) return;
+    stopLoop();
+    inputRef.current = { ...NO_INPUT };
+    setPaused(true);
+    setCountdown(null);
+  }, [isRunning, stopLoop]);
+
+  const resumeGame = () => setCountdown(RESUME_COUNTDOWN);
+
+  // Resume countdown; the time spent paused is not fed to the engine
+  useEffect(() => {
+    if (countdown === null) return;
+    const timer = setTimeout(() => {
+      if (countdown > 1) {
+        setCountdown(countdown - 1);
+        return;
+      }
+      setCountdown(null);
+      setPaused(false);
+      lastFrameRef.current = null;
+      animationRef.current = requestAnimationFrame(gameLoop);
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [countdown, gameLoop]);
+
+  // Leaving the tab or the window pauses, so nobody dies while they are away
+  useEffect(() => {
+    if (!isRunning) return;
+    const onVisibilityChange = () => {
+      if (document.hidden) pauseGame();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('blur', pauseGame);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('blur', pauseGame);
+    };
+  }, [isRunning, pauseGame]);
 
   // Controls
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!stateRef.current) return;
-      if (e.key === 'ArrowLeft') stateRef.current.player.isMovingLeft = true;
-      if (e.key === 'ArrowRight') stateRef.current.player.isMovingRight = true;
+      if (e.key === 'ArrowLeft') inputRef.current.left = true;
+      if (e.key === 'ArrowRight') inputRef.current.right = true;
       if (e.key === ' ' && !isRunning) startGame();
-      if (e.key === ' ' && isRunning && stateRef.current.player.hasJetpack) {
-        stateRef.current.player.hasJetpack = true;
+      if ((e.key === 'Escape' || e.key === 'p' || e.key === 'P') && isRunning) {
+        if (!paused || countdown !== null) pauseGame();
+        else resumeGame();
       }
     };
     
     const handleKeyUp = (e: KeyboardEvent) => {
-      if (!stateRef.current) return;
-      if (e.key === 'ArrowLeft') stateRef.current.player.isMovingLeft = false;
-      if (e.key === 'ArrowRight') stateRef.current.player.isMovingRight = false;
+      if (e.key === 'ArrowLeft') inputRef.current.left = false;
+      if (e.key === 'ArrowRight') inputRef.current.right = false;
     };
     
     window.addEventListener('keydown', handleKeyDown);
@@ -889,28 +484,19 @@ function FullScreenDoodleJump({
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [isRunning, startGame]);
+  }, [isRunning, paused, countdown, startGame, pauseGame]);
 
   const handlePointerStart = (direction: 'left' | 'right') => {
-    if (!stateRef.current) return;
-    if (direction === 'left') {
-      stateRef.current.player.isMovingLeft = true;
-      stateRef.current.player.isMovingRight = false;
-    } else {
-      stateRef.current.player.isMovingRight = true;
-      stateRef.current.player.isMovingLeft = false;
-    }
+    inputRef.current = { left: direction === 'left', right: direction === 'right' };
   };
 
   const handlePointerEnd = () => {
-    if (!stateRef.current) return;
-    stateRef.current.player.isMovingLeft = false;
-    stateRef.current.player.isMovingRight = false;
+    inputRef.current = { ...NO_INPUT };
   };
 
   // Initialize
   useEffect(() => {
-    resetState();
+    resetState(localSeed());
   }, [resetState]);
 
   const onCanvasClickStart = () => {
@@ -935,7 +521,7 @@ function FullScreenDoodleJump({
               gap: '6px'
             }}
           >
-            <span>←</span> Back
+            <span>←</span> {t('common.back')}
           </button>
         )}
 
@@ -951,10 +537,27 @@ function FullScreenDoodleJump({
             gap: '8px'
           }}>
             <span style={{ color: '#E67A3C' }}>★</span>
-            Score: {Math.floor(score)}
+            {t('jump.score', { score: Math.floor(score) })}
           </div>
+
+          {isRunning && !paused && (
+            <button
+              onClick={pauseGame}
+              title={t('jump.pauseHint')}
+              style={{
+                padding: '8px 14px',
+                borderRadius: 20,
+                background: '#FFF1E6',
+                border: '1px solid rgba(230,122,60,0.16)',
+                fontWeight: 700,
+                cursor: 'pointer'
+              }}
+            >
+              ❚❚ {t('jump.pause')}
+            </button>
+          )}
           
-          {discountInfo && (
+          {discountInfo && discountInfo.percent > 0 && (
             <div style={{ 
               padding: '8px 14px', 
               borderRadius: 20, 
@@ -966,7 +569,7 @@ function FullScreenDoodleJump({
               gap: '8px'
             }}>
               <span style={{ color: '#4CAF50' }}>🎁</span>
-              Discount: {discountInfo.totalDiscount}%
+              {t('jump.discount', { percent: discountInfo.percent })}
             </div>
           )}
         </div>
@@ -1008,15 +611,23 @@ function FullScreenDoodleJump({
                 textAlign: 'center', 
                 color: gameOver ? '#fff' : '#7A3E00', 
                 boxShadow: '0 12px 40px rgba(0,0,0,0.15)',
-                transform: 'translateY(-20px)'
+                transform: 'translateY(-20px)',
+                maxHeight: 'calc(100% - 40px)',
+                overflowY: 'auto'
               }}>
                 {gameOver ? (
                   <>
-                    <h2 style={{ margin: 0, fontSize: 30, color: '#FF9C8A' }}>Game Over!</h2>
-                    <p style={{ marginTop: 12, fontSize: 16 }}>Your score</p>
+                    <h2 style={{ margin: 0, fontSize: 30, color: '#FF9C8A' }}>{t('jump.gameOver')}</h2>
+                    <p style={{ marginTop: 12, fontSize: 16 }}>{t('jump.yourScore')}</p>
                     <p style={{ fontSize: 48, margin: '12px 0 30px 0', color: '#FFD6B0', fontWeight: 'bold' }}>{Math.floor(score)}</p>
+
+                    {creditMessage && (
+                      <p style={{ margin: '-18px 0 20px 0', fontSize: 14, opacity: 0.85 }} aria-live="polite">
+                        {creditMessage}
+                      </p>
+                    )}
                     
-                    {discountInfo && discountInfo.totalDiscount > 0 && (
+                    {discountInfo && discountInfo.percent > 0 && (
                       <div style={{
                         background: 'rgba(76, 175, 80, 0.1)',
                         padding: '15px',
@@ -1025,21 +636,21 @@ function FullScreenDoodleJump({
                         border: '2px solid rgba(76, 175, 80, 0.3)'
                       }}>
                         <h3 style={{ margin: '0 0 10px 0', color: '#4CAF50' }}>
-                          🎉 Total Discount!
+                          {t('jump.totalDiscount')}
                         </h3>
                         <p style={{ margin: '5px 0', fontSize: '20px' }}>
-                          <strong>{discountInfo.totalDiscount}% OFF</strong>
+                          <strong>{t('jump.off', { percent: discountInfo.percent })}</strong>
                         </p>
                         <p style={{ margin: '5px 0', fontSize: '14px', opacity: 0.9 }}>
-                          Valid until: {discountInfo.expirationDate.toLocaleDateString()}
+                          {t('jump.validUntil', { date: new Date(discountInfo.expiresAt!).toLocaleDateString(lang) })}
                         </p>
                         <p style={{ margin: '5px 0', fontSize: '12px', opacity: 0.7 }}>
-                          ({DISCOUNT_CONFIG.pointsPerPercent} points per 1%)
+                          {t('jump.pointsPer', { per: WALLET_CONFIG.pointsPerPercent })}
                         </p>
                       </div>
                     )}
                     
-                    {score > highScore && (
+                    {newBest && (
                       <div style={{
                         background: 'rgba(255, 193, 7, 0.1)',
                         padding: '10px',
@@ -1048,11 +659,15 @@ function FullScreenDoodleJump({
                         border: '2px solid rgba(255, 193, 7, 0.3)'
                       }}>
                         <p style={{ margin: 0, color: '#FFC107' }}>
-                          🏆 <strong>NEW HIGH SCORE!</strong>
+                          🏆 <strong>{t('jump.newHighScore')}</strong>
                         </p>
                       </div>
                     )}
                     
+                    <div style={{ marginBottom: 20 }}>
+                      <JumpLeaderboard refreshKey={boardVersion} dark />
+                    </div>
+
                     <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
                       <button 
                         onClick={startGame} 
@@ -1062,7 +677,7 @@ function FullScreenDoodleJump({
                           padding: '16px 24px'
                         }}
                       >
-                        Play Again
+                        {t('jump.playAgain')}
                       </button>
                       <button 
                         onClick={onExit} 
@@ -1074,18 +689,18 @@ function FullScreenDoodleJump({
                           border: '1px solid rgba(255,255,255,0.3)'
                         }}
                       >
-                        Back to Menu
+                        {t('jump.backToMenu')}
                       </button>
                     </div>
                   </>
                 ) : (
                   <>
-                    <h2 style={{ margin: '0 0 16px 0', fontSize: 32, color: '#E67A3C' }}>Giraffe Jump</h2>
+                    <h2 style={{ margin: '0 0 16px 0', fontSize: 32, color: '#E67A3C' }}>{t('jump.title')}</h2>
                     <p style={{ margin: '0 0 8px 0', color: '#6b6b6b', fontSize: 16 }}>
-                      Earn {DISCOUNT_CONFIG.pointsPerPercent} points for 1% discount!
+                      {t('jump.earnRate', { per: WALLET_CONFIG.pointsPerPercent })}
                     </p>
                     
-                    {discountInfo && discountInfo.totalDiscount > 0 && (
+                    {discountInfo && discountInfo.percent > 0 && (
                       <div style={{
                         background: '#E8F5E9',
                         padding: '15px',
@@ -1094,11 +709,11 @@ function FullScreenDoodleJump({
                         border: '2px solid rgba(76,175,80,0.3)'
                       }}>
                         <p style={{ margin: '0 0 5px 0', fontSize: '18px', fontWeight: 'bold', color: '#2E7D32' }}>
-                          Current Discount: {discountInfo.totalDiscount}%
+                          {t('jump.currentDiscount', { percent: discountInfo.percent })}
                         </p>
                         <p style={{ margin: '0', fontSize: '13px', color: '#388E3C' }}>
-                          Expires: {discountInfo.expirationDate.toLocaleDateString()}
-                          {discountInfo.totalDiscount >= 100 ? ' (Max reached!)' : ''}
+                          {t('jump.expires', { date: new Date(discountInfo.expiresAt!).toLocaleDateString(lang) })}
+                          {discountInfo.percent >= WALLET_CONFIG.maxPercent ? t('jump.maxReached') : ''}
                         </p>
                       </div>
                     )}
@@ -1111,7 +726,7 @@ function FullScreenDoodleJump({
                       border: '1px solid rgba(230,122,60,0.1)'
                     }}>
                       <p style={{ margin: '0 0 10px 0', fontWeight: 'bold', color: '#7A3E00' }}>
-                        Game Features:
+                        {t('jump.features')}
                       </p>
                       <ul style={{
                         margin: 0,
@@ -1121,14 +736,14 @@ function FullScreenDoodleJump({
                         color: '#7A3E00',
                         lineHeight: '1.6'
                       }}>
-                        <li>Jump on platforms to climb higher</li>
-                        <li>Different platform types with special effects</li>
-                        <li>Collect power-ups for bonuses</li>
-                        <li>Higher score = more discount!</li>
+                        <li>{t('jump.feature1')}</li>
+                        <li>{t('jump.feature2')}</li>
+                        <li>{t('jump.feature3')}</li>
+                        <li>{t('jump.feature4')}</li>
                       </ul>
                     </div>
                     <p style={{ margin: '0 0 24px 0', color: '#A19A95', fontSize: 14 }}>
-                      {isMobile ? 'Touch left/right sides to move' : 'Use arrow keys to move'}
+                      {isMobile ? t('jump.touchHint') : t('jump.keysHint')}
                     </p>
                     <div style={{ display: 'flex', justifyContent: 'center' }}>
                       <button 
@@ -1141,7 +756,7 @@ function FullScreenDoodleJump({
                           fontWeight: 'bold'
                         }}
                       >
-                        Start Game
+                        {t('games.start')}
                       </button>
                     </div>
                   </>
@@ -1180,6 +795,66 @@ function FullScreenDoodleJump({
               />
             </>
           )}
+
+          {paused && (
+            <div style={{
+              position: 'absolute',
+              inset: 0,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              background: 'rgba(0,0,0,0.35)',
+              padding: 20
+            }}>
+              {countdown !== null ? (
+                <p style={{ margin: 0, fontSize: 96, fontWeight: 'bold', color: '#fff' }} aria-live="assertive">
+                  {countdown}
+                </p>
+              ) : (
+                <div style={{
+                  width: Math.min(window.innerWidth - 48, 360),
+                  background: 'rgba(0,0,0,0.72)',
+                  padding: '30px 26px',
+                  borderRadius: 16,
+                  textAlign: 'center',
+                  color: '#fff',
+                  boxShadow: '0 12px 40px rgba(0,0,0,0.15)'
+                }}>
+                  <h2 style={{ margin: '0 0 8px 0', fontSize: 30, color: '#FFD6B0' }}>{t('jump.paused')}</h2>
+                  <p style={{ margin: '0 0 24px 0', fontSize: 14, opacity: 0.8 }}>{t('jump.pauseHint')}</p>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+                    <button onClick={resumeGame} style={{ ...ctaStyle, padding: '16px 24px' }}>
+                      {t('jump.resume')}
+                    </button>
+                    <button
+                      onClick={startGame}
+                      style={{
+                        ...ctaStyle,
+                        background: 'rgba(255,255,255,0.2)',
+                        color: '#fff',
+                        padding: '16px 24px',
+                        border: '1px solid rgba(255,255,255,0.3)'
+                      }}
+                    >
+                      {t('jump.restart')}
+                    </button>
+                    <button
+                      onClick={onExit}
+                      style={{
+                        ...ctaStyle,
+                        background: 'rgba(255,255,255,0.2)',
+                        color: '#fff',
+                        padding: '16px 24px',
+                        border: '1px solid rgba(255,255,255,0.3)'
+                      }}
+                    >
+                      {t('jump.backToMenu')}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1187,31 +862,72 @@ function FullScreenDoodleJump({
 }
 
 // ---------------- GuessTheWord Component (with discount integration) ----------------
-function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps) {
+// Loads today's riddle from the API, then hands it to the game itself.
+function GuessTheWord(props: GuessTheWordProps) {
+  const { lang } = useLanguage();
+  const { apiUser } = useAuth();
+  // attemptsLeft is the signed-in player's, so each account loads its own copy
+  const { data: riddle, loading, error, reload } = useApiQuery(
+    `riddle:${lang}:${apiUser?.username ?? ""}`,
+    (signal) => getDailyRiddle(lang, { signal }),
+  );
+
+  if (!riddle) {
+    return (
+      <div style={{
+        position: 'fixed',
+        inset: 0,
+        background: '#FFF7EE',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10000,
+      }}>
+        <LoadState loading={loading} error={error} isEmpty emptyText="" onRetry={reload}>
+          {null}
+        </LoadState>
+      </div>
+    );
+  }
+
+  return <GuessTheWordGame key={`${riddle.date}:${lang}`} riddle={riddle} {...props} />;
+}
+
+function GuessTheWordGame({ riddle, onExit, onGuess, onDiscountEarned }: GuessTheWordGameProps) {
   const [inputValue, setInputValue] = useState("");
   const [message, setMessage] = useState("");
   const [messageType, setMessageType] = useState<"info" | "success" | "error" | "warning">("info");
-  const [gameState, setGameState] = useState<GuessGameState>({
-    ...MOCK_GAME_DATA,
-    attemptsRemaining: MOCK_GAME_DATA.maxAttempts,
+  const [gameState, setGameState] = useState<GuessGameState>(() => ({
+    question: riddle.question,
+    wordLength: riddle.answerLength,
+    revealedAnswer: null,
+    maxAttempts: riddle.maxAttempts,
+    attemptsRemaining: riddle.attemptsLeft,
+    hasBeenGuessedToday: riddle.solvedToday,
+    firstGuesser: null,
+    discountAmount: riddle.discountPercent,
     userAttempts: [],
-    gameDate: new Date().toDateString(),
-  });
+    gameDate: riddle.date,
+  }));
   const [hasGuessedCorrectly, setHasGuessedCorrectly] = useState(false);
   const [hasAlreadyPlayedToday, setHasAlreadyPlayedToday] = useState(false);
-  const [discountEarned, setDiscountEarned] = useState<DiscountData | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [discountEarned, setDiscountEarned] = useState<LoyaltyWallet | null>(null);
+  const { apiUser, applyWallet } = useAuth();
+  const username = apiUser?.username ?? "";
+  const { lang, t } = useLanguage();
 
   useEffect(() => {
-    const hasPlayedToday = localStorage.getItem(`guessGamePlayed_${gameState.gameDate}`);
+    const hasPlayedToday = hasPlayedRiddle(username, gameState.gameDate) || riddle.attemptsLeft <= 0;
     if (hasPlayedToday) {
       setHasAlreadyPlayedToday(true);
-      setMessage("You've already played today. Come back tomorrow!");
+      setMessage(t("guess.alreadyPlayed"));
       setMessageType("info");
     } else {
       setMessage("");
       setMessageType("info");
     }
-  }, [gameState.gameDate]);
+  }, [gameState.gameDate, username, riddle.attemptsLeft, t]);
 
   useEffect(() => {
     const preventZoom = (e: Event) => {
@@ -1225,105 +941,94 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
     };
   }, []);
 
-  const calculateGuessDiscount = async (isFirst: boolean): Promise<DiscountData> => {
-    if (!isFirst) {
-      const existing = await loadDiscount();
-      if (existing) return existing;
-      
-      return {
-        pointsEarned: 0,
-        discountPercent: 0,
-        totalDiscount: 0,
-        expirationDate: new Date()
-      };
-    }
-    
-    return await updateDiscount(0, 'guess');
-  };
-
   const handleGuess = () => {
     const guess = inputValue.trim().toUpperCase();
     
     if (!guess) {
-      setMessage("Please enter a guess!");
+      setMessage(t("guess.enterGuess"));
       setMessageType("error");
       return;
     }
 
     if (guess.length !== gameState.wordLength) {
-      setMessage(`Please enter a ${gameState.wordLength}-letter word!`);
+      setMessage(t("guess.wrongLength", { n: gameState.wordLength }));
       setMessageType("error");
       return;
     }
 
     if (hasGuessedCorrectly) {
-      setMessage("You've already guessed correctly today!");
+      setMessage(t("guess.alreadyCorrect"));
       setMessageType("info");
       return;
     }
 
     if (gameState.attemptsRemaining <= 0) {
-      setMessage("No attempts remaining. Try again tomorrow!");
+      setMessage(t("guess.noAttempts"));
       setMessageType("error");
       return;
     }
 
-    const newAttempts = [...gameState.userAttempts, guess];
-    const newAttemptsRemaining = gameState.attemptsRemaining - 1;
+    if (!username) {
+      setMessage(t("guess.signIn"));
+      setMessageType("info");
+      return;
+    }
 
-    if (guess === gameState.correctAnswer) {
-      setHasGuessedCorrectly(true);
-      const isFirstCorrect = !gameState.hasBeenGuessedToday;
-      
-      localStorage.setItem(`guessGamePlayed_${gameState.gameDate}`, "true");
-      
-      (async () => {
-        const discountData = await calculateGuessDiscount(isFirstCorrect);
-        setDiscountEarned(discountData);
-        
-        if (onDiscountEarned) {
-          onDiscountEarned(discountData);
-        }
-      })();
-      
+    if (checking) return;
+
+    // the server checks the guess, counts the attempt and decides who was first;
+    // only the first correct guess of the day earns the bonus, added to the wallet there
+    setChecking(true);
+    solveRiddle(gameState.gameDate, guess, lang).then(({ correct, first, attemptsLeft, answer, wallet }) => {
       setGameState(prev => ({
         ...prev,
-        hasBeenGuessedToday: true,
-        firstGuesser: isFirstCorrect ? "You" : prev.firstGuesser,
-        userAttempts: newAttempts,
-        attemptsRemaining: newAttemptsRemaining,
+        userAttempts: [...prev.userAttempts, guess],
+        attemptsRemaining: attemptsLeft,
+        revealedAnswer: answer?.toUpperCase() ?? prev.revealedAnswer,
+        hasBeenGuessedToday: prev.hasBeenGuessedToday || correct,
+        firstGuesser: first ? "You" : prev.firstGuesser,
       }));
 
-      if (isFirstCorrect) {
-        setMessage(`CONGRATULATIONS! You're the first to guess today! You win ${gameState.discountAmount}% discount!`);
-      } else {
-        setMessage("Correct! But someone else guessed first today. Try again tomorrow!");
-      }
-      setMessageType("success");
+      if (correct) {
+        setHasGuessedCorrectly(true);
+        markRiddlePlayed(username, gameState.gameDate);
+        applyWallet(wallet);
 
-      if (onGuess) {
-        onGuess(true, isFirstCorrect);
-      }
-    } else {
-      setGameState(prev => ({
-        ...prev,
-        userAttempts: newAttempts,
-        attemptsRemaining: newAttemptsRemaining,
-      }));
+        if (first) {
+          setDiscountEarned(wallet);
 
-      if (newAttemptsRemaining > 0) {
-        setMessage(`Incorrect! ${newAttemptsRemaining} attempt(s) remaining.`);
+          if (onDiscountEarned) {
+            onDiscountEarned(wallet);
+          }
+          setMessage(t("guess.firstWin", { percent: gameState.discountAmount }));
+        } else {
+          setMessage(t("guess.notFirst"));
+        }
+        setMessageType("success");
+      } else if (attemptsLeft > 0) {
+        setMessage(t("guess.incorrect", { n: attemptsLeft }));
         setMessageType("warning");
       } else {
-        setMessage(`Game over! The word was: ${gameState.correctAnswer}. Try again tomorrow!`);
+        setMessage(t("guess.lost", { word: answer?.toUpperCase() ?? "" }));
         setMessageType("error");
-        localStorage.setItem(`guessGamePlayed_${gameState.gameDate}`, "true");
+        markRiddlePlayed(username, gameState.gameDate);
       }
 
       if (onGuess) {
-        onGuess(false, false);
+        onGuess(correct, first);
       }
-    }
+    }, (error) => {
+      const apiError = toApiError(error);
+      if (apiError.code === "riddle_played") {
+        markRiddlePlayed(username, gameState.gameDate);
+        setHasAlreadyPlayedToday(true);
+        setMessage(t("guess.alreadyPlayed"));
+        setMessageType("info");
+        return;
+      }
+      setMessage(t(`status.error.${apiError.kind}`));
+      setMessageType("error");
+    }).finally(() => setChecking(false));
 
     setInputValue("");
   };
@@ -1367,7 +1072,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
           }}
         >
           <span style={{ fontSize: "20px" }}>←</span>
-          Back to Games
+          {t("guess.backToGames")}
         </button>
 
         <div style={{
@@ -1386,7 +1091,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
             fontSize: "36px",
             fontWeight: "700",
           }}>
-            Guess the Word
+            {t("guess.title")}
           </h1>
           
           <div style={{
@@ -1403,7 +1108,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
               fontWeight: "500",
               lineHeight: "1.5",
             }}>
-              You've already played today. Come back tomorrow for a new word!
+              {t("guess.alreadyPlayedLong")}
             </p>
           </div>
 
@@ -1421,7 +1126,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
               transition: "all 0.2s ease",
             }}
           >
-            Back to Games
+            {t("guess.backToGames")}
           </button>
         </div>
       </div>
@@ -1471,7 +1176,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
           }}
         >
           <span style={{ fontSize: "20px" }}>←</span>
-          Back
+          {t("common.back")}
         </button>
 
         <div style={{
@@ -1483,7 +1188,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
           fontWeight: 600,
           textAlign: "center",
         }}>
-          Attempts: <span style={{ 
+          {t("guess.attempts")} <span style={{ 
             color: gameState.attemptsRemaining > 1 ? "#4CAF50" : "#FF5722",
             fontWeight: "bold"
           }}>
@@ -1511,14 +1216,14 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
             fontSize: "36px",
             fontWeight: "700",
           }}>
-            Guess the Word
+            {t("guess.title")}
           </h1>
           <p style={{
             margin: "0",
             color: "#6b6b6b",
             fontSize: "18px",
           }}>
-            Daily word puzzle • Win discounts!
+            {t("guess.subtitle")}
           </p>
           
           <div style={{
@@ -1535,7 +1240,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
               fontSize: "14px",
               fontWeight: "600",
             }}>
-              🎯 First guess: {gameState.discountAmount}% discount • Valid for {DISCOUNT_CONFIG.discountValidityDays} days
+              {t("guess.firstBonus", { percent: gameState.discountAmount, days: WALLET_CONFIG.validityDays })}
             </p>
           </div>
         </div>
@@ -1552,7 +1257,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
             fontSize: "20px",
             fontWeight: "600",
           }}>
-            Today's Riddle:
+            {t("guess.riddle")}
           </h3>
           <p style={{
             margin: "0",
@@ -1575,7 +1280,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
               fontSize: "16px",
               fontWeight: "600",
             }}>
-              Word length: {gameState.wordLength} letters
+              {t("guess.wordLength", { n: gameState.wordLength })}
             </p>
             <div style={{
               display: "flex",
@@ -1595,12 +1300,12 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
                   justifyContent: "center",
                   fontSize: "clamp(14px, 4vw, 18px)",
                   fontWeight: "bold",
-                  color: hasGuessedCorrectly && index < gameState.correctAnswer.length 
+                  color: hasGuessedCorrectly && index < (gameState.revealedAnswer?.length ?? 0) 
                     ? "#4CAF50" 
                     : "#666",
                   flexShrink: 0,
                 }}>
-                  {hasGuessedCorrectly ? gameState.correctAnswer[index] : "_"}
+                  {hasGuessedCorrectly ? gameState.revealedAnswer?.[index] ?? "_" : "_"}
                 </div>
               ))}
             </div>
@@ -1622,7 +1327,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
               fontSize: "20px",
               fontWeight: "bold",
             }}>
-              🎉 DISCOUNT EARNED! 🎉
+              {t("guess.earned")}
             </h3>
             <p style={{
               margin: "0 0 8px 0",
@@ -1630,14 +1335,14 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
               fontSize: "18px",
               fontWeight: "600",
             }}>
-              {discountEarned.totalDiscount}% OFF your next order!
+              {t("guess.offNext", { percent: discountEarned.percent })}
             </p>
             <p style={{
               margin: "0",
               color: "#388E3C",
               fontSize: "14px",
             }}>
-              Valid until: {discountEarned.expirationDate.toLocaleDateString()}
+              {t("guess.validUntil", { date: new Date(discountEarned.expiresAt!).toLocaleDateString(lang) })}
             </p>
           </div>
         )}
@@ -1655,7 +1360,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
               fontSize: "18px",
               fontWeight: "600",
             }}>
-              Your Guess ({gameState.wordLength} letters):
+              {t("guess.yourGuess", { n: gameState.wordLength })}
             </label>
             <div style={{
               display: "flex",
@@ -1692,7 +1397,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
                   appearance: "none",
                   minHeight: "60px",
                 }}
-                placeholder="TYPE HERE"
+                placeholder={t("guess.placeholder")}
                 inputMode="text"
                 autoCapitalize="characters"
                 autoComplete="off"
@@ -1701,7 +1406,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
               />
               <button
                 onClick={handleGuess}
-                disabled={hasGuessedCorrectly || gameState.attemptsRemaining <= 0 || !inputValue.trim()}
+                disabled={hasGuessedCorrectly || gameState.attemptsRemaining <= 0 || checking || !inputValue.trim()}
                 style={{
                   padding: "clamp(16px, 4vw, 20px) clamp(24px, 6vw, 36px)",
                   background: hasGuessedCorrectly || gameState.attemptsRemaining <= 0 
@@ -1723,7 +1428,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
                   touchAction: "manipulation",
                 }}
               >
-                {hasGuessedCorrectly ? "GUESSED!" : "GUESS"}
+                {hasGuessedCorrectly ? t("guess.guessed") : t("guess.submit")}
               </button>
             </div>
           </div>
@@ -1766,7 +1471,7 @@ function GuessTheWord({ onExit, onGuess, onDiscountEarned }: GuessTheWordProps)
 }
 
 // ---------------- Card Component ----------------
-function Card({ onClick, title, subtitle, hint, buttonText }: any) {
+function Card({ onClick, title, subtitle, hint, buttonText, icon, children }: any) {
   const [isHovered, setIsHovered] = useState(false);
 
   return (
@@ -1807,13 +1512,16 @@ function Card({ onClick, title, subtitle, hint, buttonText }: any) {
           transition: "all 0.3s ease"
         }}>
           <span style={{ fontSize: 32 }}>
-            {title.includes("Guess") ? "🧩" : "🦒"}
+            {icon}
           </span>
         </div>
       </div>
 
       {hint && <p style={{ margin: "8px 0 0 0", color: "#A19A95", fontSize: "13px" }}>{hint}</p>}
 
+      {/* extra content is interactive on its own and must not start the game */}
+      {children && <div onClick={(e) => e.stopPropagation()} style={{ cursor: "default" }}>{children}</div>}
+
       <div style={{ display: "flex", justifyContent: "center", marginTop: 16 }}>
         <button 
           onClick={onClick} 
@@ -1847,11 +1555,12 @@ export default function GamesPage({
   const navigate = useNavigate();
   const [showGame, setShowGame] = useState(false);
   const [showGuess, setShowGuess] = useState(false);
+  const { t } = useLanguage();
 
-  const handleDiscountEarned = (discountData: DiscountData) => {
-    console.log('Discount earned:', discountData);
+  const handleDiscountEarned = (wallet: LoyaltyWallet) => {
+    console.log('Discount earned:', wallet);
     if (onDiscountEarned) {
-      onDiscountEarned(discountData);
+      onDiscountEarned(wallet);
     }
   };
 
@@ -1918,7 +1627,7 @@ export default function GamesPage({
           }}
         >
           <span style={{ fontSize: "18px" }}>←</span>
-          Back
+          {t("common.back")}
         </button>
       </div>
 
@@ -1928,7 +1637,7 @@ export default function GamesPage({
         fontSize: "28px",
         textAlign: "center"
       }}>
-        Choose Your Game
+        {t("games.choose")}
       </h1>
       <p style={{
         margin: "0 0 20px 0",
@@ -1936,7 +1645,7 @@ export default function GamesPage({
         textAlign: "center",
         maxWidth: 500
       }}>
-        Play games to earn discounts on our menu!
+        {t("games.intro")}
       </p>
 
       <div style={{
@@ -1955,7 +1664,7 @@ export default function GamesPage({
           fontWeight: "600",
           textAlign: "center",
         }}>
-          How Discounts Work
+          {t("games.howItWorks")}
         </h3>
         <div style={{
           display: "flex",
@@ -1966,12 +1675,12 @@ export default function GamesPage({
           color: "#388E3C",
         }}>
           <div style={{ textAlign: "center" }}>
-            <div style={{ fontWeight: "bold" }}>Giraffe Jump</div>
-            <div>{DISCOUNT_CONFIG.pointsPerPercent} points = 1% discount</div>
+            <div style={{ fontWeight: "bold" }}>{t("jump.title")}</div>
+            <div>{t("games.pointsRate", { per: WALLET_CONFIG.pointsPerPercent })}</div>
           </div>
           <div style={{ textAlign: "center" }}>
-            <div style={{ fontWeight: "bold" }}>Guess the Word</div>
-            <div>First guess: 5% discount</div>
+            <div style={{ fontWeight: "bold" }}>{t("guess.title")}</div>
+            <div>{t("games.firstGuess", { percent: WALLET_CONFIG.guessPercent })}</div>
           </div>
         </div>
       </div>
@@ -1979,17 +1688,21 @@ export default function GamesPage({
       <div style={{ width: "100%", maxWidth: 520, display: "grid", gap: 20 }}>
         <Card 
           onClick={() => setShowGame(true)} 
-          title="Giraffe Jump" 
-          subtitle={`Earn ${DISCOUNT_CONFIG.pointsPerPercent} points for 1% discount`} 
-          buttonText="Start Game" 
-        />
+          title={t("jump.title")}
+          subtitle={t("games.earnSubtitle", { per: WALLET_CONFIG.pointsPerPercent })}
+          buttonText={t("games.start")}
+          icon="🦒"
+        >
+          <JumpLeaderboard />
+        </Card>
 
         <Card 
           onClick={() => setShowGuess(true)} 
-          title="Guess the Word" 
-          subtitle="First guesser gets 5% off" 
-          hint="Play daily to win" 
-          buttonText="Start Game" 
+          title={t("guess.title")}
+          subtitle={t("games.guessSubtitle", { percent: WALLET_CONFIG.guessPercent })}
+          hint={t("games.guessHint")}
+          buttonText={t("games.start")}
+          icon="🧩"
         />
       </div>
     </div>
@@ -0,0 +1,80 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import Navbar from "../components/navbar";
+import AuthField from "../components/AuthField";
+import { useAuth } from "../context/AuthContext";
+import { useLanguage } from "../context/LanguageContext";
+import { ROUTES } from "../routes";
+import { AUTH_ERROR_KEYS, validateEmail, type FieldError } from "../utils/authValidation";
+
+export default function ForgotPasswordPage() {
+  const { requestPasswordReset } = useAuth();
+  const { t } = useLanguage();
+
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<FieldError | null>(null);
+  const [pending, setPending] = useState(false);
+  const [sent, setSent] = useState<{ email: string; resetToken?: string } | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pending) return;
+
+    const invalid = validateEmail(email);
+    setError(invalid);
+    if (invalid) return;
+
+    setPending(true);
+    const result = await requestPasswordReset(email.trim());
+    setPending(false);
+
+    if (result.ok) setSent({ email: email.trim(), resetToken: result.resetToken });
+    else setError({ key: AUTH_ERROR_KEYS[result.code ?? "unavailable"] });
+  };
+
+  return (
+    <div className="auth-page">
+      <Navbar showLogo={false} showSignIn={false} hideHamburger={true} />
+
+      <div className="auth-content">
+        <form className="auth-form" onSubmit={handleSubmit} noValidate aria-busy={pending}>
+          <h2>{t("forgot.title")}</h2>
+
+          {sent ? (
+            <>
+              <p className="account-success" role="status">{t("forgot.sent", { email: sent.email })}</p>
+              {/* dev backends hand the token back instead of emailing it */}
+              {sent.resetToken && (
+                <Link to={`${ROUTES.resetPassword}?token=${encodeURIComponent(sent.resetToken)}`}>
+                  {t("forgot.devLink")}
+                </Link>
+              )}
+            </>
+          ) : (
+            <>
+              <p className="auth-hint">{t("forgot.intro")}</p>
+              <AuthField
+                id="forgot-email"
+                type="email"
+                autoComplete="email"
+                placeholder={t("auth.email")}
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                error={error && t(error.key, error.params)}
+                disabled={pending}
+              />
+              <button type="submit" className="auth-btn" disabled={pending}>
+                {pending && <span className="auth-spinner" aria-hidden="true" />}
+                {pending ? t("auth.pending") : t("forgot.submit")}
+              </button>
+            </>
+          )}
+
+          <p className="auth-link">
+            <Link to={ROUTES.login}>{t("forgot.backToLogin")}</Link>
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+// src/pages/FullMenuPage.tsx
+// Every category on one long page. Sections far from the viewport render as
+// fixed-height placeholders, so only a screenful or two of cards is ever mounted.
+import { useCallback, useEffect, useRef, useState, type JSX } from "react";
+import Navbar from "../components/navbar.tsx";
+import HorizontalCategoryNav from "../components/HorizontalCategoryNav.tsx";
+import ItemCard from "../components/ItemCard.tsx";
+import ItemModal from "../components/ItemModal.tsx";
+import LoadState from "../components/LoadState.tsx";
+import type { Category, Item } from "../types.ts";
+import { getCategories, getItems } from "../api";
+import { CATALOG_CACHE_MS, useApiQuery } from "../api/useApiQuery";
+import { useLanguage } from "../context/LanguageContext";
+import { localizedName } from "../i18n";
+import "../App.css";
+
+// Height used for a section that has never been on screen
+const ESTIMATED_SECTION_PX = 640;
+// Sections within this distance of the viewport are mounted for real
+const RENDER_MARGIN = "100% 0px";
+// A section counts as current a little before its title fully tucks under the nav
+const SPY_SLACK_PX = 24;
+
+const sectionId = (id: Category["id"]) => `menu-section-${id}`;
+
+const prefersReducedMotion = () => window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+
+type SectionProps = {
+  category: Category;
+  onSelectItem: (item: Item) => void;
+};
+
+function SectionItems({ category, onSelectItem, onHeight }: SectionProps & { onHeight: (px: number) => void }) {
+  const { lang, t } = useLanguage();
+  const ref = useRef<HTMLDivElement>(null);
+  const query = useApiQuery(
+    `items:${category.id}:${lang}`,
+    (signal) => getItems(category.id, lang, { signal }),
+    { cacheMs: CATALOG_CACHE_MS },
+  );
+  const items = query.data ?? [];
+  const loaded = query.data !== undefined;
+
+  // Remember the real height so the placeholder that replaces us doesn't shift the page
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || !loaded) return;
+    const observer = new ResizeObserver(([entry]) => onHeight(entry.target.getBoundingClientRect().height));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [loaded, onHeight]);
+
+  return (
+    <div ref={ref}>
+      <LoadState
+        loading={query.loading}
+        error={query.error}
+        isEmpty={items.length === 0}
+        emptyText={t("status.emptyItems")}
+        onRetry={query.reload}
+      >
+        <div className="items-grid">
+          {items.map((it) => (
+            <ItemCard key={it.id} item={it} onClick={() => onSelectItem(it)} />
+          ))}
+        </div>
+      </LoadState>
+    </div>
+  );
+}
+
+function MenuSection({ category, onSelectItem }: SectionProps) {
+  const { lang } = useLanguage();
+  const ref = useRef<HTMLElement>(null);
+  const [near, setNear] = useState(false);
+  const [height, setHeight] = useState<number>();
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new IntersectionObserver(([entry]) => setNear(entry.isIntersecting), { rootMargin: RENDER_MARGIN });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <section ref={ref} id={sectionId(category.id)} className="menu-section" data-category={category.id}>
+      <h2 className="menu-section-title">{localizedName(category, lang)}</h2>
+      {near ? (
+        <SectionItems category={category} onSelectItem={onSelectItem} onHeight={setHeight} />
+      ) : (
+        <div className="menu-section-placeholder" style={{ height: height ?? ESTIMATED_SECTION_PX }} />
+      )}
+    </section>
+  );
+}
+
+// Section under the sticky nav, i.e. the last one whose top has scrolled past it.
+// At the very bottom the last section wins even if it is too short to get there.
+function sectionInView(container: HTMLElement): string | undefined {
+  const nav = container.querySelector(".horizontal-nav-wrapper");
+  const line = (nav?.getBoundingClientRect().bottom ?? 0) + SPY_SLACK_PX;
+  const sections = [...container.querySelectorAll<HTMLElement>(".menu-section")];
+  const atBottom = window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 2;
+  if (atBottom) return sections.at(-1)?.dataset.category;
+  let current: string | undefined;
+  for (const section of sections) {
+    if (section.getBoundingClientRect().top > line) break;
+    current = section.dataset.category;
+  }
+  return current;
+}
+
+export default function FullMenuPage(): JSX.Element {
+  const { t } = useLanguage();
+  const [selected, setSelected] = useState<Item | null>(null);
+  const [spyId, setSpyId] = useState<string>();
+  const containerRef = useRef<HTMLDivElement>(null);
+  // While a pill-triggered smooth scroll runs, the spy would flick through every section in between
+  const scrollingTo = useRef<string | null>(null);
+
+  const { data: categories = [], loading, error, reload } = useApiQuery(
+    "categories",
+    (signal) => getCategories({ signal }),
+    { cacheMs: CATALOG_CACHE_MS },
+  );
+
+  useEffect(() => {
+    let frame = 0;
+    const onScroll = () => {
+      if (frame || scrollingTo.current) return;
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        if (containerRef.current) setSpyId(sectionInView(containerRef.current));
+      });
+    };
+    window.addEventListener("scroll", onScroll, { passive: true });
+    return () => {
+      window.removeEventListener("scroll", onScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, []);
+
+  const scrollToSection = useCallback((id: Category["id"]) => {
+    const target = document.getElementById(sectionId(id));
+    if (!target) return;
+    setSpyId(String(id));
+    scrollingTo.current = String(id);
+
+    // Placeholders above the target may grow as they mount mid-flight, so land
+    // once more without animation when the smooth scroll is over
+    const settle = () => {
+      window.removeEventListener("scrollend", settle);
+      clearTimeout(fallback);
+      if (scrollingTo.current !== String(id)) return;
+      scrollingTo.current = null;
+      target.scrollIntoView({ block: "start" });
+    };
+    const fallback = window.setTimeout(settle, 1200);
+    window.addEventListener("scrollend", settle);
+    target.scrollIntoView({ block: "start", behavior: prefersReducedMotion() ? "auto" : "smooth" });
+  }, []);
+
+  const activeId = spyId ?? (categories[0] && String(categories[0].id));
+
+  return (
+    <div className="page-container" ref={containerRef}>
+      <Navbar showLogo={false} showSignIn={false} />
+      <LoadState
+        loading={loading}
+        error={error}
+        isEmpty={categories.length === 0}
+        emptyText={t("status.emptyCategories")}
+        onRetry={reload}
+      >
+        <HorizontalCategoryNav categories={categories} activeId={activeId} onSelect={scrollToSection} sticky />
+        {categories.map((c) => (
+          <MenuSection key={c.id} category={c} onSelectItem={setSelected} />
+        ))}
+      </LoadState>
+
+      {selected && <ItemModal item={selected} onClose={() => setSelected(null)} />}
+    </div>
+  );
+}
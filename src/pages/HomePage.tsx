@@ -1,29 +1,31 @@
 // src/pages/HomePage.tsx
-import React, { useState, type JSX } from "react";
-import { useNavigate } from 'react-router-dom';
+import React, { type JSX } from "react";
+import { Link, useNavigate } from 'react-router-dom';
 import Navbar from "../components/navbar";
 import AnimatedBanner from "../components/AnimatedBanner";
-import type { Category } from "../types";
+import LoadState from "../components/LoadState";
+import FavoritesSection from "../components/FavoritesSection";
+import { getCategories } from "../api";
+import { CATALOG_CACHE_MS, useApiQuery } from "../api/useApiQuery";
+import { useLanguage } from "../context/LanguageContext";
+import { localizedName } from "../i18n";
+import { categoryPath, ROUTES } from "../routes";
 import "../App.css";
 
-const mockCategories: Category[] = [
-  { id: 1, name_en: "Breakfast", img: "src/assets/cat1.jpg" },
-  { id: 2, name_en: "Soups", img: "src/assets/cat2.jpg" },
-  { id: 3, name_en: "Hot Meals", img: "src/assets/cat3.jpg" },
-  { id: 4, name_en: "Pasta & Risotto", img: "src/assets/cat4.jpg" },
-  { id: 5, name_en: "Breakfast", img: "src/assets/cat1.jpg" },
-  { id: 6, name_en: "Soups", img: "src/assets/cat2.jpg" },
-];
-
-const animatedBanners = [
-  { id: 1, type: 'bonus-wheel' as const, bonusText: "GET UP", bonusPercentage: "100%" },
-  { id: 2, type: 'product-showcase' as const, text: "50%              off", subtitle: "Fruit Cakes", productImage: "src/assets/featured-drink.png", floatingItems: ["src/assets/apple-slice-1.png","src/assets/apple-slice-2.png","src/assets/apple-slice-3.png"] },
-  { id: 3, type: 'text-reveal' as const, text: "Order Now & Enjoy" }
-];
-
 export default function HomePage(): JSX.Element {
-  const [categories] = useState<Category[]>(mockCategories);
+  const { data: categories = [], loading, error, reload } = useApiQuery(
+    "categories",
+    (signal) => getCategories({ signal }),
+    { cacheMs: CATALOG_CACHE_MS },
+  );
   const navigate = useNavigate();
+  const { lang, t } = useLanguage();
+
+  const animatedBanners = [
+    { id: 1, type: 'bonus-wheel' as const, bonusText: t("home.banner.bonusText"), bonusPercentage: "100%" },
+    { id: 2, type: 'product-showcase' as const, text: t("home.banner.off"), subtitle: t("home.banner.fruitCakes"), productImage: "src/assets/featured-drink.png", floatingItems: ["src/assets/apple-slice-1.png","src/assets/apple-slice-2.png","src/assets/apple-slice-3.png"] },
+    { id: 3, type: 'text-reveal' as const, text: t("home.banner.orderNow") }
+  ];
 
   return (
     <div className="menu-page">
@@ -41,29 +43,40 @@ export default function HomePage(): JSX.Element {
             navigate('/doodle-jump'); // protected route
           }}
         >
-          Get Bonuses
+          {t("home.getBonuses")}
         </button>
       </div>
 
-      <h2 className="categories-title">Menu Categories</h2>
+      <h2 className="categories-title">{t("home.categories")}</h2>
+      <Link to={ROUTES.menu} className="menu-link">{t("menu.fullMenu")}</Link>
+      <LoadState
+        loading={loading}
+        error={error}
+        isEmpty={categories.length === 0}
+        emptyText={t("status.emptyCategories")}
+        onRetry={reload}
+      >
       <div className="categories-grid">
         {categories.map((c) => (
           <div
             key={c.id}
             className="category-card"
-            onClick={() => navigate(`/category?category=${c.id}`)}
-            aria-label={c.name_en}
+            onClick={() => navigate(categoryPath(c.id))}
+            aria-label={localizedName(c, lang)}
             role="button"
             tabIndex={0}
-            onKeyDown={(e) => { if (e.key === 'Enter') navigate(`/category?category=${c.id}`) }}
+            onKeyDown={(e) => { if (e.key === 'Enter') navigate(categoryPath(c.id)) }}
           >
             <div className="category-img-wrap">
-              <img src={c.img} alt={c.name_en} />
+              <img src={c.img} alt={localizedName(c, lang)} />
             </div>
-            <div className="category-name">{c.name_en}</div>
+            <div className="category-name">{localizedName(c, lang)}</div>
           </div>
         ))}
       </div>
+      </LoadState>
+
+      <FavoritesSection hideWhenEmpty />
     </div>
   );
 }
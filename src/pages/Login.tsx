@@ -1,22 +1,48 @@
 import React, { useState } from "react";
 import { useLocation, useNavigate, Link } from "react-router-dom";
 import Navbar from "../components/navbar";
+import AuthField from "../components/AuthField";
 import { useAuth } from "../context/AuthContext";
+import { useLanguage } from "../context/LanguageContext";
+import { ROUTES } from "../routes";
+import { safeRedirect, withRedirect } from "../utils/redirect";
+import { AUTH_ERROR_KEYS } from "../utils/authValidation";
+import type { TranslationKey } from "../i18n";
+
+type Errors = Partial<Record<"username" | "password" | "form", TranslationKey>>;
 
 export default function LoginPage() {
   const navigate = useNavigate();
   const location = useLocation();
   const { login } = useAuth();
+  const { t } = useLanguage();
 
-  const redirect = new URLSearchParams(location.search).get("redirect") || "/";
+  const redirect = safeRedirect(new URLSearchParams(location.search).get("redirect"));
 
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [errors, setErrors] = useState<Errors>({});
+  const [pending, setPending] = useState(false);
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    login(username, password);
-    navigate(redirect);
+    if (pending) return;
+
+    const next: Errors = {};
+    if (!username.trim()) next.username = "auth.error.required";
+    if (!password) next.password = "auth.error.required";
+    setErrors(next);
+    if (Object.keys(next).length > 0) return;
+
+    setPending(true);
+    const result = await login(username.trim(), password);
+    setPending(false);
+
+    if (result.ok) {
+      navigate(redirect, { replace: true });
+    } else {
+      setErrors({ form: AUTH_ERROR_KEYS[result.code ?? "unavailable"] });
+    }
   };
 
   return (
@@ -24,32 +50,43 @@ export default function LoginPage() {
       <Navbar showLogo={false} showSignIn={false} hideHamburger={true} />
 
       <div className="auth-content">
-        <form className="auth-form" onSubmit={handleLogin}>
-          <h2>Log In</h2>
+        <form className="auth-form" onSubmit={handleLogin} noValidate aria-busy={pending}>
+          <h2>{t("auth.login")}</h2>
+
+          {errors.form && <p className="auth-error" role="alert">{t(errors.form)}</p>}
 
-          <input
+          <AuthField
+            id="login-username"
             type="text"
-            placeholder="Username"
+            autoComplete="username"
+            placeholder={t("auth.usernameOrEmail")}
             value={username}
             onChange={(e) => setUsername(e.target.value)}
-            required
+            error={errors.username && t(errors.username)}
+            disabled={pending}
           />
 
-          <input
+          <AuthField
+            id="login-password"
             type="password"
-            placeholder="Password"
+            autoComplete="current-password"
+            placeholder={t("auth.password")}
             value={password}
             onChange={(e) => setPassword(e.target.value)}
-            required
+            error={errors.password && t(errors.password)}
+            disabled={pending}
           />
 
-          <button type="submit" className="auth-btn">
-            Log In
+          <Link className="auth-forgot" to={ROUTES.forgotPassword}>{t("auth.forgotLink")}</Link>
+
+          <button type="submit" className="auth-btn" disabled={pending}>
+            {pending && <span className="auth-spinner" aria-hidden="true" />}
+            {pending ? t("auth.pending") : t("auth.login")}
           </button>
 
           <p className="auth-link">
-            Don’t have an account?{" "}
-            <Link to={`/signup?redirect=${redirect}`}>Sign up</Link>
+            {t("auth.noAccount")}{" "}
+            <Link to={withRedirect(ROUTES.signup, redirect)}>{t("auth.signupLink")}</Link>
           </p>
         </form>
       </div>
@@ -0,0 +1,84 @@
+// src/pages/OrderPage.tsx
+import { type JSX } from "react";
+import { Link, useParams } from "react-router-dom";
+import Navbar from "../components/navbar";
+import LoadState from "../components/LoadState";
+import ReorderButton from "../components/ReorderButton";
+import { OrderStatusBadge } from "../components/OrderHistory";
+import { getOrder } from "../api";
+import { useApiQuery } from "../api/useApiQuery";
+import { useLanguage } from "../context/LanguageContext";
+import { shortOrderId } from "../utils/orders";
+import { ROUTES } from "../routes";
+import "../App.css";
+
+export default function OrderPage(): JSX.Element {
+  const { orderId = "" } = useParams();
+  const { lang, t, formatPrice } = useLanguage();
+  const query = useApiQuery(`order:${orderId}`, (signal) => getOrder(orderId, { signal }));
+  const order = query.data;
+  const notFound = query.error?.status === 404;
+
+  return (
+    <div className="page-container">
+      <Navbar showLogo={false} showSignIn={false} />
+
+      <Link to={ROUTES.cabinet} className="menu-link">← {t("orders.back")}</Link>
+
+      <h1 className="category-title-large">{t("orders.number", { id: shortOrderId(orderId) })}</h1>
+
+      <LoadState
+        loading={query.loading}
+        error={notFound ? undefined : query.error}
+        isEmpty={!order}
+        emptyText={t("orders.notFound")}
+        onRetry={query.reload}
+      >
+        {order && (
+          <div className="cart-list">
+            <div className="order-row-head">
+              <span>
+                {new Date(order.placedAt).toLocaleString(lang)} · {t(`checkout.type.${order.type}`)}
+                {order.tableId && ` · ${t("table.label", { table: order.tableId })}`}
+                {order.scheduledFor && ` · ${t("orders.scheduledFor", { time: new Date(order.scheduledFor).toLocaleString(lang) })}`}
+              </span>
+              <OrderStatusBadge status={order.status} />
+            </div>
+
+            {order.lines.map((line, index) => (
+              <div key={index} className="cart-line">
+                <div className="cart-line-info">
+                  <h3>{line.title}</h3>
+                  {line.options && <div className="cart-line-options">{line.options.join(", ")}</div>}
+                  <div className="cart-line-unit">{formatPrice(line.price)} × {line.quantity}</div>
+                </div>
+                <div className="cart-line-side">
+                  <div className="cart-line-total">{formatPrice(line.price * line.quantity)}</div>
+                </div>
+              </div>
+            ))}
+
+            <div className="checkout-summary">
+              <div className="checkout-row">
+                <span>{t("checkout.subtotal")}</span>
+                <span>{formatPrice(order.subtotal)}</span>
+              </div>
+              {order.discountAmount > 0 && (
+                <div className="checkout-row checkout-discount">
+                  <span>{t("checkout.discount", { percent: order.discountPercent })}</span>
+                  <span>−{formatPrice(order.discountAmount)}</span>
+                </div>
+              )}
+              <div className="checkout-row checkout-total">
+                <span>{t("checkout.total")}</span>
+                <span>{formatPrice(order.total)}</span>
+              </div>
+            </div>
+
+            <ReorderButton order={order} />
+          </div>
+        )}
+      </LoadState>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import Navbar from "../components/navbar";
+import AuthField from "../components/AuthField";
+import PasswordStrengthMeter from "../components/PasswordStrengthMeter";
+import { useAuth } from "../context/AuthContext";
+import { useLanguage } from "../context/LanguageContext";
+import { ROUTES } from "../routes";
+import {
+  AUTH_ERROR_KEYS,
+  validateNewPassword,
+  validatePasswordConfirm,
+  type FieldError,
+} from "../utils/authValidation";
+
+type Errors = Partial<Record<"password" | "confirm" | "form", FieldError>>;
+
+export default function ResetPasswordPage() {
+  const location = useLocation();
+  const { resetPassword } = useAuth();
+  const { t } = useLanguage();
+
+  const token = new URLSearchParams(location.search).get("token") ?? "";
+
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [errors, setErrors] = useState<Errors>(() =>
+    token ? {} : { form: { key: "auth.error.invalidResetToken" } });
+  const [pending, setPending] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const message = (field: keyof Errors) => {
+    const error = errors[field];
+    return error ? t(error.key, error.params) : null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pending || !token) return;
+
+    const next: Errors = {};
+    const passwordError = validateNewPassword(password);
+    const confirmError = validatePasswordConfirm(password, confirm);
+    if (passwordError) next.password = passwordError;
+    if (confirmError) next.confirm = confirmError;
+    setErrors(next);
+    if (passwordError || confirmError) return;
+
+    setPending(true);
+    const result = await resetPassword(token, password);
+    setPending(false);
+
+    if (result.ok) setDone(true);
+    else setErrors({ form: { key: AUTH_ERROR_KEYS[result.code ?? "unavailable"] } });
+  };
+
+  return (
+    <div className="auth-page">
+      <Navbar showLogo={false} showSignIn={false} hideHamburger={true} />
+
+      <div className="auth-content">
+        <form className="auth-form" onSubmit={handleSubmit} noValidate aria-busy={pending}>
+          <h2>{t("reset.title")}</h2>
+
+          {done ? (
+            <p className="account-success" role="status">{t("reset.done")}</p>
+          ) : (
+            <>
+              {errors.form && <p className="auth-error" role="alert">{message("form")}</p>}
+
+              <AuthField
+                id="reset-password"
+                type="password"
+                autoComplete="new-password"
+                placeholder={t("account.newPassword")}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                error={message("password")}
+                disabled={pending || !token}
+              />
+              <PasswordStrengthMeter password={password} />
+
+              <AuthField
+                id="reset-confirm"
+                type="password"
+                autoComplete="new-password"
+                placeholder={t("account.confirmNewPassword")}
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                error={message("confirm")}
+                disabled={pending || !token}
+              />
+
+              <button type="submit" className="auth-btn" disabled={pending || !token}>
+                {pending && <span className="auth-spinner" aria-hidden="true" />}
+                {pending ? t("auth.pending") : t("reset.submit")}
+              </button>
+            </>
+          )}
+
+          <p className="auth-link">
+            {done || token
+              ? <Link to={ROUTES.login}>{t("forgot.backToLogin")}</Link>
+              : <Link to={ROUTES.forgotPassword}>{t("auth.forgotLink")}</Link>}
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+// src/pages/SearchPage.tsx
+import { useDeferredValue, useMemo, useState, type JSX } from "react";
+import { useSearchParams } from "react-router-dom";
+import Navbar from "../components/navbar.tsx";
+import ItemCard from "../components/ItemCard.tsx";
+import ItemModal from "../components/ItemModal.tsx";
+import LoadState from "../components/LoadState.tsx";
+import type { Item } from "../types.ts";
+import { getFullMenu } from "../api";
+import { CATALOG_CACHE_MS, useApiQuery } from "../api/useApiQuery";
+import { useLanguage } from "../context/LanguageContext";
+import { buildSearchIndex, searchIndex } from "../utils/search";
+import {
+  addRecentSearch,
+  clearRecentSearches,
+  loadRecentSearches,
+  removeRecentSearch,
+} from "../utils/recentSearches";
+import "../App.css";
+
+export default function SearchPage(): JSX.Element {
+  const { lang, t } = useLanguage();
+  const [params, setParams] = useSearchParams();
+  const query = params.get("q") ?? "";
+  const deferredQuery = useDeferredValue(query);
+  const [recent, setRecent] = useState(loadRecentSearches);
+  const [selected, setSelected] = useState<Item | null>(null);
+
+  const menu = useApiQuery(
+    `menu:${lang}`,
+    (signal) => getFullMenu(lang, { signal }),
+    { cacheMs: CATALOG_CACHE_MS },
+  );
+  const index = useMemo(() => buildSearchIndex((menu.data ?? []).flatMap(section => section.items)), [menu.data]);
+  const hits = useMemo(() => searchIndex(index, deferredQuery), [index, deferredQuery]);
+
+  // Typing rewrites the URL in place, so Back leaves search instead of undoing keystrokes
+  const setQuery = (value: string) => setParams(value ? { q: value } : {}, { replace: true });
+  const remember = () => setRecent(addRecentSearch(query));
+
+  const openItem = (item: Item) => {
+    remember();
+    setSelected(item);
+  };
+
+  return (
+    <div className="page-container">
+      <Navbar showLogo={false} showSignIn={false} showSearch={false} />
+
+      <form className="search-form" role="search" onSubmit={(e) => { e.preventDefault(); remember(); }}>
+        <input
+          type="search"
+          className="search-input"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t("search.placeholder")}
+          aria-label={t("search.placeholder")}
+          autoFocus
+        />
+      </form>
+
+      {!query.trim() ? (
+        recent.length > 0 ? (
+          <section className="recent-searches">
+            <div className="recent-searches-head">
+              <h2>{t("search.recent")}</h2>
+              <button type="button" className="recent-clear" onClick={() => { clearRecentSearches(); setRecent([]); }}>
+                {t("search.clearRecent")}
+              </button>
+            </div>
+            <ul>
+              {recent.map((q) => (
+                <li key={q}>
+                  <button type="button" className="recent-query" onClick={() => setQuery(q)}>{q}</button>
+                  <button
+                    type="button"
+                    className="recent-remove"
+                    aria-label={t("search.removeRecent", { query: q })}
+                    onClick={() => setRecent(removeRecentSearch(q))}
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : (
+          <p className="load-state">{t("search.hint")}</p>
+        )
+      ) : (
+        <LoadState
+          loading={menu.loading}
+          error={menu.error}
+          isEmpty={hits.length === 0}
+          emptyText={t("search.empty", { query: deferredQuery.trim() })}
+          onRetry={menu.reload}
+        >
+          <p className="search-count" aria-live="polite">{t("search.results", { n: hits.length })}</p>
+          <div className="items-grid">
+            {hits.map((hit) => (
+              <ItemCard key={hit.item.id} item={hit.item} match={hit.match} onClick={() => openItem(hit.item)} />
+            ))}
+          </div>
+        </LoadState>
+      )}
+
+      {selected && <ItemModal item={selected} onClose={() => setSelected(null)} />}
+    </div>
+  );
+}
@@ -1,23 +1,82 @@
 import React, { useState } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import Navbar from "../components/navbar";
+import AuthField from "../components/AuthField";
+import PasswordStrengthMeter from "../components/PasswordStrengthMeter";
 import { useAuth } from "../context/AuthContext";
+import { useLanguage } from "../context/LanguageContext";
+import { ROUTES } from "../routes";
+import { safeRedirect, withRedirect } from "../utils/redirect";
+import {
+  AUTH_ERROR_KEYS,
+  validateEmail,
+  validateNewPassword,
+  validatePasswordConfirm,
+  validateUsername,
+  type FieldError,
+} from "../utils/authValidation";
+
+type Field = "username" | "email" | "password" | "confirm";
+type Errors = Partial<Record<Field | "form", FieldError>>;
 
 export default function SignupPage() {
   const navigate = useNavigate();
   const location = useLocation();
   const { signup } = useAuth();
+  const { t } = useLanguage();
 
-  const redirect = new URLSearchParams(location.search).get("redirect") || "/";
+  const redirect = safeRedirect(new URLSearchParams(location.search).get("redirect"));
 
   const [username, setUsername] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [serverErrors, setServerErrors] = useState<Errors>({});
+  const [submitted, setSubmitted] = useState(false);
+  const [pending, setPending] = useState(false);
+
+  const validate = (): Errors => {
+    const found: Errors = {
+      username: validateUsername(username) ?? undefined,
+      email: validateEmail(email) ?? undefined,
+      password: validateNewPassword(password) ?? undefined,
+      confirm: validatePasswordConfirm(password, confirm) ?? undefined,
+    };
+    return Object.fromEntries(Object.entries(found).filter(([, v]) => v)) as Errors;
+  };
+
+  // Client errors appear after the first submit and then track typing live
+  const errors: Errors = { ...(submitted ? validate() : {}), ...serverErrors };
+  const message = (field: Field | "form") => {
+    const error = errors[field];
+    return error ? t(error.key, error.params) : null;
+  };
+
+  const edit = (field: Field, setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setter(e.target.value);
+    if (serverErrors[field] || serverErrors.form) setServerErrors({});
+  };
 
-  const handleSignup = (e: React.FormEvent) => {
+  const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
-    signup(username, email, password);
-    navigate(redirect);
+    if (pending) return;
+
+    setSubmitted(true);
+    setServerErrors({});
+    if (Object.keys(validate()).length > 0) return;
+
+    setPending(true);
+    const result = await signup(username.trim(), email.trim(), password);
+    setPending(false);
+
+    if (result.ok) {
+      navigate(redirect, { replace: true });
+      return;
+    }
+    const key = { key: AUTH_ERROR_KEYS[result.code ?? "unavailable"] };
+    if (result.code === "email_taken") setServerErrors({ email: key });
+    else if (result.code === "username_taken") setServerErrors({ username: key });
+    else setServerErrors({ form: key });
   };
 
   return (
@@ -25,40 +84,64 @@ export default function SignupPage() {
       <Navbar showLogo={false} showSignIn={false} hideHamburger={true} />
 
       <div className="auth-content">
-        <form className="auth-form" onSubmit={handleSignup}>
-          <h2>Sign Up</h2>
+        <form className="auth-form" onSubmit={handleSignup} noValidate aria-busy={pending}>
+          <h2>{t("auth.signup")}</h2>
+
+          {errors.form && <p className="auth-error" role="alert">{message("form")}</p>}
 
-          <input
+          <AuthField
+            id="signup-username"
             type="text"
-            placeholder="Username"
+            autoComplete="username"
+            placeholder={t("auth.username")}
             value={username}
-            onChange={(e) => setUsername(e.target.value)}
-            required
+            onChange={edit("username", setUsername)}
+            error={message("username")}
+            disabled={pending}
           />
 
-          <input
+          <AuthField
+            id="signup-email"
             type="email"
-            placeholder="Email"
+            autoComplete="email"
+            placeholder={t("auth.email")}
             value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            required
+            onChange={edit("email", setEmail)}
+            error={message("email")}
+            disabled={pending}
           />
 
-          <input
+          <AuthField
+            id="signup-password"
             type="password"
-            placeholder="Password"
+            autoComplete="new-password"
+            placeholder={t("auth.password")}
             value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            required
+            onChange={edit("password", setPassword)}
+            error={message("password")}
+            disabled={pending}
+          />
+          <PasswordStrengthMeter password={password} />
+
+          <AuthField
+            id="signup-confirm"
+            type="password"
+            autoComplete="new-password"
+            placeholder={t("auth.confirmPassword")}
+            value={confirm}
+            onChange={edit("confirm", setConfirm)}
+            error={message("confirm")}
+            disabled={pending}
           />
 
-          <button type="submit" className="auth-btn">
-            Sign Up
+          <button type="submit" className="auth-btn" disabled={pending}>
+            {pending && <span className="auth-spinner" aria-hidden="true" />}
+            {pending ? t("auth.pending") : t("auth.signup")}
           </button>
 
           <p className="auth-link">
-            Already have an account?{" "}
-            <Link to={`/login?redirect=${redirect}`}>Log in</Link>
+            {t("auth.haveAccount")}{" "}
+            <Link to={withRedirect(ROUTES.login, redirect)}>{t("auth.loginLink")}</Link>
           </p>
         </form>
       </div>
@@ -0,0 +1,22 @@
+// src/pages/TableEntry.tsx
+// Landing route for the QR code on a table: remember the table, then show the menu.
+import { useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useTable } from "../context/TableContext";
+import { normalizeTableId } from "../utils/tableSession";
+import { ROUTES } from "../routes";
+
+export default function TableEntry() {
+  const { tableId } = useParams();
+  const { enterTable } = useTable();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const id = normalizeTableId(tableId);
+    // a mangled code still lands on the menu, just without a table
+    if (id) enterTable(id);
+    navigate(ROUTES.home, { replace: true });
+  }, [tableId, enterTable, navigate]);
+
+  return null;
+}
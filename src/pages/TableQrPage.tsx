@@ -0,0 +1,69 @@
+// src/pages/TableQrPage.tsx
+// Staff tool: printable QR codes that seat a guest at a table. Everything is
+// generated in the browser, so it works offline and nothing leaves the device.
+import { useState, type JSX } from "react";
+import Navbar from "../components/navbar";
+import QrCodeSvg from "../components/QrCodeSvg";
+import { useLanguage } from "../context/LanguageContext";
+import { MAX_TABLES, parseTableIds } from "../utils/tableSession";
+import { tablePath } from "../routes";
+import "../App.css";
+
+export default function TableQrPage(): JSX.Element {
+  const { t } = useLanguage();
+  const [input, setInput] = useState("1-10");
+  const [origin, setOrigin] = useState(() => window.location.origin);
+
+  const { ids, invalid, truncated } = parseTableIds(input);
+  const base = origin.trim().replace(/\/+$/, "");
+
+  return (
+    <div className="page-container">
+      <div className="no-print">
+        <Navbar showLogo={false} showSignIn={false} showSearch={false} />
+      </div>
+
+      <h1 className="category-title-large no-print">{t("tableQr.title")}</h1>
+
+      <div className="table-qr-controls no-print">
+        <label>
+          <span>{t("tableQr.ids")}</span>
+          <textarea value={input} onChange={(e) => setInput(e.target.value)} rows={3} />
+          <small>{t("tableQr.idsHint")}</small>
+        </label>
+        <label>
+          <span>{t("tableQr.baseUrl")}</span>
+          <input type="url" value={origin} onChange={(e) => setOrigin(e.target.value)} />
+        </label>
+
+        {invalid.length > 0 && (
+          <p className="auth-error" role="alert">{t("tableQr.invalid", { list: invalid.join(", ") })}</p>
+        )}
+        {truncated && <p className="load-state">{t("tableQr.tooMany", { max: MAX_TABLES })}</p>}
+
+        <button className="auth-btn" onClick={() => window.print()} disabled={ids.length === 0}>
+          {t("tableQr.print")}
+        </button>
+      </div>
+
+      {ids.length === 0 ? (
+        <p className="load-state no-print">{t("tableQr.empty")}</p>
+      ) : (
+        <div className="table-qr-grid">
+          {ids.map((id) => {
+            const url = `${base}${tablePath(id)}`;
+            return (
+              <figure key={id} className="table-qr-card">
+                <QrCodeSvg value={url} label={t("tableQr.codeFor", { table: id })} />
+                <figcaption>
+                  <strong>{t("table.label", { table: id })}</strong>
+                  <small>{url}</small>
+                </figcaption>
+              </figure>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
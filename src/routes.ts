@@ -0,0 +1,33 @@
+// src/routes.ts
+// Every path App.tsx mounts. Redirect targets are checked against this list,
+// so a new page must be registered here to be reachable after login.
+export const ROUTES = {
+  home: "/",
+  category: "/category",
+  menu: "/menu",
+  search: "/search",
+  games: "/doodle-jump",
+  login: "/login",
+  signup: "/signup",
+  forgotPassword: "/forgot-password",
+  resetPassword: "/reset-password",
+  cabinet: "/cabinet",
+  order: "/orders/:orderId",
+  cart: "/cart",
+  checkout: "/checkout",
+  table: "/t/:tableId",
+  tableQr: "/staff/tables",
+} as const;
+
+export type RoutePath = (typeof ROUTES)[keyof typeof ROUTES];
+
+// `extra` carries listing state (sort, ...) over to the next category
+export const categoryPath = (id: string | number, extra: Record<string, string> = {}) =>
+  `${ROUTES.category}?${new URLSearchParams({ category: String(id), ...extra })}`;
+
+export const searchPath = (query: string) =>
+  query.trim() ? `${ROUTES.search}?q=${encodeURIComponent(query.trim())}` : ROUTES.search;
+
+export const orderPath = (id: string) => ROUTES.order.replace(":orderId", encodeURIComponent(id));
+
+export const tablePath = (id: string) => ROUTES.table.replace(":tableId", encodeURIComponent(id));
@@ -12,11 +12,173 @@ export type Category = {
   img?: string;
 };
 
+export type DietaryTag = "vegetarian" | "vegan" | "gluten_free" | "halal";
+export type Allergen = "gluten" | "dairy" | "eggs" | "nuts" | "peanuts" | "soy" | "fish" | "shellfish" | "sesame";
+export type SpiceLevel = 0 | 1 | 2 | 3;
+
+export type ItemOption = {
+  id: string;
+  name: string;
+  priceDelta: number; // added to the base price, may be 0 ("no onions")
+};
+
+// Pick exactly one, e.g. size S/M/L
+export type VariantGroup = {
+  id: string;
+  name: string;
+  options: ItemOption[];
+  defaultOptionId?: string;
+};
+
+// Pick between min and max; min > 0 makes the group required
+export type ModifierGroup = {
+  id: string;
+  name: string;
+  options: ItemOption[];
+  min: number;
+  max: number;
+};
+
+// What the guest picked for one item; ids refer to the groups above
+export type ItemSelection = {
+  variants: Record<string, string>; // group id -> option id
+  modifiers: Record<string, string[]>; // group id -> option ids, in the order shown
+};
+
 export type Item = {
   id: number | string;
   title: string;
   description?: string;
   ingredients?: string;
-  price?: string | number;
+  price?: number; // normalised by the API layer, see RawItem
   img?: string;
+  popularity?: number; // orders over the last weeks, higher = more popular
+  createdAt?: string; // ISO date the dish joined the menu
+  tags?: DietaryTag[];
+  spiciness?: SpiceLevel;
+  allergens?: Allergen[]; // missing = unknown, which is not the same as none
+  variants?: VariantGroup[];
+  modifiers?: ModifierGroup[];
+};
+
+export type AuthResponse = {
+  user: {
+    username: string;
+    email: string;
+  };
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // seconds until accessToken expires
+};
+
+// The answer never leaves the server; guesses are checked there
+export type DailyRiddle = {
+  date: string; // YYYY-MM-DD, also the "played today" key
+  question: string;
+  answerLength: number;
+  maxAttempts: number;
+  attemptsLeft: number; // the signed-in player's, 0 once solved; maxAttempts for guests
+  discountPercent: number;
+  solvedToday: boolean;
+};
+
+export type WalletEventSource = "jump" | "guess" | "order" | "migration" | "system";
+
+export type WalletEvent = {
+  type: "earn" | "spend" | "expire";
+  source: WalletEventSource;
+  points: number;
+  percent: number;
+  at: string; // ISO
+};
+
+// A balance this device kept before the server owned wallets, offered to the
+// account once. The server decides how much of it to accept.
+export type WalletClaim = {
+  points: number;
+  percent: number;
+  expiresAt: string; // ISO
+};
+
+// Game points and the percent discount they unlock. Kept by the server; the
+// client only ever shows what the last response said.
+export type LoyaltyWallet = {
+  username: string;
+  points: number; // points collected towards the current discount
+  percent: number; // 0..maxPercent
+  expiresAt: string | null; // ISO, null when there is nothing to spend
+  history: WalletEvent[]; // newest first
+};
+
+export type RiddleSolveResult = {
+  correct: boolean;
+  first: boolean; // correct, and nobody had solved today's riddle before
+  attemptsLeft: number;
+  answer?: string; // revealed once the riddle is solved or out of attempts
+  wallet: LoyaltyWallet; // with the bonus already added when first
+};
+
+// A single-use seed for one ranked Giraffe Jump run
+export type JumpRunStart = {
+  seed: number;
+};
+
+// The score the server re-simulated from the submitted replay
+export type JumpRunResult = {
+  score: number;
+  personalBest: number; // the player's best verified score, this run included
+  wallet: LoyaltyWallet; // with the run's points already added
+};
+
+// "today" is the daily board of the restaurant's regulars
+export type LeaderboardPeriod = "all" | "week" | "today";
+
+export type LeaderboardEntry = {
+  rank: number; // equal scores share a rank
+  username: string;
+  score: number;
+};
+
+export type Leaderboard = {
+  period: LeaderboardPeriod;
+  entries: LeaderboardEntry[]; // top of the board, best first
+  me: LeaderboardEntry | null; // the signed-in player, even when outside the top
+  personalBest: number; // all-time; 0 for guests and new players
+};
+
+export type OrderStatus = "placed" | "preparing" | "ready" | "completed" | "cancelled";
+
+export type OrderType = "dine_in" | "takeaway" | "delivery";
+
+export type OrderContact = {
+  name: string;
+  phone: string;
+  email?: string;
+  address?: string; // delivery only
+};
+
+// A cart line frozen at checkout; title and price are what the guest saw then
+export type OrderLine = {
+  itemId: number | string;
+  title: string;
+  price: number; // unit price paid, options included
+  quantity: number;
+  options?: string[]; // names of the chosen variants/modifiers
+  selection?: ItemSelection; // lets a reorder pick the same options again
+};
+
+export type Order = {
+  id: string;
+  placedAt: string; // ISO timestamp
+  status: OrderStatus;
+  lines: OrderLine[];
+  subtotal: number;
+  discountPercent: number;
+  discountAmount: number;
+  total: number;
+  type: OrderType;
+  scheduledFor?: string; // ISO timestamp of the chosen slot; missing = as soon as possible
+  tableId?: string; // dine-in only
+  contact?: OrderContact;
+  notes?: string;
 };
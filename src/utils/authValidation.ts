@@ -0,0 +1,70 @@
+// src/utils/authValidation.ts
+// Client-side checks for the login/signup forms. Errors are translation keys
+// so the pages can render them in the current language.
+import type { TranslateParams, TranslationKey } from "../i18n";
+import type { AuthErrorCode } from "../auth/types";
+
+export type FieldError = { key: TranslationKey; params?: TranslateParams };
+
+export type PasswordStrength = 0 | 1 | 2 | 3; // weak, fair, good, strong
+
+export const AUTH_RULES = {
+  usernameMin: 3,
+  usernameMax: 20,
+  passwordMin: 8,
+  passwordLong: 12,
+};
+
+// Letters (any script), digits, "_" and "."; must start with a letter.
+// No "@", so a login value is never ambiguous between username and email.
+const USERNAME_PATTERN = /^\p{L}[\p{L}\p{N}_.]*$/u;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+export function validateUsername(value: string): FieldError | null {
+  const username = value.trim();
+  if (!username) return { key: "auth.error.usernameRequired" };
+  if (username.length < AUTH_RULES.usernameMin || username.length > AUTH_RULES.usernameMax) {
+    return { key: "auth.error.usernameLength", params: { min: AUTH_RULES.usernameMin, max: AUTH_RULES.usernameMax } };
+  }
+  if (!USERNAME_PATTERN.test(username)) return { key: "auth.error.usernameChars" };
+  return null;
+}
+
+export function validateEmail(value: string): FieldError | null {
+  const email = value.trim();
+  if (!email) return { key: "auth.error.emailRequired" };
+  if (!EMAIL_PATTERN.test(email)) return { key: "auth.error.emailInvalid" };
+  return null;
+}
+
+// Counts character classes, with a bonus for length; anything short or single-class is weak
+export function passwordStrength(password: string): PasswordStrength {
+  if (password.length < AUTH_RULES.passwordMin) return 0;
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(re => re.test(password)).length;
+  if (classes < 2) return 0;
+  const points = classes + (password.length >= AUTH_RULES.passwordLong ? 1 : 0);
+  return Math.min(3, points - 1) as PasswordStrength;
+}
+
+export function validateNewPassword(password: string): FieldError | null {
+  if (!password) return { key: "auth.error.passwordRequired" };
+  if (password.length < AUTH_RULES.passwordMin) {
+    return { key: "auth.error.passwordShort", params: { min: AUTH_RULES.passwordMin } };
+  }
+  if (passwordStrength(password) === 0) return { key: "auth.error.passwordWeak" };
+  return null;
+}
+
+export function validatePasswordConfirm(password: string, confirm: string): FieldError | null {
+  if (!confirm) return { key: "auth.error.confirmRequired" };
+  return password === confirm ? null : { key: "auth.error.passwordMismatch" };
+}
+
+export const AUTH_ERROR_KEYS: Record<AuthErrorCode, TranslationKey> = {
+  invalid_credentials: "auth.error.invalidCredentials",
+  email_taken: "auth.error.emailTaken",
+  username_taken: "auth.error.usernameTaken",
+  session_expired: "auth.error.sessionExpired",
+  invalid_reset_token: "auth.error.invalidResetToken",
+  unavailable: "auth.error.unavailable",
+};
@@ -0,0 +1,98 @@
+// src/utils/checkout.ts
+// The checkout wizard's state, per-step validation and the order it submits.
+import type { OrderContact, OrderType } from "../types";
+import type { NewOrder } from "../api";
+import type { FieldError } from "./authValidation";
+import { validateEmail } from "./authValidation";
+import { asapAvailable, isValidSlot } from "./openingHours";
+import { normalizeTableId } from "./tableSession";
+import { toNewOrderLine, type CartLineLike } from "./orders";
+import type { OrderTotals } from "./pricing";
+
+export const CHECKOUT_STEPS = ["type", "time", "contact", "review"] as const;
+export type CheckoutStep = (typeof CHECKOUT_STEPS)[number];
+
+export const ORDER_TYPES: OrderType[] = ["dine_in", "takeaway", "delivery"];
+
+export const ASAP = "asap";
+
+export type CheckoutDraft = {
+  type: OrderType;
+  tableId: string; // dine-in only
+  when: string; // ASAP or the ISO start of a slot
+  contact: Required<OrderContact>;
+  notes: string;
+  useDiscount: boolean;
+};
+
+export type DraftErrors = Partial<Record<"type" | "tableId" | "when" | keyof OrderContact, FieldError>>;
+
+export const NOTES_MAX = 300;
+
+// Seven or more digits, optionally with "+", spaces, dashes or brackets
+const PHONE_PATTERN = /^\+?[\d\s()-]+$/;
+const PHONE_MIN_DIGITS = 7;
+
+export function validatePhone(value: string): FieldError | null {
+  const phone = value.trim();
+  if (!phone) return { key: "checkout.error.phoneRequired" };
+  const digits = phone.replace(/\D/g, "").length;
+  if (!PHONE_PATTERN.test(phone) || digits < PHONE_MIN_DIGITS) return { key: "checkout.error.phoneInvalid" };
+  return null;
+}
+
+// Only the fields that belong to `step`; the review step has nothing of its own
+export function validateStep(step: CheckoutStep, draft: CheckoutDraft, now: Date = new Date()): DraftErrors {
+  const errors: DraftErrors = {};
+  if (step === "type") {
+    if (draft.type === "dine_in" && !normalizeTableId(draft.tableId)) {
+      errors.tableId = { key: "checkout.error.tableRequired" };
+    }
+  } else if (step === "time") {
+    if (draft.when === ASAP) {
+      if (!asapAvailable(draft.type, now)) errors.when = { key: "checkout.error.closed" };
+    } else if (!isValidSlot(draft.type, new Date(draft.when), now)) {
+      errors.when = { key: "checkout.error.slotGone" };
+    }
+  } else if (step === "contact") {
+    const { name, phone, email, address } = draft.contact;
+    if (!name.trim()) errors.name = { key: "auth.error.required" };
+    const phoneError = validatePhone(phone);
+    if (phoneError) errors.phone = phoneError;
+    const emailError = email.trim() ? validateEmail(email) : null;
+    if (emailError) errors.email = emailError;
+    if (draft.type === "delivery" && !address.trim()) errors.address = { key: "checkout.error.addressRequired" };
+  }
+  return errors;
+}
+
+export const hasErrors = (errors: DraftErrors) => Object.keys(errors).length > 0;
+
+// The first step that still needs input; the wizard never shows a later one
+export function firstIncompleteStep(draft: CheckoutDraft, now: Date = new Date()): CheckoutStep {
+  return CHECKOUT_STEPS.find(step => hasErrors(validateStep(step, draft, now))) ?? "review";
+}
+
+export function toNewOrder(
+  draft: CheckoutDraft,
+  lines: CartLineLike[],
+  { discountPercent, total }: Pick<OrderTotals, "discountPercent" | "total">,
+): NewOrder {
+  const { name, phone, email, address } = draft.contact;
+  const contact: OrderContact = {
+    name: name.trim(),
+    phone: phone.trim(),
+    ...(email.trim() && { email: email.trim() }),
+    ...(draft.type === "delivery" && { address: address.trim() }),
+  };
+  return {
+    lines: lines.map(toNewOrderLine),
+    discountPercent,
+    total,
+    type: draft.type,
+    ...(draft.when !== ASAP && { scheduledFor: draft.when }),
+    ...(draft.type === "dine_in" && { tableId: draft.tableId.trim() }),
+    contact,
+    ...(draft.notes.trim() && { notes: draft.notes.trim().slice(0, NOTES_MAX) }),
+  };
+}
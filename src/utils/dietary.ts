@@ -0,0 +1,89 @@
+// src/utils/dietary.ts
+// Dietary tags, allergens and the menu filter built on them. The filter is saved
+// per user (lowercased username, like game progress) and once for guests.
+import type { Allergen, DietaryTag, Item, SpiceLevel } from "../types";
+
+export const DIETARY_TAGS: DietaryTag[] = ["vegetarian", "vegan", "gluten_free", "halal"];
+export const ALLERGENS: Allergen[] = ["gluten", "dairy", "eggs", "nuts", "peanuts", "soy", "fish", "shellfish", "sesame"];
+
+export type DietFilter = {
+  tags: DietaryTag[]; // all of them must apply
+  maxSpice: SpiceLevel | null;
+  excludeAllergens: Allergen[];
+};
+
+export const EMPTY_DIET_FILTER: DietFilter = { tags: [], maxSpice: null, excludeAllergens: [] };
+
+const FILTERS_KEY = "menu_frontend_diet_filters_v1";
+const GUEST = "*guest"; // "*" can't appear in a username
+
+const isDietaryTag = (v: unknown): v is DietaryTag => DIETARY_TAGS.includes(v as DietaryTag);
+const isAllergen = (v: unknown): v is Allergen => ALLERGENS.includes(v as Allergen);
+
+// Known tags only; a vegan dish is vegetarian too even if the kitchen didn't say so
+export function itemTags(item: Item): DietaryTag[] {
+  const tags = (item.tags ?? []).filter(isDietaryTag);
+  if (tags.includes("vegan") && !tags.includes("vegetarian")) tags.unshift("vegetarian");
+  return tags;
+}
+
+export function itemAllergens(item: Item): Allergen[] | undefined {
+  return item.allergens?.filter(isAllergen);
+}
+
+export function isDietFilterActive(filter: DietFilter): boolean {
+  return filter.tags.length > 0 || filter.maxSpice !== null || filter.excludeAllergens.length > 0;
+}
+
+export function matchesDietFilter(item: Item, filter: DietFilter): boolean {
+  const tags = itemTags(item);
+  if (!filter.tags.every(tag => tags.includes(tag))) return false;
+  if (filter.maxSpice !== null && (item.spiciness ?? 0) > filter.maxSpice) return false;
+  if (filter.excludeAllergens.length === 0) return true;
+  // without allergen data we can't promise the dish is safe, so it is hidden
+  const allergens = itemAllergens(item);
+  return allergens !== undefined && !allergens.some(a => filter.excludeAllergens.includes(a));
+}
+
+type FilterMap = Record<string, DietFilter>;
+
+function loadAll(): FilterMap {
+  try {
+    const raw = localStorage.getItem(FILTERS_KEY);
+    return raw ? JSON.parse(raw) as FilterMap : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveAll(filters: FilterMap) {
+  localStorage.setItem(FILTERS_KEY, JSON.stringify(filters));
+}
+
+const filterKey = (username: string | null) => (username ? username.trim().toLowerCase() : GUEST);
+
+// Drops anything a newer or older build wrote that this one doesn't understand
+function sanitize(stored: Partial<DietFilter> | undefined): DietFilter {
+  if (!stored) return EMPTY_DIET_FILTER;
+  const spice = stored.maxSpice;
+  return {
+    tags: Array.isArray(stored.tags) ? stored.tags.filter(isDietaryTag) : [],
+    maxSpice: spice === 0 || spice === 1 || spice === 2 || spice === 3 ? spice : null,
+    excludeAllergens: Array.isArray(stored.excludeAllergens) ? stored.excludeAllergens.filter(isAllergen) : [],
+  };
+}
+
+export function loadDietFilter(username: string | null): DietFilter {
+  return sanitize(loadAll()[filterKey(username)]);
+}
+
+export function saveDietFilter(username: string | null, filter: DietFilter) {
+  const all = loadAll();
+  if (isDietFilterActive(filter)) all[filterKey(username)] = filter;
+  else delete all[filterKey(username)];
+  saveAll(all);
+}
+
+export function clearDietFilter(username: string) {
+  saveDietFilter(username, EMPTY_DIET_FILTER);
+}
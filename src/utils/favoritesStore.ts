@@ -0,0 +1,50 @@
+// src/utils/favoritesStore.ts
+// Local copy of each user's favourite item ids, newest first. Guests only have
+// this copy; for accounts it renders instantly and holds changes the server
+// hasn't confirmed yet (dirty) until the next successful sync.
+
+export type FavoritesEntry = {
+  itemIds: string[];
+  dirty?: boolean;
+};
+
+const FAVORITES_KEY = "menu_frontend_favorites_v1";
+const GUEST = "*guest"; // "*" can't appear in a username
+
+type FavoritesMap = Record<string, FavoritesEntry>;
+
+function loadAll(): FavoritesMap {
+  try {
+    const raw = localStorage.getItem(FAVORITES_KEY);
+    return raw ? JSON.parse(raw) as FavoritesMap : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveAll(favorites: FavoritesMap) {
+  localStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
+}
+
+const ownerKey = (username: string | null) => (username ? username.trim().toLowerCase() : GUEST);
+
+export function loadFavorites(username: string | null): FavoritesEntry {
+  const entry = loadAll()[ownerKey(username)];
+  return Array.isArray(entry?.itemIds) ? entry : { itemIds: [] };
+}
+
+export function storeFavorites(username: string | null, entry: FavoritesEntry) {
+  const all = loadAll();
+  if (entry.itemIds.length > 0 || entry.dirty) all[ownerKey(username)] = entry;
+  else delete all[ownerKey(username)];
+  saveAll(all);
+}
+
+export function clearFavorites(username: string | null) {
+  storeFavorites(username, { itemIds: [] });
+}
+
+// Keeps the order of `first`, then appends what only `second` has
+export function mergeFavorites(first: string[], second: string[]): string[] {
+  return [...new Set([...first, ...second])];
+}
@@ -0,0 +1,80 @@
+// src/utils/gameProgress.ts
+// Per-user game state: Giraffe Jump best score and which daily riddles were played.
+// Keyed by lowercased username.
+
+type GameProgress = {
+  highScore: number;
+  riddlesPlayed: string[]; // riddle dates, newest last
+};
+
+const PROGRESS_KEY = "menu_frontend_games_v1";
+const LEGACY_HIGH_SCORE_KEY = "giraffeJumpHighScore"; // pre-account, shared by everyone on the device
+const RIDDLE_HISTORY_LIMIT = 30;
+
+type ProgressMap = Record<string, GameProgress>;
+
+function loadAll(): ProgressMap {
+  try {
+    const raw = localStorage.getItem(PROGRESS_KEY);
+    return raw ? JSON.parse(raw) as ProgressMap : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveAll(progress: ProgressMap) {
+  localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+}
+
+const progressKey = (username: string) => username.trim().toLowerCase();
+
+// The old best score was never tied to a user, so it goes to the first
+// account that loads after the upgrade and is then removed.
+function takeLegacyHighScore(): number {
+  const legacy = parseInt(localStorage.getItem(LEGACY_HIGH_SCORE_KEY) || "0", 10);
+  localStorage.removeItem(LEGACY_HIGH_SCORE_KEY);
+  return Number.isFinite(legacy) && legacy > 0 ? legacy : 0;
+}
+
+function load(username: string): GameProgress {
+  const all = loadAll();
+  const key = progressKey(username);
+  const stored = all[key] ?? { highScore: 0, riddlesPlayed: [] };
+  // guests don't claim it
+  if (!key || localStorage.getItem(LEGACY_HIGH_SCORE_KEY) === null) return stored;
+  const migrated = { ...stored, highScore: Math.max(stored.highScore, takeLegacyHighScore()) };
+  saveAll({ ...all, [key]: migrated });
+  return migrated;
+}
+
+function update(username: string, fn: (progress: GameProgress) => GameProgress) {
+  const next = fn(load(username));
+  saveAll({ ...loadAll(), [progressKey(username)]: next });
+  return next;
+}
+
+export function loadHighScore(username: string): number {
+  return load(username).highScore;
+}
+
+// Returns the best score after recording this one
+export function saveHighScore(username: string, score: number): number {
+  return update(username, p => score > p.highScore ? { ...p, highScore: Math.floor(score) } : p).highScore;
+}
+
+export function hasPlayedRiddle(username: string, date: string): boolean {
+  return load(username).riddlesPlayed.includes(date);
+}
+
+export function markRiddlePlayed(username: string, date: string) {
+  update(username, p => p.riddlesPlayed.includes(date) ? p : {
+    ...p,
+    riddlesPlayed: [...p.riddlesPlayed, date].slice(-RIDDLE_HISTORY_LIMIT),
+  });
+}
+
+export function clearGameProgress(username: string) {
+  const all = loadAll();
+  delete all[progressKey(username)];
+  saveAll(all);
+}
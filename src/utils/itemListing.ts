@@ -0,0 +1,82 @@
+// src/utils/itemListing.ts
+// Sorting and price-range filtering for item grids. The state lives in the URL
+// query (?sort=price_asc&min=200&max=500) so a filtered list can be shared.
+import type { Item } from "../types";
+import type { Lang } from "../i18n";
+
+export const SORT_KEYS = ["default", "price_asc", "price_desc", "popular", "newest", "name"] as const;
+export type SortKey = (typeof SORT_KEYS)[number];
+
+export type ListingParams = {
+  sort: SortKey;
+  min: number | null;
+  max: number | null;
+};
+
+export type PriceBounds = { min: number; max: number };
+
+export const PRICE_STEP = 10;
+
+const isSortKey = (v: string | null): v is SortKey => SORT_KEYS.includes(v as SortKey);
+
+function readAmount(value: string | null): number | null {
+  if (value === null || value.trim() === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+export function readListingParams(params: URLSearchParams): ListingParams {
+  const sort = params.get("sort");
+  return {
+    sort: isSortKey(sort) ? sort : "default",
+    min: readAmount(params.get("min")),
+    max: readAmount(params.get("max")),
+  };
+}
+
+// Writes the listing state back, leaving unrelated params (category, ...) alone
+export function writeListingParams(params: URLSearchParams, listing: ListingParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const set = (name: string, value: string | null) => (value === null ? next.delete(name) : next.set(name, value));
+  set("sort", listing.sort === "default" ? null : listing.sort);
+  set("min", listing.min === null ? null : String(listing.min));
+  set("max", listing.max === null ? null : String(listing.max));
+  return next;
+}
+
+// Slider range for a list, widened to whole steps; null when nothing has a price
+export function priceBounds(items: Item[]): PriceBounds | null {
+  const prices = items.map(it => it.price).filter((p): p is number => p !== undefined);
+  if (prices.length === 0) return null;
+  return {
+    min: Math.floor(Math.min(...prices) / PRICE_STEP) * PRICE_STEP,
+    max: Math.ceil(Math.max(...prices) / PRICE_STEP) * PRICE_STEP,
+  };
+}
+
+// Items without a price only survive an unrestricted range
+export function inPriceRange(item: Item, { min, max }: ListingParams): boolean {
+  if (min === null && max === null) return true;
+  if (item.price === undefined) return false;
+  return (min === null || item.price >= min) && (max === null || item.price <= max);
+}
+
+const timeOf = (item: Item) => {
+  const t = item.createdAt ? Date.parse(item.createdAt) : NaN;
+  return Number.isNaN(t) ? -Infinity : t;
+};
+
+// Stable: ties (and items missing the sorted field) keep the backend order
+export function sortItems(items: Item[], sort: SortKey, lang: Lang): Item[] {
+  if (sort === "default") return items;
+  const collator = new Intl.Collator(lang, { sensitivity: "base", numeric: true });
+  const compare: Record<Exclude<SortKey, "default">, (a: Item, b: Item) => number> = {
+    price_asc: (a, b) => (a.price ?? Infinity) - (b.price ?? Infinity),
+    price_desc: (a, b) => (b.price ?? -Infinity) - (a.price ?? -Infinity),
+    popular: (a, b) => (b.popularity ?? 0) - (a.popularity ?? 0),
+    newest: (a, b) => timeOf(b) - timeOf(a),
+    name: (a, b) => collator.compare(a.title, b.title),
+  };
+  // Infinity - Infinity is NaN; treat it as a tie
+  return [...items].sort((a, b) => compare[sort](a, b) || 0);
+}
@@ -0,0 +1,94 @@
+// src/utils/itemOptions.ts
+// Variant and modifier choices for one item: defaults, live price, validation,
+// and the key that tells two differently configured cart lines apart.
+import type { Item, ItemOption, ItemSelection, ModifierGroup } from "../types";
+import type { TranslateParams, TranslationKey } from "../i18n";
+
+export type { ItemSelection };
+
+export type GroupError = { groupId: string; key: TranslationKey; params?: TranslateParams };
+
+export const hasOptions = (item: Item) =>
+  (item.variants?.length ?? 0) > 0 || (item.modifiers?.length ?? 0) > 0;
+
+export function defaultSelection(item: Item): ItemSelection {
+  const variants: Record<string, string> = {};
+  for (const group of item.variants ?? []) {
+    const preferred = group.options.find(o => o.id === group.defaultOptionId) ?? group.options[0];
+    variants[group.id] = preferred.id;
+  }
+  return { variants, modifiers: {} };
+}
+
+// Every chosen option, variants first, in menu order
+export function chosenOptions(item: Item, selection: ItemSelection): ItemOption[] {
+  const variantOptions = (item.variants ?? []).flatMap(group =>
+    group.options.filter(o => selection.variants[group.id] === o.id));
+  const modifierOptions = (item.modifiers ?? []).flatMap(group =>
+    group.options.filter(o => selection.modifiers[group.id]?.includes(o.id)));
+  return [...variantOptions, ...modifierOptions];
+}
+
+export function unitPrice(item: Item, selection: ItemSelection): number {
+  const base = item.price ?? 0;
+  if (base <= 0) return 0;
+  // a negative delta (small size) can never make the dish free
+  return Math.max(0, chosenOptions(item, selection).reduce((sum, o) => sum + o.priceDelta, base));
+}
+
+// Ticking a box in a pick-one group swaps the choice; in a full group it does nothing
+export function toggleModifier(
+  selection: ItemSelection,
+  group: ModifierGroup,
+  optionId: string,
+): ItemSelection {
+  const current = selection.modifiers[group.id] ?? [];
+  let next: string[];
+  if (current.includes(optionId)) next = current.filter(id => id !== optionId);
+  else if (group.max === 1) next = [optionId];
+  else if (current.length >= group.max) return selection;
+  else next = group.options.map(o => o.id).filter(id => id === optionId || current.includes(id));
+  return { ...selection, modifiers: { ...selection.modifiers, [group.id]: next } };
+}
+
+export function validateSelection(item: Item, selection: ItemSelection): GroupError[] {
+  const errors: GroupError[] = [];
+  for (const group of item.variants ?? []) {
+    if (!group.options.some(o => o.id === selection.variants[group.id])) {
+      errors.push({ groupId: group.id, key: "options.error.required" });
+    }
+  }
+  for (const group of item.modifiers ?? []) {
+    const count = selection.modifiers[group.id]?.length ?? 0;
+    if (count < group.min) {
+      errors.push(group.min === 1
+        ? { groupId: group.id, key: "options.error.required" }
+        : { groupId: group.id, key: "options.error.min", params: { min: group.min } });
+    } else if (count > group.max) {
+      errors.push({ groupId: group.id, key: "options.error.max", params: { max: group.max } });
+    }
+  }
+  return errors;
+}
+
+// Every option id the selection names exists and the choice is valid; what a
+// reorder or the backend checks before trusting a stored or submitted selection
+export function isOffered(item: Item, selection: ItemSelection): boolean {
+  const named = Object.keys(selection.variants).length
+    + Object.values(selection.modifiers).reduce((sum, ids) => sum + (ids?.length ?? 0), 0);
+  return chosenOptions(item, selection).length === named && validateSelection(item, selection).length === 0;
+}
+
+// "42|size=l|extras=cheese,bacon"; the plain id when nothing was chosen, which
+// matches cart lines saved before items had options
+export function selectionKey(item: Item, selection: ItemSelection): string {
+  const parts = [String(item.id)];
+  for (const group of item.variants ?? []) {
+    if (selection.variants[group.id]) parts.push(`${group.id}=${selection.variants[group.id]}`);
+  }
+  for (const group of item.modifiers ?? []) {
+    const ids = selection.modifiers[group.id] ?? [];
+    if (ids.length > 0) parts.push(`${group.id}=${ids.join(",")}`);
+  }
+  return parts.join("|");
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { NO_INPUT, createGame, finalScore, step, type GameState, type JumpInput } from "./jumpEngine";
+
+const W = 420;
+const H = 600;
+
+// Two seconds of holding left, two of holding right, and so on
+const zigzag = (tick: number): JumpInput => {
+  const left = Math.floor(tick / 120) % 2 === 0;
+  return { left, right: !left };
+};
+
+function play(seed: number, input: (tick: number) => JumpInput, maxTicks = 10_000): GameState {
+  const s = createGame(seed, W, H);
+  while (!s.player.isDead && s.tick < maxTicks) step(s, input(s.tick));
+  return s;
+}
+
+describe("jumpEngine", () => {
+  it("plays a scripted run on seed 1 to the same end every time", () => {
+    const s = play(1, zigzag);
+    expect(s.player.isDead).toBe(true);
+    expect(s.tick).toBe(2061);
+    expect(finalScore(s)).toBe(1060);
+  });
+
+  it("reproduces the whole state from the seed and the input", () => {
+    expect(JSON.stringify(play(7, zigzag))).toBe(JSON.stringify(play(7, zigzag)));
+  });
+
+  it("lays out a different field for a different seed", () => {
+    const layout = (seed: number) => createGame(seed, W, H).platforms.map(p => [p.x, p.type]);
+    expect(layout(1)).toEqual(layout(1));
+    expect(layout(1)).not.toEqual(layout(2));
+  });
+
+  it("treats seeds as unsigned 32-bit numbers", () => {
+    expect(JSON.stringify(play(-1, zigzag))).toBe(JSON.stringify(play(0xffffffff, zigzag)));
+  });
+
+  it("starts on a safe platform and keeps bouncing without input", () => {
+    const s = play(1, () => NO_INPUT, 600);
+    expect(s.player.isDead).toBe(false);
+    expect(s.tick).toBe(600);
+  });
+
+  it("does nothing once the player is dead", () => {
+    const s = play(1, zigzag);
+    const before = JSON.stringify(s);
+    step(s, { left: true, right: false });
+    expect(JSON.stringify(s)).toBe(before);
+  });
+
+  it("credits whole points only", () => {
+    const s = play(3, zigzag, 300);
+    expect(finalScore(s)).toBe(Math.floor(s.score));
+  });
+});
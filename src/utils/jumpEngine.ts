@@ -0,0 +1,389 @@
+// src/utils/jumpEngine.ts
+// Giraffe Jump simulation: platforms, power-ups, physics and scoring.
+// No DOM, no React and no Math.random() - every run is reproduced exactly
+// from its seed, the field size and the input of each tick.
+
+export type PlatformType = 1 | 2 | 3 | 4 | 5; // normal, moving, bouncy, breakable, disappearing
+
+export interface Platform {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  vx: number;
+  type: PlatformType;
+  isBreakable: boolean;
+  isDisappearing: boolean;
+  disappearTimer: number;
+  hasPowerUp?: boolean;
+}
+
+export type PowerUpType = "jetpack" | "spring" | "rocket" | "shield";
+
+export interface PowerUp {
+  x: number;
+  y: number;
+  type: PowerUpType;
+  width: number;
+  height: number;
+  activeTime: number;
+}
+
+export interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  size: number;
+  color: string;
+  life: number;
+  maxLife: number;
+}
+
+export interface Player {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  width: number;
+  height: number;
+  isDead: boolean;
+  hasJetpack: boolean;
+  jetpackFuel: number;
+  hasShield: boolean;
+  shieldTimer: number;
+  rocketBoost: number;
+  isInvincible: boolean;
+  invincibleTimer: number;
+}
+
+export interface GameState {
+  W: number;
+  H: number;
+  rng: number; // PRNG state, advanced by every random draw
+  tick: number;
+  player: Player;
+  platforms: Platform[];
+  powerUps: PowerUp[];
+  particles: Particle[];
+  scrollThreshold: number;
+  score: number; // fractional; show and credit Math.floor(score)
+  base: { x: number; y: number; width: number; height: number };
+  time: number; // seconds of play
+}
+
+// What the player holds down during one tick
+export type JumpInput = {
+  left: boolean;
+  right: boolean;
+};
+
+export const NO_INPUT: JumpInput = { left: false, right: false };
+
+// Simulated time per step(). Speeds and accelerations in this file are per
+// tick, so the game plays the same whatever the display's frame rate.
+export const TICK_SECONDS = 1 / 60;
+
+export const POWER_UP_COLORS: Record<PowerUpType, string> = {
+  jetpack: "#FF6B6B",
+  spring: "#4ECDC4",
+  rocket: "#45B7D1",
+  shield: "#96CEB4",
+};
+
+const GRAVITY = 0.25;
+const PLATFORM_COUNT = 15;
+const PLATFORM_HEIGHT = 16;
+const MAX_PARTICLES_PER_BURST = 8;
+const REMOVED_Y = -1000; // broken and vanished platforms are parked off-screen
+const POWER_UP_TYPES: PowerUpType[] = ["jetpack", "spring", "rocket", "shield"];
+
+// mulberry32: a 32-bit state is enough for a game and keeps GameState plain JSON
+function random(s: GameState): number {
+  s.rng = (s.rng + 0x6d2b79f5) | 0;
+  let t = s.rng;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export const normalizeSeed = (seed: number) => seed >>> 0;
+
+function burst(s: GameState, x: number, y: number, count: number, color: string) {
+  const actualCount = Math.min(count, MAX_PARTICLES_PER_BURST);
+  for (let i = 0; i < actualCount; i++) {
+    s.particles.push({
+      x: x + random(s) * 10 - 5,
+      y: y + random(s) * 10 - 5,
+      vx: random(s) * 3 - 1.5,
+      vy: random(s) * 3 - 1.5,
+      size: random(s) * 2 + 1,
+      color,
+      life: 1,
+      maxLife: 0.5 + random(s) * 0.3,
+    });
+  }
+}
+
+export function createGame(seed: number, W: number, H: number): GameState {
+  const player: Player = {
+    x: W / 2 - 27,
+    y: H - 220,
+    vx: 0,
+    vy: 8,
+    width: 80,
+    height: 80,
+    isDead: false,
+    hasJetpack: false,
+    jetpackFuel: 0,
+    hasShield: false,
+    shieldTimer: 0,
+    rocketBoost: 0,
+    isInvincible: false,
+    invincibleTimer: 0,
+  };
+
+  const s: GameState = {
+    W,
+    H,
+    rng: normalizeSeed(seed),
+    tick: 0,
+    player,
+    platforms: [],
+    powerUps: [],
+    particles: [],
+    scrollThreshold: H * 0.36,
+    score: 0,
+    base: { x: 0, y: H - 6, width: W, height: 6 },
+    time: 0,
+  };
+
+  // Evenly spaced platforms of every type over the first screen
+  let y = 30;
+  for (let i = 0; i < PLATFORM_COUNT; i++) {
+    const pw = 50 + random(s) * 30;
+    const type = (Math.floor(random(s) * 5) + 1) as PlatformType;
+    const isBreakable = type === 4 && random(s) > 0.7;
+    const isDisappearing = type === 5 && random(s) > 0.5;
+    s.platforms.push({
+      x: random(s) * (W - pw),
+      y,
+      width: pw,
+      height: PLATFORM_HEIGHT,
+      vx: random(s) > 0.85 ? (random(s) > 0.5 ? 1.5 : -1.5) : 0,
+      type,
+      isBreakable,
+      isDisappearing,
+      disappearTimer: 0,
+      hasPowerUp: random(s) > 0.85,
+    });
+    y += H / (PLATFORM_COUNT - 1);
+  }
+
+  // A safe platform right under the starting position
+  s.platforms.push({
+    x: Math.max(10, player.x - 10),
+    y: player.y + player.height + 8,
+    width: 80,
+    height: PLATFORM_HEIGHT,
+    vx: 0,
+    type: 1,
+    isBreakable: false,
+    isDisappearing: false,
+    disappearTimer: 0,
+  });
+
+  return s;
+}
+
+// A platform that scrolled off the bottom comes back above the top as a new one
+function recycle(s: GameState, pl: Platform) {
+  pl.x = random(s) * (s.W - pl.width);
+  pl.y = -20 - random(s) * 50;
+
+  const rand = random(s);
+  if (rand > 0.85) pl.type = random(s) > 0.5 ? 4 : 5;
+  else if (rand > 0.7) pl.type = 3;
+  else if (rand > 0.5) pl.type = 2;
+  else pl.type = 1;
+
+  pl.isBreakable = pl.type === 4 && random(s) > 0.5;
+  pl.isDisappearing = pl.type === 5 && random(s) > 0.5;
+  pl.disappearTimer = 0;
+  pl.vx = pl.type === 2 && random(s) > 0.6 ? (random(s) > 0.5 ? 1 : -1) : 0;
+  pl.width = 50 + random(s) * 30;
+  pl.hasPowerUp = random(s) > 0.92;
+}
+
+function land(s: GameState, pl: Platform) {
+  const p = s.player;
+  if (pl.type === 3) {
+    p.vy = -13;
+    s.score += 5;
+  } else if (pl.type === 4 && pl.isBreakable) {
+    p.vy = -10;
+    pl.y = REMOVED_Y;
+    burst(s, pl.x + pl.width / 2, pl.y, 8, "#FF6B6B");
+  } else if (pl.type === 5 && pl.isDisappearing) {
+    p.vy = -10;
+    pl.disappearTimer = 0.1;
+  } else {
+    p.vy = -10;
+  }
+
+  s.score += 3;
+  burst(s, p.x + p.width / 2, p.y + p.height, 5, "#4ECDC4");
+
+  if (pl.hasPowerUp && random(s) > 0.7) {
+    const type = POWER_UP_TYPES[Math.floor(random(s) * POWER_UP_TYPES.length)];
+    s.powerUps.push({
+      x: pl.x + pl.width / 2 - 15,
+      y: pl.y - 30,
+      type,
+      width: 30,
+      height: 30,
+      activeTime: type === "jetpack" ? 5 : type === "shield" ? 10 : 0,
+    });
+    pl.hasPowerUp = false;
+  }
+}
+
+function collect(s: GameState, powerUp: PowerUp) {
+  const p = s.player;
+  switch (powerUp.type) {
+    case "jetpack":
+      p.hasJetpack = true;
+      p.jetpackFuel = 3;
+      break;
+    case "spring":
+      p.vy = -20;
+      break;
+    case "rocket":
+      p.rocketBoost = 1;
+      break;
+    case "shield":
+      p.hasShield = true;
+      p.shieldTimer = 10;
+      break;
+  }
+  powerUp.activeTime = -1;
+  s.score += 20;
+  burst(s, powerUp.x + 15, powerUp.y + 15, 10, POWER_UP_COLORS[powerUp.type]);
+}
+
+// Advances the game by one TICK_SECONDS tick, mutating `s`. Does nothing once the player is dead.
+export function step(s: GameState, input: JumpInput): void {
+  const p = s.player;
+  if (p.isDead) return;
+  s.tick++;
+  s.time += TICK_SECONDS;
+
+  s.powerUps = s.powerUps.filter(powerUp => {
+    powerUp.activeTime -= TICK_SECONDS;
+    return powerUp.activeTime > 0;
+  });
+
+  if (p.hasShield) {
+    p.shieldTimer -= TICK_SECONDS;
+    if (p.shieldTimer <= 0) p.hasShield = false;
+  }
+  if (p.isInvincible) {
+    p.invincibleTimer -= TICK_SECONDS;
+    if (p.invincibleTimer <= 0) p.isInvincible = false;
+  }
+  if (p.hasJetpack && p.jetpackFuel > 0) {
+    p.vy = Math.max(p.vy - 0.5, -20);
+    p.jetpackFuel -= TICK_SECONDS;
+    if (p.jetpackFuel <= 0) p.hasJetpack = false;
+  }
+  if (p.rocketBoost > 0) {
+    p.vy = -18;
+    p.rocketBoost -= TICK_SECONDS;
+  }
+
+  // Horizontal movement with acceleration, wrapping around the edges
+  if (input.left) p.vx = Math.max(p.vx - 0.8, -10);
+  else if (input.right) p.vx = Math.min(p.vx + 0.8, 10);
+  else p.vx *= 0.85;
+  p.x += p.vx;
+  if (p.x > s.W) p.x = -p.width;
+  if (p.x < -p.width) p.x = s.W;
+
+  p.y += p.vy;
+  p.vy += GRAVITY * (p.hasJetpack ? 0.3 : 1);
+
+  s.particles = s.particles.filter(particle => {
+    particle.x += particle.vx;
+    particle.y += particle.vy;
+    particle.vy += 0.1;
+    particle.life -= TICK_SECONDS;
+    return particle.life > 0;
+  });
+
+  // Climbing past the threshold scrolls the world down and scores the height
+  if (p.y < s.scrollThreshold) {
+    const scroll = s.scrollThreshold - p.y;
+    p.y = s.scrollThreshold;
+    for (const pl of s.platforms) pl.y += scroll;
+    for (const powerUp of s.powerUps) powerUp.y += scroll;
+    s.base.y += scroll;
+    s.score += scroll * 0.2;
+  }
+
+  for (const pl of s.platforms) {
+    if (pl.isDisappearing) {
+      pl.disappearTimer += TICK_SECONDS;
+      if (pl.disappearTimer > 1) {
+        if (pl.y !== REMOVED_Y) {
+          burst(s, pl.x + pl.width / 2, pl.y, 8, "#FF6B6B");
+          pl.y = REMOVED_Y;
+        }
+        continue;
+      }
+    }
+
+    if (pl.vx) {
+      pl.x += pl.vx;
+      if (pl.x < 0 || pl.x + pl.width > s.W) pl.vx *= -1;
+    }
+
+    // Only a falling player lands, and only on the top edge
+    if (
+      p.vy > 0 &&
+      p.x < pl.x + pl.width &&
+      p.x + p.width > pl.x &&
+      p.y + p.height > pl.y &&
+      p.y + p.height < pl.y + pl.height + 10
+    ) {
+      land(s, pl);
+    }
+
+    if (pl.y > s.H + 40) recycle(s, pl);
+  }
+
+  for (const powerUp of s.powerUps) {
+    if (
+      p.x < powerUp.x + powerUp.width &&
+      p.x + p.width > powerUp.x &&
+      p.y < powerUp.y + powerUp.height &&
+      p.y + p.height > powerUp.y
+    ) {
+      collect(s, powerUp);
+    }
+  }
+
+  // Falling off the bottom ends the run unless a shield throws the player back up
+  if (p.y > s.H + 60) {
+    if (p.hasShield) {
+      p.hasShield = false;
+      p.y = s.H - 100;
+      p.vy = -15;
+      p.isInvincible = true;
+      p.invincibleTimer = 2;
+    } else {
+      p.isDead = true;
+    }
+  }
+}
+
+export const finalScore = (s: GameState) => Math.floor(s.score);
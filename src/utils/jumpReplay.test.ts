@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { createGame, finalScore, step, type JumpInput } from "./jumpEngine";
+import { REPLAY_LIMITS, recordInput, replayTicks, startReplay, verifyReplay, type JumpReplay } from "./jumpReplay";
+
+const zigzag = (tick: number): JumpInput => {
+  const left = Math.floor(tick / 120) % 2 === 0;
+  return { left, right: !left };
+};
+
+// Plays a run the way the game does and returns what it would submit
+function recordRun(seed = 1, width = 420, height = 600): { replay: JumpReplay; score: number } {
+  const state = createGame(seed, width, height);
+  const replay = startReplay(seed, width, height);
+  while (!state.player.isDead) {
+    const input = zigzag(state.tick);
+    step(state, input);
+    recordInput(replay, input);
+  }
+  return { replay, score: finalScore(state) };
+}
+
+describe("recordInput", () => {
+  it("stores runs of the same input as [code, ticks] pairs", () => {
+    const replay = startReplay(1, 420, 600);
+    for (const input of [
+      { left: true, right: false },
+      { left: true, right: false },
+      { left: false, right: false },
+      { left: false, right: true },
+      { left: false, right: true },
+      { left: false, right: true },
+    ]) recordInput(replay, input);
+    expect(replay.inputs).toEqual([1, 2, 0, 1, 2, 3]);
+    expect(replayTicks(replay)).toBe(6);
+  });
+});
+
+describe("verifyReplay", () => {
+  it("accepts a recorded run with its score", () => {
+    const { replay, score } = recordRun();
+    expect(verifyReplay(replay, score)).toEqual({ ok: true, score, ticks: replayTicks(replay) });
+  });
+
+  it("survives a trip through JSON", () => {
+    const { replay, score } = recordRun(42);
+    expect(verifyReplay(JSON.parse(JSON.stringify(replay)), score).ok).toBe(true);
+  });
+
+  it("rejects a claimed score the replay does not reach", () => {
+    const { replay, score } = recordRun();
+    expect(verifyReplay(replay, score + 1)).toEqual({ ok: false, reason: "score_mismatch" });
+  });
+
+  it("rejects input recorded after the player died", () => {
+    const { replay, score } = recordRun();
+    const padded = { ...replay, inputs: [...replay.inputs, 0, 1] };
+    expect(verifyReplay(padded, score)).toEqual({ ok: false, reason: "ticks_after_death" });
+  });
+
+  it("rejects a run cut off before the player died", () => {
+    const { replay, score } = recordRun();
+    const inputs = [...replay.inputs];
+    if (inputs[inputs.length - 1] > 1) inputs[inputs.length - 1]--;
+    else inputs.splice(-2);
+    expect(verifyReplay({ ...replay, inputs }, score)).toEqual({ ok: false, reason: "still_alive" });
+  });
+
+  it.each([
+    ["too narrow", REPLAY_LIMITS.minWidth - 1, 600],
+    ["too wide", REPLAY_LIMITS.maxWidth + 1, 600],
+    ["too short", 420, REPLAY_LIMITS.minHeight - 1],
+    ["too tall", 420, REPLAY_LIMITS.maxHeight + 1],
+  ])("rejects a field that is %s", (_, width, height) => {
+    const { replay, score } = recordRun();
+    expect(verifyReplay({ ...replay, width, height }, score)).toEqual({ ok: false, reason: "bad_field_size" });
+  });
+
+  it("rejects a replay longer than the limit before simulating it", () => {
+    const replay: JumpReplay = { ...startReplay(1, 420, 600), inputs: [0, REPLAY_LIMITS.maxTicks + 1] };
+    expect(verifyReplay(replay, 0)).toEqual({ ok: false, reason: "too_long" });
+  });
+
+  it("rejects a replay from another version", () => {
+    const { replay, score } = recordRun();
+    expect(verifyReplay({ ...replay, version: replay.version + 1 }, score)).toEqual({
+      ok: false,
+      reason: "unsupported_version",
+    });
+  });
+
+  it.each([
+    ["nothing", null],
+    ["a string", "replay"],
+    ["a missing seed", { version: 1, width: 420, height: 600, inputs: [] }],
+    ["a negative seed", { version: 1, seed: -1, width: 420, height: 600, inputs: [] }],
+    ["a seed past 32 bits", { version: 1, seed: 2 ** 32, width: 420, height: 600, inputs: [] }],
+    ["a fractional width", { version: 1, seed: 1, width: 420.5, height: 600, inputs: [] }],
+    ["an odd-length input log", { version: 1, seed: 1, width: 420, height: 600, inputs: [0] }],
+    ["an unknown input code", { version: 1, seed: 1, width: 420, height: 600, inputs: [4, 10] }],
+    ["an empty run", { version: 1, seed: 1, width: 420, height: 600, inputs: [0, 0] }],
+    ["a fractional run", { version: 1, seed: 1, width: 420, height: 600, inputs: [0, 1.5] }],
+  ])("rejects %s as malformed", (_, value) => {
+    expect(verifyReplay(value, 0)).toEqual({ ok: false, reason: "malformed" });
+  });
+});
@@ -0,0 +1,98 @@
+// src/utils/jumpReplay.ts
+// Giraffe Jump replays: the seed, the field size and what was held down on
+// every tick. The engine is deterministic, so re-running a replay reproduces
+// the run exactly and the score can be checked instead of trusted. Shared by
+// the game (recording) and the backend (verifying).
+import { createGame, finalScore, step, type JumpInput } from "./jumpEngine";
+
+export const REPLAY_VERSION = 1;
+
+export type JumpReplay = {
+  version: number;
+  seed: number;
+  width: number;
+  height: number;
+  // Run-length input log: [code, ticks, code, ticks, ...] with code = left | right << 1
+  inputs: number[];
+};
+
+// Bounds a real canvas can have (see FullScreenDoodleJump's resizeCanvas); a
+// huge field makes the game trivial, a tiny one is not something we render.
+export const REPLAY_LIMITS = {
+  minWidth: 240,
+  maxWidth: 900,
+  minHeight: 320,
+  maxHeight: 1400,
+  maxTicks: 60 * 60 * 60, // an hour of play
+};
+
+export type ReplayRejection =
+  | "malformed"
+  | "unsupported_version"
+  | "bad_field_size"
+  | "too_long"
+  | "still_alive"
+  | "ticks_after_death"
+  | "score_mismatch";
+
+export type ReplayVerdict =
+  | { ok: true; score: number; ticks: number }
+  | { ok: false; reason: ReplayRejection };
+
+const encode = (input: JumpInput) => (input.left ? 1 : 0) | (input.right ? 2 : 0);
+const decode = (code: number): JumpInput => ({ left: (code & 1) !== 0, right: (code & 2) !== 0 });
+
+export function startReplay(seed: number, width: number, height: number): JumpReplay {
+  return { version: REPLAY_VERSION, seed, width, height, inputs: [] };
+}
+
+// Appends the input of one tick, extending the last run when it is unchanged
+export function recordInput(replay: JumpReplay, input: JumpInput) {
+  const code = encode(input);
+  const { inputs } = replay;
+  if (inputs.length > 0 && inputs[inputs.length - 2] === code) inputs[inputs.length - 1]++;
+  else inputs.push(code, 1);
+}
+
+export const replayTicks = (replay: JumpReplay) =>
+  replay.inputs.reduce((sum, value, index) => (index % 2 ? sum + value : sum), 0);
+
+const isUint32 = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 0xffffffff;
+
+// Shape only; what the replay plays out to is verifyReplay's job
+export function isJumpReplay(value: unknown): value is JumpReplay {
+  const r = value as Partial<JumpReplay> | null;
+  if (!r || typeof r !== "object" || !Number.isInteger(r.version)) return false;
+  if (!isUint32(r.seed) || !Number.isInteger(r.width) || !Number.isInteger(r.height)) return false;
+  if (!Array.isArray(r.inputs) || r.inputs.length % 2 !== 0) return false;
+  return r.inputs.every((v, i) => (i % 2 ? Number.isInteger(v) && v > 0 : v === 0 || v === 1 || v === 2 || v === 3));
+}
+
+// Re-simulates the run and accepts it only if the player dies on exactly the
+// last recorded tick with the claimed score.
+export function verifyReplay(value: unknown, claimedScore: number): ReplayVerdict {
+  if (!isJumpReplay(value)) return { ok: false, reason: "malformed" };
+  const replay = value;
+  if (replay.version !== REPLAY_VERSION) return { ok: false, reason: "unsupported_version" };
+
+  const { minWidth, maxWidth, minHeight, maxHeight, maxTicks } = REPLAY_LIMITS;
+  if (replay.width < minWidth || replay.width > maxWidth || replay.height < minHeight || replay.height > maxHeight) {
+    return { ok: false, reason: "bad_field_size" };
+  }
+  const ticks = replayTicks(replay);
+  if (ticks > maxTicks) return { ok: false, reason: "too_long" };
+
+  const state = createGame(replay.seed, replay.width, replay.height);
+  for (let i = 0; i < replay.inputs.length; i += 2) {
+    const input = decode(replay.inputs[i]);
+    for (let n = 0; n < replay.inputs[i + 1]; n++) {
+      if (state.player.isDead) return { ok: false, reason: "ticks_after_death" };
+      step(state, input);
+    }
+  }
+  if (!state.player.isDead) return { ok: false, reason: "still_alive" };
+
+  const score = finalScore(state);
+  if (score !== claimedScore) return { ok: false, reason: "score_mismatch" };
+  return { ok: true, score, ticks };
+}
@@ -0,0 +1,200 @@
+// src/utils/loyaltyWallet.ts
+// Loyalty wallet rules: how game points turn into a percent discount, when it
+// expires and what spending it does. Pure functions over a wallet value; the
+// backend owns the stored wallets and the client only displays them.
+// The one exception is the balance this device kept before that, which is
+// read here so it can be handed to the server once.
+import type { LoyaltyWallet, WalletClaim, WalletEvent, WalletEventSource } from "../types";
+
+export type { LoyaltyWallet, WalletClaim, WalletEvent, WalletEventSource };
+
+export const WALLET_CONFIG = {
+  pointsPerPercent: 100, // 100 points = 1% discount
+  maxPercent: 100,
+  validityDays: 7,
+  guessPercent: 5,
+  historyLimit: 50,
+  migrationMaxPercent: 10, // the most a balance carried over from a device is worth
+};
+
+// Where wallets used to be kept before the server owned them
+const DEVICE_WALLETS_KEY = "menu_frontend_wallets_v1";
+const LEGACY_GAME_KEY = "user_discount"; // pre-wallet games/CabinetPage store
+
+const addDaysISO = (days: number, from = new Date()) => {
+  const d = new Date(from);
+  d.setDate(d.getDate() + days);
+  return d.toISOString();
+};
+
+export const emptyWallet = (username: string): LoyaltyWallet => ({
+  username,
+  points: 0,
+  percent: 0,
+  expiresAt: null,
+  history: [],
+});
+
+function pushEvent(wallet: LoyaltyWallet, event: Omit<WalletEvent, "at">): LoyaltyWallet {
+  const history = [{ ...event, at: new Date().toISOString() }, ...wallet.history].slice(0, WALLET_CONFIG.historyLimit);
+  return { ...wallet, history };
+}
+
+export function isWalletExpired(wallet: LoyaltyWallet, now = new Date()) {
+  return !wallet.expiresAt || new Date(wallet.expiresAt).getTime() <= now.getTime();
+}
+
+export function daysLeft(wallet: LoyaltyWallet, now = new Date()) {
+  if (isWalletExpired(wallet, now)) return 0;
+  return Math.ceil((new Date(wallet.expiresAt!).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+// Expired balances are cleared (and logged) instead of silently lingering.
+export function applyExpiry(wallet: LoyaltyWallet, now = new Date()): LoyaltyWallet {
+  if (!wallet.expiresAt || !isWalletExpired(wallet, now)) return wallet;
+  const cleared = { ...wallet, points: 0, percent: 0, expiresAt: null };
+  if (wallet.percent <= 0 && wallet.points <= 0) return cleared;
+  return pushEvent(cleared, { type: "expire", source: "system", points: wallet.points, percent: wallet.percent });
+}
+
+// At the cap nothing is added and the expiry is not extended.
+function earn(wallet: LoyaltyWallet, points: number, bonusPercent: number, source: WalletEventSource): LoyaltyWallet {
+  if (wallet.percent >= WALLET_CONFIG.maxPercent) return wallet;
+  const { pointsPerPercent, maxPercent, validityDays } = WALLET_CONFIG;
+  const totalPoints = wallet.points + points;
+  const fromPoints = Math.floor(totalPoints / pointsPerPercent) - Math.floor(wallet.points / pointsPerPercent);
+  const percent = Math.min(maxPercent, wallet.percent + fromPoints + bonusPercent);
+  const next: LoyaltyWallet = {
+    ...wallet,
+    points: totalPoints,
+    percent,
+    expiresAt: percent > 0 ? addDaysISO(validityDays) : wallet.expiresAt,
+  };
+  return pushEvent(next, { type: "earn", source, points, percent: percent - wallet.percent });
+}
+
+export function earnPoints(wallet: LoyaltyWallet, points: number, source: WalletEventSource = "jump") {
+  const safe = Math.max(0, Math.floor(points));
+  return safe === 0 ? wallet : earn(wallet, safe, 0, source);
+}
+
+export function earnPercent(wallet: LoyaltyWallet, percent: number, source: WalletEventSource = "guess") {
+  return percent > 0 ? earn(wallet, 0, percent, source) : wallet;
+}
+
+// A device balance carried over by the server. It could have been edited by
+// hand, so it is capped and lasts no longer than a freshly earned discount.
+export function foldClaim(wallet: LoyaltyWallet, claim: WalletClaim, now = new Date()): LoyaltyWallet {
+  const { pointsPerPercent, maxPercent, migrationMaxPercent, validityDays } = WALLET_CONFIG;
+  const latest = addDaysISO(validityDays, now);
+  const claimed = new Date(claim.expiresAt).toISOString();
+  const expiresAt = claimed < latest ? claimed : latest;
+  const points = Math.min(Math.max(0, Math.floor(claim.points)), migrationMaxPercent * pointsPerPercent);
+  const percent = Math.min(Math.max(0, Math.floor(claim.percent)), migrationMaxPercent);
+  if (expiresAt <= now.toISOString() || (points <= 0 && percent <= 0)) return wallet;
+  const merged: LoyaltyWallet = {
+    ...wallet,
+    points: wallet.points + points,
+    percent: Math.min(maxPercent, Math.max(wallet.percent, percent)),
+    expiresAt: wallet.expiresAt && wallet.expiresAt > expiresAt ? wallet.expiresAt : expiresAt,
+  };
+  return pushEvent(merged, { type: "earn", source: "migration", points, percent: merged.percent - wallet.percent });
+}
+
+// Spending clears the points too, otherwise the next earn would
+// recompute the spent discount from the leftover points.
+export function spendDiscount(wallet: LoyaltyWallet): LoyaltyWallet {
+  if (wallet.percent <= 0) return wallet;
+  return pushEvent(
+    { ...wallet, points: 0, percent: 0, expiresAt: null },
+    { type: "spend", source: "order", points: wallet.points, percent: wallet.percent },
+  );
+}
+
+type DeviceWallet = Pick<LoyaltyWallet, "points" | "percent" | "expiresAt">;
+type DeviceWalletMap = Record<string, DeviceWallet>;
+
+type LegacyGameDiscount = {
+  pointsEarned?: number;
+  totalDiscount?: number;
+  expirationDate?: string;
+};
+
+export type LegacyAuthDiscount = {
+  amount: number;
+  expiresAt: string | null;
+};
+
+function loadDeviceWallets(): DeviceWalletMap {
+  try {
+    const raw = localStorage.getItem(DEVICE_WALLETS_KEY);
+    return raw ? JSON.parse(raw) as DeviceWalletMap : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveDeviceWallets(wallets: DeviceWalletMap) {
+  if (Object.keys(wallets).length > 0) localStorage.setItem(DEVICE_WALLETS_KEY, JSON.stringify(wallets));
+  else localStorage.removeItem(DEVICE_WALLETS_KEY);
+}
+
+const walletKey = (username: string) => username.trim().toLowerCase();
+
+const amount = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? Math.max(0, value) : 0);
+
+// Adds a still-valid balance to the claim: points add up, the larger percent
+// and the later expiry win, as they did when wallets were merged on the device.
+function addToClaim(claim: WalletClaim | null, points: unknown, percent: unknown, expiresAt: unknown): WalletClaim | null {
+  const until = typeof expiresAt === "string" ? Date.parse(expiresAt) : NaN;
+  if (!(until > Date.now()) || (amount(points) <= 0 && amount(percent) <= 0)) return claim;
+  const iso = new Date(until).toISOString();
+  if (!claim) return { points: amount(points), percent: amount(percent), expiresAt: iso };
+  return {
+    points: claim.points + amount(points),
+    percent: Math.max(claim.percent, amount(percent)),
+    expiresAt: claim.expiresAt > iso ? claim.expiresAt : iso,
+  };
+}
+
+function loadLegacyGameDiscount(): LegacyGameDiscount | null {
+  try {
+    const raw = localStorage.getItem(LEGACY_GAME_KEY);
+    return raw ? JSON.parse(raw) as LegacyGameDiscount : null;
+  } catch {
+    return null;
+  }
+}
+
+// What this device still holds for the user, or null when there is nothing
+// worth sending. The legacy "user_discount" key was never tied to a user, so
+// it goes with the first account that claims after the upgrade.
+export function deviceWalletClaim(username: string): WalletClaim | null {
+  const stored = loadDeviceWallets()[walletKey(username)];
+  const legacy = loadLegacyGameDiscount();
+  const claim = stored ? addToClaim(null, stored.points, stored.percent, stored.expiresAt) : null;
+  return legacy ? addToClaim(claim, legacy.pointsEarned, legacy.totalDiscount, legacy.expirationDate) : claim;
+}
+
+// Called once the server has answered the claim, whether or not it took it
+export function forgetDeviceWallet(username: string) {
+  const wallets = loadDeviceWallets();
+  delete wallets[walletKey(username)];
+  saveDeviceWallets(wallets);
+  localStorage.removeItem(LEGACY_GAME_KEY);
+}
+
+// AuthContext's old session `discount` joins the user's device balance, so it
+// is claimed with the rest.
+export function keepAuthDiscount(username: string, discount: LegacyAuthDiscount) {
+  const wallets = loadDeviceWallets();
+  const key = walletKey(username);
+  const stored = wallets[key] ?? { points: 0, percent: 0, expiresAt: null };
+  const claim = addToClaim(
+    addToClaim(null, stored.points, stored.percent, stored.expiresAt),
+    0,
+    discount.amount,
+    discount.expiresAt,
+  );
+  if (claim) saveDeviceWallets({ ...wallets, [key]: claim });
+}
@@ -0,0 +1,74 @@
+// src/utils/openingHours.ts
+// When the kitchen takes orders and which pickup/delivery times it can offer.
+// Times are the restaurant's local time, which for a guest in the room is theirs too.
+import type { OrderType } from "../types";
+
+type Hours = { open: string; close: string }; // "HH:MM"; close may be "24:00"
+
+// Indexed like Date#getDay(): 0 = Sunday
+export const OPENING_HOURS: Array<Hours | null> = [
+  { open: "11:00", close: "22:00" },
+  { open: "10:00", close: "23:00" },
+  { open: "10:00", close: "23:00" },
+  { open: "10:00", close: "23:00" },
+  { open: "10:00", close: "23:00" },
+  { open: "10:00", close: "24:00" },
+  { open: "10:00", close: "24:00" },
+];
+
+export const SLOT_MINUTES = 15;
+export const SCHEDULE_DAYS = 2; // today and tomorrow
+
+// How long before the order can be on the table, at the counter or at the door
+export const LEAD_MINUTES: Record<OrderType, number> = {
+  dine_in: 15,
+  takeaway: 20,
+  delivery: 45,
+};
+
+const MINUTE = 60_000;
+
+function at(day: Date, hhmm: string): Date {
+  const [h, m] = hhmm.split(":").map(Number);
+  const date = new Date(day);
+  date.setHours(h, m, 0, 0); // 24:00 rolls over to the next midnight
+  return date;
+}
+
+export function hoursOn(day: Date): { open: Date; close: Date } | null {
+  const hours = OPENING_HOURS[day.getDay()];
+  return hours ? { open: at(day, hours.open), close: at(day, hours.close) } : null;
+}
+
+// "As soon as possible" needs the kitchen open now and able to finish before closing
+export function asapAvailable(type: OrderType, now: Date = new Date()): boolean {
+  const hours = hoursOn(now);
+  if (!hours || now < hours.open) return false;
+  return now.getTime() + LEAD_MINUTES[type] * MINUTE <= hours.close.getTime();
+}
+
+// Slot start times on the SLOT_MINUTES grid, at least the lead time away,
+// from opening + lead time up to (not including) closing
+export function timeSlots(type: OrderType, now: Date = new Date()): Date[] {
+  const lead = LEAD_MINUTES[type] * MINUTE;
+  const step = SLOT_MINUTES * MINUTE;
+  const slots: Date[] = [];
+
+  for (let offset = 0; offset < SCHEDULE_DAYS; offset++) {
+    const day = new Date(now);
+    day.setDate(now.getDate() + offset);
+    const hours = hoursOn(day);
+    if (!hours) continue;
+
+    const earliest = Math.max(hours.open.getTime() + lead, now.getTime() + lead);
+    const midnight = at(day, "00:00").getTime();
+    // round up onto the grid counted from midnight, so slots read 12:00, 12:15 ...
+    let time = midnight + Math.ceil((earliest - midnight) / step) * step;
+    for (; time < hours.close.getTime(); time += step) slots.push(new Date(time));
+  }
+  return slots;
+}
+
+export function isValidSlot(type: OrderType, slot: Date, now: Date = new Date()): boolean {
+  return timeSlots(type, now).some(s => s.getTime() === slot.getTime());
+}
@@ -0,0 +1,56 @@
+// src/utils/orders.ts
+// Turning cart lines into order lines and past orders back into cart lines.
+import type { Item, ItemSelection, Order, OrderLine } from "../types";
+import type { NewOrderLine } from "../api";
+import { defaultSelection, isOffered, unitPrice } from "./itemOptions";
+
+// Structurally a CartLine
+export type CartLineLike = Pick<OrderLine, "quantity" | "selection"> & {
+  id: OrderLine["itemId"];
+};
+
+// Only the choice goes to the server; it names and prices the line from its own menu
+export function toNewOrderLine({ id, quantity, selection }: CartLineLike): NewOrderLine {
+  return {
+    itemId: id,
+    quantity,
+    ...(selection && { selection }),
+  };
+}
+
+// Uuids are unwieldy on screen; the first block is plenty to tell orders apart
+export const shortOrderId = (id: Order["id"]) => id.slice(0, 8).toUpperCase();
+
+export type ReorderLine = {
+  item: Item;
+  selection: ItemSelection;
+  quantity: number;
+  price: number; // today's unit price
+  previousPrice: number; // what the order paid per unit
+};
+
+export type ReorderPlan = {
+  available: ReorderLine[];
+  unavailable: OrderLine[]; // off the menu, or one of the chosen options is
+};
+
+// Matches an old order against today's menu. Prices always come from the menu,
+// never from the order, so a reorder is charged what the dish costs now.
+export function planReorder(order: Order, menu: Item[]): ReorderPlan {
+  const byId = new Map(menu.map(item => [String(item.id), item]));
+  const plan: ReorderPlan = { available: [], unavailable: [] };
+
+  for (const line of order.lines) {
+    const item = byId.get(String(line.itemId));
+    // lines from before options were recorded get today's defaults
+    const selection = item && (line.selection ?? defaultSelection(item));
+    // an unpriced dish can't go in the cart from the menu either
+    const price = item && selection ? unitPrice(item, selection) : 0;
+    if (!item || !selection || price <= 0 || !isOffered(item, selection)) {
+      plan.unavailable.push(line);
+      continue;
+    }
+    plan.available.push({ item, selection, quantity: line.quantity, price, previousPrice: line.price });
+  }
+  return plan;
+}
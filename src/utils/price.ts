@@ -0,0 +1,8 @@
+// src/utils/price.ts
+import type { RawItem } from "../api/validate";
+
+// The backend sends prices as either "490" or 490 (and old carts stored both)
+export function parsePrice(price: RawItem["price"]): number {
+  const n = typeof price === "number" ? price : parseFloat(String(price ?? "").replace(",", "."));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
@@ -0,0 +1,66 @@
+// src/utils/pricing.ts
+// Pure order pricing: cart lines + active discount -> totals.
+
+export type PricedLineInput = {
+  id: number | string;
+  title: string;
+  price: number;
+  quantity: number;
+};
+
+export type PricedLine<T extends PricedLineInput = PricedLineInput> = T & {
+  lineTotal: number;
+};
+
+// Structurally a LoyaltyWallet, but any { percent, expiresAt } will do.
+export type DiscountSource = {
+  percent: number;
+  expiresAt: string | Date | null;
+};
+
+export type ActiveDiscount = {
+  percent: number; // 0..100
+  expiresAt: Date;
+};
+
+export type OrderTotals<T extends PricedLineInput = PricedLineInput> = {
+  lines: PricedLine<T>[];
+  subtotal: number;
+  discountPercent: number;
+  discountAmount: number;
+  total: number;
+};
+
+export const MAX_DISCOUNT_PERCENT = 100;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Returns null when the discount is missing, zero or past its expiry.
+export function toActiveDiscount(source: DiscountSource | null | undefined, now: Date = new Date()): ActiveDiscount | null {
+  if (!source) return null;
+  const { percent } = source;
+  if (!source.expiresAt || !Number.isFinite(percent) || percent <= 0) return null;
+
+  const expiresAt = new Date(source.expiresAt);
+  if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= now.getTime()) return null;
+
+  return { percent: Math.min(MAX_DISCOUNT_PERCENT, percent), expiresAt };
+}
+
+export function priceOrder<T extends PricedLineInput>(lines: T[], discount: ActiveDiscount | null): OrderTotals<T> {
+  const priced = lines.map(line => ({
+    ...line,
+    lineTotal: round2(Math.max(0, line.price) * Math.max(0, line.quantity)),
+  }));
+  const subtotal = round2(priced.reduce((sum, l) => sum + l.lineTotal, 0));
+  const discountPercent = discount ? Math.max(0, Math.min(MAX_DISCOUNT_PERCENT, discount.percent)) : 0;
+  const discountAmount = round2(subtotal * discountPercent / 100);
+
+  return {
+    lines: priced,
+    subtotal,
+    discountPercent,
+    discountAmount,
+    total: round2(subtotal - discountAmount),
+  };
+}
@@ -0,0 +1,39 @@
+// src/utils/recentSearches.ts
+// Last few menu searches on this device, newest first.
+
+const RECENT_KEY = "menu_frontend_recent_searches_v1";
+const RECENT_LIMIT = 8;
+
+export function loadRecentSearches(): string[] {
+  try {
+    const raw = localStorage.getItem(RECENT_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((q): q is string => typeof q === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecentSearches(queries: string[]) {
+  localStorage.setItem(RECENT_KEY, JSON.stringify(queries));
+}
+
+// Moves the query to the front; case-only differences count as the same search
+export function addRecentSearch(query: string): string[] {
+  const trimmed = query.trim().replace(/\s+/g, " ");
+  if (!trimmed) return loadRecentSearches();
+  const rest = loadRecentSearches().filter(q => q.toLowerCase() !== trimmed.toLowerCase());
+  const next = [trimmed, ...rest].slice(0, RECENT_LIMIT);
+  saveRecentSearches(next);
+  return next;
+}
+
+export function removeRecentSearch(query: string): string[] {
+  const next = loadRecentSearches().filter(q => q !== query);
+  saveRecentSearches(next);
+  return next;
+}
+
+export function clearRecentSearches() {
+  localStorage.removeItem(RECENT_KEY);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { safeRedirect } from "./redirect";
+
+const ORIGIN = "https://menu.example";
+const FALLBACK = "/menu";
+const redirect = (raw: string | null | undefined) => safeRedirect(raw, FALLBACK, ORIGIN);
+
+describe("safeRedirect", () => {
+  it("keeps known same-origin paths with their query and hash", () => {
+    expect(redirect("/cart")).toBe("/cart");
+    expect(redirect("/orders/abc?x=1#lines")).toBe("/orders/abc?x=1#lines");
+    expect(redirect("/t/12")).toBe("/t/12");
+    expect(redirect(`${ORIGIN}/cart/`)).toBe("/cart");
+    expect(redirect("HTTPS://menu.example/cart")).toBe("/cart");
+  });
+
+  it("falls back when there is nothing to follow", () => {
+    expect(redirect(null)).toBe(FALLBACK);
+    expect(redirect(undefined)).toBe(FALLBACK);
+    expect(redirect("   ")).toBe(FALLBACK);
+  });
+
+  it.each([
+    ["protocol-relative", "//evil.com"],
+    ["backslash host", "/\\evil.com"],
+    ["other origin", "https://evil.com"],
+    ["other origin with a known path", "https://evil.com/cart"],
+    ["javascript: URL", "javascript:alert(1)"],
+    ["data: URL", "data:text/html,<script>alert(1)</script>"],
+    ["encoded slashes without a leading slash", "%2F%2Fevil.com"],
+    ["encoded protocol-relative path", "/%2F%2Fevil.com"],
+    ["encoded backslash", "/%5Cevil.com"],
+  ])("rejects %s", (_, raw) => {
+    expect(redirect(raw)).toBe(FALLBACK);
+  });
+
+  it.each([
+    ["tab", "/ca\trt"],
+    ["encoded newline", "/cart%0a"],
+    ["encoded NUL", "/cart%00"],
+    ["DEL", "/cart\u007f"],
+  ])("rejects control characters (%s)", (_, raw) => {
+    expect(redirect(raw)).toBe(FALLBACK);
+  });
+
+  it.each(["/cart%E0%A4%A", "/cart%", "/orders/%zz"])("rejects the malformed escape %s", raw => {
+    expect(redirect(raw)).toBe(FALLBACK);
+  });
+
+  it("rejects routes the app does not mount", () => {
+    expect(redirect("/admin")).toBe(FALLBACK);
+    expect(redirect("/cart/extra")).toBe(FALLBACK);
+    expect(redirect("/orders/")).toBe(FALLBACK);
+  });
+
+  it("never sends the user back to the auth pages", () => {
+    expect(redirect("/login")).toBe(FALLBACK);
+    expect(redirect("/signup")).toBe(FALLBACK);
+    expect(redirect("/forgot-password")).toBe(FALLBACK);
+    expect(redirect("/reset-password?token=abc")).toBe(FALLBACK);
+  });
+
+  it("does not let a table segment climb out to another page", () => {
+    // ".." is resolved like a browser would: "/t/.." is just the home page
+    expect(redirect("/t/..")).toBe("/");
+    expect(redirect("/t/../login")).toBe(FALLBACK);
+    expect(redirect("/t/%2e%2e/login")).toBe(FALLBACK);
+    expect(redirect("/t/..%2F..%2Flogin")).toBe(FALLBACK);
+  });
+});
@@ -0,0 +1,61 @@
+// src/utils/redirect.ts
+// `?redirect=` values come from the address bar, so treat them as hostile:
+// only same-origin paths that App.tsx actually mounts are followed.
+import { ROUTES } from "../routes";
+
+// Sending someone back to the auth forms after logging in would be a loop
+const AUTH_PAGES: string[] = [ROUTES.login, ROUTES.signup, ROUTES.forgotPassword, ROUTES.resetPassword];
+const REDIRECTABLE: string[] = Object.values(ROUTES).filter(p => !AUTH_PAGES.includes(p));
+
+// Backslashes and control characters are normalised by browsers into "//host" tricks
+const hasUnsafeChars = (value: string) =>
+  [...value].some(ch => ch === "\\" || ch.charCodeAt(0) < 0x20 || ch.charCodeAt(0) === 0x7f);
+
+function matchesRoute(pattern: string, pathname: string): boolean {
+  const expected = pattern.split("/");
+  const actual = pathname.split("/");
+  return expected.length === actual.length
+    && expected.every((segment, i) => segment.startsWith(":") ? actual[i] !== "" : segment === actual[i]);
+}
+
+function normalizePath(pathname: string): string | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return null; // malformed escape like "%E0%A4%A"
+  }
+  if (hasUnsafeChars(decoded) || decoded.includes("//")) return null;
+  return decoded.length > 1 ? decoded.replace(/\/+$/, "") : decoded;
+}
+
+// Returns a path + search + hash that is safe to navigate to, or `fallback`
+export function safeRedirect(
+  raw: string | null | undefined,
+  fallback: string = ROUTES.home,
+  origin: string = window.location.origin,
+): string {
+  const value = raw?.trim();
+  if (!value || hasUnsafeChars(value)) return fallback;
+  // protocol-relative ("//evil.com") or anything that isn't a path or an http(s) URL
+  if (value.startsWith("//") || !/^(\/|https?:\/\/)/i.test(value)) return fallback;
+
+  let url: URL;
+  try {
+    url = new URL(value, origin);
+  } catch {
+    return fallback;
+  }
+  if (url.origin !== origin) return fallback;
+
+  const pathname = normalizePath(url.pathname);
+  if (!pathname || !REDIRECTABLE.some(route => matchesRoute(route, pathname))) return fallback;
+
+  return encodeURI(pathname) + url.search + url.hash;
+}
+
+// "/login?redirect=%2Fcart"; the query is dropped when the target is just home
+export function withRedirect(page: string, target: string | null | undefined): string {
+  const safe = safeRedirect(target);
+  return safe === ROUTES.home ? page : `${page}?redirect=${encodeURIComponent(safe)}`;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { Item } from "../types";
+import { buildSearchIndex, foldText, searchIndex, snippet } from "./search";
+
+const MENU: Item[] = [
+  { id: 1, title: "Плов", description: "Рис с бараниной и морковью", ingredients: "рис, баранина, морковь" },
+  { id: 2, title: "Chicken shashlik", description: "Grilled on skewers", ingredients: "chicken, onion" },
+  { id: 3, title: "Хачапури", description: "Лодочка с сыром и яйцом" },
+  { id: 4, title: "Tea", description: "Black tea with lemon" },
+];
+
+const index = buildSearchIndex(MENU);
+const ids = (query: string) => searchIndex(index, query).map(hit => hit.item.id);
+
+describe("foldText", () => {
+  it("transliterates й and ё before accents are stripped", () => {
+    expect(foldText("чай")).toBe("chay");
+    expect(foldText("Ёлка")).toBe("elka");
+    expect(foldText("ЧАЙ")).toBe("chay");
+  });
+
+  it("treats decomposed input like the composed letters", () => {
+    expect(foldText("ча\u0438\u0306")).toBe("chay");
+  });
+
+  it("strips accents from Latin text", () => {
+    expect(foldText("Café Crème")).toBe("cafe creme");
+  });
+
+  it("folds competing Latin spellings together", () => {
+    expect(foldText("хачапури")).toBe(foldText("khachapuri"));
+    expect(foldText("өрүк")).toBe("oruk");
+  });
+});
+
+describe("searchIndex", () => {
+  it("finds Cyrillic titles from a Latin query and the other way round", () => {
+    expect(ids("plov")).toEqual([1]);
+    expect(ids("khachapuri")).toEqual([3]);
+    expect(ids("шашлик")).toEqual([2]);
+  });
+
+  it("forgives small typos in longer words", () => {
+    expect(ids("shashlyk")).toEqual([2]);
+    expect(ids("chikcen")).toEqual([2]);
+    expect(ids("хачапрури")).toEqual([3]);
+  });
+
+  it("is exact for short words, where a typo would match too much", () => {
+    expect(ids("tea")).toEqual([4]);
+    expect(ids("tee")).toEqual([]);
+  });
+
+  it("matches the start of a word while it is still being typed", () => {
+    expect(ids("shash")).toEqual([2]);
+  });
+
+  it("needs every word of the query to match", () => {
+    expect(ids("chicken onion")).toEqual([2]);
+    expect(ids("chicken lemon")).toEqual([]);
+  });
+
+  it("ranks a title match above one in the description", () => {
+    const menu: Item[] = [
+      { id: "side", title: "Salad", description: "Goes well with plov" },
+      { id: "main", title: "Plov" },
+    ];
+    expect(searchIndex(buildSearchIndex(menu), "plov").map(hit => hit.item.id)).toEqual(["main", "side"]);
+  });
+
+  it("returns nothing for a query without letters or digits", () => {
+    expect(ids(" ,.! ")).toEqual([]);
+  });
+});
+
+describe("highlight ranges", () => {
+  it("point at the matched words in the original text", () => {
+    const [hit] = searchIndex(index, "baranina");
+    expect(hit.match.ingredients).toEqual([[5, 13]]);
+    expect(MENU[0].ingredients!.slice(5, 13)).toBe("баранина");
+    expect(hit.match.description).toEqual([[6, 15]]);
+    expect(hit.match.title).toEqual([]);
+  });
+
+  it("cover every field and word a query matched, once each and in order", () => {
+    const [hit] = searchIndex(index, "tea lemon");
+    expect(hit.match.title).toEqual([[0, 3]]);
+    expect(hit.match.description).toEqual([[6, 9], [15, 20]]);
+  });
+
+  it("follow the text when a snippet cuts it down", () => {
+    const text = `${"a".repeat(60)} plov ${"b".repeat(60)}`;
+    const cut = snippet(text, [[61, 65]], 10);
+    expect(cut.text.startsWith("…")).toBe(true);
+    expect(cut.text.endsWith("…")).toBe(true);
+    const [[start, end]] = cut.ranges;
+    expect(cut.text.slice(start, end)).toBe("plov");
+  });
+
+  it("leave short text alone", () => {
+    expect(snippet("Plov", [[0, 4]])).toEqual({ text: "Plov", ranges: [[0, 4]] });
+  });
+});
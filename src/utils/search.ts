@@ -0,0 +1,167 @@
+// src/utils/search.ts
+// Client-side menu search. Everything is compared in a folded Latin form, so
+// "plov", "плов" and "plow" all find the same dish, and small typos still match.
+import type { Item } from "../types";
+
+export type Range = [start: number, end: number];
+export type SearchField = "title" | "description" | "ingredients";
+export type ItemMatch = Record<SearchField, Range[]>;
+
+export type SearchHit<T extends Item = Item> = {
+  item: T;
+  score: number;
+  match: ItemMatch;
+};
+
+type Word = { latin: string; start: number; end: number };
+type IndexedItem<T extends Item> = { item: T; fields: Record<SearchField, Word[]> };
+export type SearchIndex<T extends Item = Item> = IndexedItem<T>[];
+
+const FIELD_WEIGHT: Record<SearchField, number> = { title: 3, ingredients: 2, description: 1 };
+const FIELDS = Object.keys(FIELD_WEIGHT) as SearchField[];
+
+// Russian and Kyrgyz letters, spelled the way people type them on a Latin keyboard
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: "a", б: "b", в: "v", г: "g", д: "d", е: "e", ё: "e", ж: "zh", з: "z", и: "i",
+  й: "y", к: "k", л: "l", м: "m", н: "n", о: "o", п: "p", р: "r", с: "s", т: "t",
+  у: "u", ф: "f", х: "h", ц: "ts", ч: "ch", ш: "sh", щ: "sch", ъ: "", ы: "y", ь: "",
+  э: "e", ю: "yu", я: "ya", ң: "ng", ө: "o", ү: "u",
+};
+
+// Competing Latin spellings of the same sound collapse to one
+const LATIN_FOLDS: Array<[RegExp, string]> = [
+  [/kh/g, "h"],
+  [/w/g, "v"],
+  [/ck/g, "k"],
+  [/q/g, "k"],
+  [/x/g, "ks"],
+  [/j/g, "zh"],
+];
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+// Lowercase, transliterate to the folded Latin form and strip accents.
+// Transliteration goes first: NFKD would turn "й" into "и" + breve (and "ё"
+// into "е" + diaeresis) before the table ever saw them.
+export function foldText(text: string): string {
+  let latin = "";
+  for (const ch of text.toLowerCase().normalize("NFC")) {
+    latin += CYRILLIC_TO_LATIN[ch] ?? ch;
+  }
+  latin = latin.normalize("NFKD").replace(/\p{M}/gu, "");
+  return LATIN_FOLDS.reduce((s, [re, to]) => s.replace(re, to), latin);
+}
+
+function words(text: string | undefined): Word[] {
+  if (!text) return [];
+  return [...text.matchAll(WORD_RE)].map(m => ({
+    latin: foldText(m[0]),
+    start: m.index,
+    end: m.index + m[0].length,
+  }));
+}
+
+// Optimal string alignment distance; gives up early once `max` is exceeded
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d = Math.min(d, prevPrev[j - 2] + 1);
+      }
+      row.push(d);
+      best = Math.min(best, d);
+    }
+    if (best > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+const allowedTypos = (length: number) => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+// 0 = no match; higher is better
+function matchWord(token: string, word: string): number {
+  if (word === token) return 10;
+  if (word.startsWith(token)) return 8;
+  if (token.length >= 3 && word.includes(token)) return 5;
+
+  const max = allowedTypos(token.length);
+  if (max === 0) return 0;
+  // compare with the word's prefix too, so half-typed words are forgiven as well
+  const distance = Math.min(
+    editDistance(token, word, max),
+    editDistance(token, word.slice(0, token.length), max),
+    editDistance(token, word.slice(0, token.length + 1), max),
+  );
+  return distance <= max ? 4 - distance : 0;
+}
+
+export function buildSearchIndex<T extends Item>(items: T[]): SearchIndex<T> {
+  return items.map(item => ({
+    item,
+    fields: {
+      title: words(item.title),
+      description: words(item.description),
+      ingredients: words(item.ingredients),
+    },
+  }));
+}
+
+export function searchIndex<T extends Item>(index: SearchIndex<T>, query: string, limit = 50): SearchHit<T>[] {
+  const tokens = [...new Set(words(query).map(w => w.latin))].filter(Boolean);
+  if (tokens.length === 0) return [];
+
+  const hits: SearchHit<T>[] = [];
+  for (const entry of index) {
+    const match: ItemMatch = { title: [], description: [], ingredients: [] };
+    let score = 0;
+    // every token has to match somewhere (AND), its best field counts
+    const allMatched = tokens.every(token => {
+      let best = 0;
+      for (const field of FIELDS) {
+        for (const word of entry.fields[field]) {
+          const s = matchWord(token, word.latin);
+          if (s === 0) continue;
+          match[field].push([word.start, word.end]);
+          best = Math.max(best, s * FIELD_WEIGHT[field]);
+        }
+      }
+      score += best;
+      return best > 0;
+    });
+    if (allMatched) hits.push({ item: entry.item, score, match: dedupe(match) });
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score || a.item.title.length - b.item.title.length)
+    .slice(0, limit);
+}
+
+function dedupe(match: ItemMatch): ItemMatch {
+  const clean = (ranges: Range[]) =>
+    [...new Map(ranges.map(r => [r[0], r])).values()].sort((a, b) => a[0] - b[0]);
+  return { title: clean(match.title), description: clean(match.description), ingredients: clean(match.ingredients) };
+}
+
+// Cuts long text down to a window around the first match, shifting the ranges to suit
+export function snippet(text: string, ranges: Range[], radius = 40): { text: string; ranges: Range[] } {
+  if (ranges.length === 0 || text.length <= radius * 2) return { text, ranges };
+  const from = Math.max(0, ranges[0][0] - radius);
+  const to = Math.min(text.length, ranges[0][1] + radius);
+  const prefix = from > 0 ? "…" : "";
+  const shift = prefix.length - from;
+  return {
+    text: prefix + text.slice(from, to) + (to < text.length ? "…" : ""),
+    ranges: ranges
+      .filter(([start, end]) => start >= from && end <= to)
+      .map(([start, end]): Range => [start + shift, end + shift]),
+  };
+}
@@ -0,0 +1,68 @@
+// src/utils/tableSession.ts
+// Dine-in tables. The QR code on a table opens /t/<id>; the id is kept in
+// sessionStorage so it belongs to that tab's visit and is gone once it closes.
+
+const TABLE_KEY = "menu_frontend_table_v1";
+
+// Short and URL-safe: "12", "A3", "patio-4"
+const TABLE_ID = /^[A-Za-z0-9][A-Za-z0-9-]{0,15}$/;
+
+// Keeps a pasted list from turning into thousands of QR codes
+export const MAX_TABLES = 200;
+
+export function normalizeTableId(raw: string | null | undefined): string | null {
+  const id = raw?.trim() ?? "";
+  return TABLE_ID.test(id) ? id : null;
+}
+
+export function loadTable(): string | null {
+  try {
+    return normalizeTableId(sessionStorage.getItem(TABLE_KEY));
+  } catch {
+    return null;
+  }
+}
+
+export function saveTable(id: string) {
+  sessionStorage.setItem(TABLE_KEY, id);
+}
+
+export function clearTable() {
+  sessionStorage.removeItem(TABLE_KEY);
+}
+
+export type ParsedTables = {
+  ids: string[]; // unique, in the order given, at most MAX_TABLES
+  invalid: string[];
+  truncated: boolean;
+};
+
+// "1-12, A1 patio-3" -> 1..12, A1, patio-3. Numeric ranges expand; anything
+// else must be a valid id on its own.
+export function parseTableIds(input: string): ParsedTables {
+  const ids = new Set<string>();
+  const invalid: string[] = [];
+  let truncated = false;
+
+  const add = (id: string) => {
+    if (ids.size >= MAX_TABLES) truncated = true;
+    else ids.add(id);
+  };
+
+  for (const token of input.split(/[\s,;]+/).filter(Boolean)) {
+    const range = token.match(/^(\d+)-(\d+)$/);
+    if (range) {
+      const [from, to] = [Number(range[1]), Number(range[2])];
+      if (from > to) {
+        invalid.push(token);
+        continue;
+      }
+      for (let n = from; n <= to && !truncated; n++) add(String(n));
+      continue;
+    }
+    const id = normalizeTableId(token);
+    if (id) add(id);
+    else invalid.push(token);
+  }
+  return { ids: [...ids], invalid, truncated };
+}
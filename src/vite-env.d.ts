@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_API_TIMEOUT_MS?: string;
+  readonly VITE_API_RETRIES?: string;
+  readonly VITE_USE_MOCKS?: string;
+  readonly VITE_MOCK_LATENCY_MS?: string;
+  readonly VITE_AUTH_PROVIDER?: "rest" | "local";
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}